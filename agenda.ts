@@ -0,0 +1,176 @@
+/**
+ * Agenda views of the timeline: the days a day/week/month view covers, and their Markdown rendering
+ * Pure formatting over already-loaded events; the MCP tools do the database work
+ */
+
+import type { EventStatus } from './schemas/validation.js';
+
+export type AgendaMode = 'day' | 'week' | 'month';
+
+export type ApprovalState = 'not_requested' | 'awaiting' | 'approved' | 'rejected';
+
+export interface AgendaEvent {
+  id: string;
+  name: string;
+  platform: string | null;
+  status: EventStatus;
+  approval: ApprovalState;
+  reviewers: string[];
+  scheduledTime: string;
+  localTime: string; // HH:MM in the agenda timezone
+}
+
+export interface AgendaTrack {
+  trackId: string;
+  trackName: string;
+  events: AgendaEvent[];
+}
+
+export interface AgendaDay {
+  date: string; // YYYY-MM-DD
+  tracks: AgendaTrack[];
+}
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+function toDate(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// 0 = Monday
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Calendar days (YYYY-MM-DD) shown by a view around `date`: the day, its Monday-to-Sunday week, or its month
+ */
+export function getAgendaDays(mode: AgendaMode, date: string): string[] {
+  const anchor = toDate(date);
+  let first = anchor;
+  let count = 1;
+  
+  if (mode === 'week') {
+    first = addDays(anchor, -weekdayIndex(anchor));
+    count = 7;
+  } else if (mode === 'month') {
+    first = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), 1));
+    count = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + 1, 0)).getUTCDate();
+  }
+  
+  return Array.from({ length: count }, (_, i) => addDays(first, i).toISOString().slice(0, 10));
+}
+
+/**
+ * Approval state of an event from its lifecycle status and approved flag
+ */
+export function getApprovalState(status: EventStatus, approved: boolean): ApprovalState {
+  if (status === 'awaiting_approval') return 'awaiting';
+  if (status === 'rejected') return 'rejected';
+  if (approved) return 'approved';
+  return 'not_requested';
+}
+
+function describeDay(date: string): string {
+  const day = toDate(date);
+  return `${WEEKDAYS[weekdayIndex(day)]}, ${MONTHS[day.getUTCMonth()]} ${day.getUTCDate()}, ${day.getUTCFullYear()}`;
+}
+
+function describeApproval(event: AgendaEvent): string {
+  switch (event.approval) {
+    case 'awaiting':
+      return event.reviewers.length > 0 ? `awaiting approval (${event.reviewers.join(', ')})` : 'awaiting approval';
+    case 'approved':
+      return 'approved';
+    case 'rejected':
+      return 'rejected';
+    default:
+      return 'approval not requested';
+  }
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]|<>])/g, '\\$1');
+}
+
+/**
+ * Markdown agenda: a heading per day, then per track, then one line per event
+ * Days without events are listed as such so gaps stay visible
+ */
+export function formatAgendaMarkdown(title: string, days: AgendaDay[]): string {
+  const lines = [`# ${title}`];
+  
+  for (const day of days) {
+    lines.push('', `## ${describeDay(day.date)}`);
+    if (day.tracks.length === 0) {
+      lines.push('', '_Nothing scheduled_');
+      continue;
+    }
+    
+    for (const track of day.tracks) {
+      lines.push('', `### ${escapeMarkdown(track.trackName)}`, '');
+      for (const event of track.events) {
+        lines.push(
+          `- **${event.localTime}** ${escapeMarkdown(event.name)} · ${event.platform ?? 'no platform'} · \`${event.status}\` · ${describeApproval(event)}`
+        );
+      }
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Markdown month grid: a Monday-to-Sunday table with each day's events, then the month's event count
+ * Cells list up to `perCell` events by time and name and count the rest
+ */
+export function formatMonthGrid(title: string, days: AgendaDay[], perCell: number = 3): string {
+  const cells = days.map(day => {
+    const dayEvents = day.tracks.flatMap(track => track.events).sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime));
+    const entries = dayEvents.slice(0, perCell).map(event => `${event.localTime} ${escapeMarkdown(event.name)} \`${event.status}\``);
+    if (dayEvents.length > perCell) {
+      entries.push(`+${dayEvents.length - perCell} more`);
+    }
+    return [`**${toDate(day.date).getUTCDate()}**`, ...entries].join('<br>');
+  });
+  
+  // Pad the first week back to Monday and the last one to Sunday
+  const leading = days.length > 0 ? weekdayIndex(toDate(days[0].date)) : 0;
+  const padded = [...Array(leading).fill(''), ...cells];
+  while (padded.length % 7 !== 0) {
+    padded.push('');
+  }
+  
+  const lines = [
+    `# ${title}`,
+    '',
+    `| ${WEEKDAYS.map(day => day.slice(0, 3)).join(' | ')} |`,
+    `|${' --- |'.repeat(7)}`
+  ];
+  for (let i = 0; i < padded.length; i += 7) {
+    lines.push(`| ${padded.slice(i, i + 7).join(' | ')} |`);
+  }
+  
+  const total = days.reduce((sum, day) => sum + day.tracks.reduce((count, track) => count + track.events.length, 0), 0);
+  lines.push('', `${total} event${total === 1 ? '' : 's'} this month`);
+  
+  return lines.join('\n');
+}
+
+/**
+ * Title of a view, e.g. "Week of Monday, October 20, 2025"
+ */
+export function formatAgendaTitle(mode: AgendaMode, days: string[]): string {
+  if (mode === 'day') return `Agenda for ${describeDay(days[0])}`;
+  if (mode === 'week') return `Week of ${describeDay(days[0])}`;
+  const first = toDate(days[0]);
+  return `${MONTHS[first.getUTCMonth()]} ${first.getUTCFullYear()}`;
+}
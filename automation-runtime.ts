@@ -0,0 +1,188 @@
+/**
+ * Runtime helpers for timeline automations
+ * Parses interval and cron triggers, computes next run times and evaluates end conditions
+ */
+
+import type { AutomationTrigger, AutomationEndCondition, AutomationStats } from './schemas/validation.js';
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse an interval string such as "30m", "1h" or "2d" into milliseconds
+ */
+export function parseInterval(interval: string): number {
+  const match = interval.trim().match(/^(\d+)([mhd])$/);
+  if (!match) {
+    throw new Error(`Invalid interval "${interval}"`);
+  }
+  const ms = parseInt(match[1]) * INTERVAL_UNITS[match[2]];
+  if (ms <= 0) {
+    throw new Error(`Interval "${interval}" must be greater than zero`);
+  }
+  return ms;
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/');
+    const step = stepStr === undefined ? 1 : parseInt(stepStr);
+    if (isNaN(step) || step <= 0) {
+      throw new Error(`Invalid cron step in "${field}"`);
+    }
+    
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startStr, endStr] = range.split('-');
+      start = parseInt(startStr);
+      end = endStr === undefined ? (stepStr === undefined ? start : max) : parseInt(endStr);
+    }
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+    
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ * Day-of-week accepts 0-7 where both 0 and 7 mean Sunday
+ */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+  
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+  
+  return {
+    minutes: parseCronField(fields[0], 0, 59),
+    hours: parseCronField(fields[1], 0, 23),
+    daysOfMonth: parseCronField(fields[2], 1, 31),
+    months: parseCronField(fields[3], 1, 12),
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+function matchesCronDay(cron: CronFields, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+  
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  if (cron.daysOfMonthRestricted) return domMatch;
+  if (cron.daysOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * Find the first time strictly after `after` that matches the cron expression (UTC)
+ */
+export function nextCronRun(expression: string, after: Date): Date {
+  const cron = parseCron(expression);
+  
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  
+  // Five years covers every valid expression, including Feb 29 schedules
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesCronDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+  
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+/**
+ * Compute the next run time for a trigger, relative to the last run (or now)
+ */
+export function computeNextRun(trigger: AutomationTrigger, from: Date): Date {
+  if (trigger.type === 'interval') {
+    return new Date(from.getTime() + parseInterval(trigger.every));
+  }
+  return nextCronRun(trigger.expression, from);
+}
+
+export function emptyAutomationStats(): AutomationStats {
+  return { totalExecutions: 0, successCount: 0, failureCount: 0 };
+}
+
+/**
+ * Check whether an automation's end condition has been reached
+ * Returns a human readable reason, or null if the automation should keep running
+ */
+export function getEndConditionReason(
+  endCondition: AutomationEndCondition | null | undefined,
+  stats: AutomationStats,
+  createdAt: Date,
+  now: Date
+): string | null {
+  if (!endCondition) return null;
+  
+  switch (endCondition.type) {
+    case 'executions':
+      return stats.totalExecutions >= endCondition.value
+        ? `Reached ${endCondition.value} executions`
+        : null;
+    case 'date':
+      return now.getTime() >= new Date(endCondition.value).getTime()
+        ? `End date ${endCondition.value} reached`
+        : null;
+    case 'days': {
+      const endTime = createdAt.getTime() + endCondition.value * INTERVAL_UNITS.d;
+      return now.getTime() >= endTime
+        ? `Ran for ${endCondition.value} days`
+        : null;
+    }
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Posting cadence rules: minimum spacing, daily limits, quiet hours and blackout dates
+ * Pure checks over already-loaded rules and events; the MCP tools do the database work
+ */
+
+import { toWallClock } from './timezone-helpers.js';
+import type { CadenceScope, QuietHours, TimeWindow } from './schemas/validation.js';
+
+export interface CadenceRuleConfig {
+  id: string;
+  scope: CadenceScope;
+  platform?: string | null;
+  trackId?: string | null;
+  minSpacingMinutes?: number | null;
+  maxPerDay?: number | null;
+  quietHours?: QuietHours | null;
+  blackoutDates: string[];
+  timezone?: string | null;
+}
+
+export interface CadenceCandidate {
+  trackId: string;
+  platform: string;
+  scheduledTime: Date;
+  timeZone: string; // Used when a rule has no timezone of its own
+}
+
+export interface CadencePeer {
+  id: string;
+  name: string;
+  trackId: string;
+  platform: string;
+  scheduledTime: Date;
+}
+
+export type CadenceConflictType = 'min_spacing' | 'max_per_day' | 'quiet_hours' | 'blackout_date';
+
+export interface CadenceConflict {
+  ruleId: string;
+  scope: CadenceScope;
+  type: CadenceConflictType;
+  message: string;
+  eventIds?: string[]; // Events the candidate collides with
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function describeScope(rule: CadenceRuleConfig): string {
+  if (rule.scope === 'platform') return `${rule.platform} posts`;
+  if (rule.scope === 'track') return 'posts in this track';
+  return 'posts';
+}
+
+/**
+ * Whether a rule governs events with this track and platform
+ */
+export function ruleApplies(rule: CadenceRuleConfig, target: { trackId: string; platform: string }): boolean {
+  if (rule.scope === 'platform') return rule.platform === target.platform;
+  if (rule.scope === 'track') return rule.trackId === target.trackId;
+  return true;
+}
+
+function localDate(date: Date, timeZone: string): string {
+  const wall = toWallClock(date, timeZone);
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
+
+function inTimeWindow(date: Date, window: QuietHours | TimeWindow, timeZone: string): boolean {
+  const wall = toWallClock(date, timeZone);
+  const minutes = wall.hour * 60 + wall.minute;
+  const [startHour, startMinute] = window.start.split(':').map(Number);
+  const [endHour, endMinute] = window.end.split(':').map(Number);
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+  
+  // Windows such as 22:00-07:00 wrap past midnight
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Every rule the candidate time breaks, given the other scheduled events
+ * `peers` must not include the candidate event itself
+ */
+export function findCadenceConflicts(
+  candidate: CadenceCandidate,
+  rules: CadenceRuleConfig[],
+  peers: CadencePeer[]
+): CadenceConflict[] {
+  const conflicts: CadenceConflict[] = [];
+  
+  for (const rule of rules) {
+    if (!ruleApplies(rule, candidate)) continue;
+    
+    const timeZone = rule.timezone || candidate.timeZone;
+    const day = localDate(candidate.scheduledTime, timeZone);
+    const governed = peers.filter(peer => ruleApplies(rule, peer));
+    
+    if (rule.blackoutDates.includes(day)) {
+      conflicts.push({
+        ruleId: rule.id,
+        scope: rule.scope,
+        type: 'blackout_date',
+        message: `${day} is a blackout date for ${describeScope(rule)}`
+      });
+    }
+    
+    if (rule.quietHours && inTimeWindow(candidate.scheduledTime, rule.quietHours, timeZone)) {
+      conflicts.push({
+        ruleId: rule.id,
+        scope: rule.scope,
+        type: 'quiet_hours',
+        message: `Falls within quiet hours ${rule.quietHours.start}-${rule.quietHours.end} (${timeZone}) for ${describeScope(rule)}`
+      });
+    }
+    
+    if (rule.minSpacingMinutes) {
+      const spacingMs = rule.minSpacingMinutes * MINUTE_MS;
+      const tooClose = governed.filter(peer =>
+        Math.abs(peer.scheduledTime.getTime() - candidate.scheduledTime.getTime()) < spacingMs
+      );
+      if (tooClose.length > 0) {
+        conflicts.push({
+          ruleId: rule.id,
+          scope: rule.scope,
+          type: 'min_spacing',
+          message: `Less than ${rule.minSpacingMinutes} minutes from ${tooClose.map(peer => `"${peer.name}"`).join(', ')}; ${describeScope(rule)} need at least that much spacing`,
+          eventIds: tooClose.map(peer => peer.id)
+        });
+      }
+    }
+    
+    if (rule.maxPerDay) {
+      const sameDay = governed.filter(peer => localDate(peer.scheduledTime, timeZone) === day);
+      if (sameDay.length >= rule.maxPerDay) {
+        conflicts.push({
+          ruleId: rule.id,
+          scope: rule.scope,
+          type: 'max_per_day',
+          message: `${day} already has ${sameDay.length} ${describeScope(rule)} (limit ${rule.maxPerDay} per day)`,
+          eventIds: sameDay.map(peer => peer.id)
+        });
+      }
+    }
+  }
+  
+  return conflicts;
+}
+
+/**
+ * The first conflict-free times after the requested one, searching forward in fixed steps
+ */
+export function suggestAlternativeTimes(
+  candidate: CadenceCandidate,
+  rules: CadenceRuleConfig[],
+  peers: CadencePeer[],
+  options: { count?: number; stepMinutes?: number; searchDays?: number; notBefore?: Date } = {}
+): Date[] {
+  const { count = 3, stepMinutes = 15, searchDays = 14, notBefore = new Date() } = options;
+  const suggestions: Date[] = [];
+  const stepMs = stepMinutes * MINUTE_MS;
+  const limit = candidate.scheduledTime.getTime() + searchDays * 24 * 60 * MINUTE_MS;
+  const taken = [...peers];
+  
+  for (let time = candidate.scheduledTime.getTime() + stepMs; time <= limit && suggestions.length < count; time += stepMs) {
+    if (time <= notBefore.getTime()) continue;
+    
+    const scheduledTime = new Date(time);
+    if (findCadenceConflicts({ ...candidate, scheduledTime }, rules, taken).length > 0) continue;
+    
+    // Treat earlier suggestions as taken, so the options are spread out rather than 15 minutes apart
+    suggestions.push(scheduledTime);
+    taken.push({ id: 'suggestion', name: 'suggestion', trackId: candidate.trackId, platform: candidate.platform, scheduledTime });
+  }
+  
+  return suggestions;
+}
+
+export interface OpenSlotOptions {
+  from: Date;
+  to: Date;
+  count: number;
+  windows: TimeWindow[]; // Preferred local posting hours, in the candidate timezone
+  minSpacingMinutes: number; // From other posts on the same platform
+  stepMinutes?: number;
+}
+
+export interface OpenSlot {
+  scheduledTime: Date;
+  score: number;
+  nearestPostMinutes: number | null; // To the closest post on the platform, including earlier picks
+  postsThatDay: number; // Posts on the platform already on that local day
+}
+
+// Index of the first value in a sorted array that is not below `target`
+function lowerBound(sorted: number[], target: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < target) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function nearestDistance(sorted: number[], time: number): number | null {
+  const index = lowerBound(sorted, time);
+  const neighbours = [sorted[index - 1], sorted[index]].filter((value): value is number => value !== undefined);
+  return neighbours.length > 0 ? Math.min(...neighbours.map(value => Math.abs(value - time))) : null;
+}
+
+/**
+ * Best times for new posts between `from` and `to`, best first
+ * Candidates every `stepMinutes` inside the preferred windows must fit the cadence rules and keep `minSpacingMinutes`
+ * from other posts on the platform. They rank by the distance to the nearest such post (counting up to a day)
+ * minus a penalty per post already on their day, so picks spread out; each pick counts as taken for the next.
+ */
+export function findOpenSlots(
+  candidate: Omit<CadenceCandidate, 'scheduledTime'>,
+  rules: CadenceRuleConfig[],
+  peers: CadencePeer[],
+  options: OpenSlotOptions
+): OpenSlot[] {
+  const { from, to, count, windows, minSpacingMinutes, stepMinutes = 15 } = options;
+  const stepMs = stepMinutes * MINUTE_MS;
+  const spacingMs = minSpacingMinutes * MINUTE_MS;
+  const slots: OpenSlot[] = [];
+  
+  // Only posts this close can break a rule for a time: spacing rules reach their gap, daily limits a local day (at most 25 hours)
+  const reachMs = Math.max(25 * 60 * MINUTE_MS, ...rules.map(rule => (rule.minSpacingMinutes ?? 0) * MINUTE_MS));
+  
+  // Posts sorted by time, and the platform's post times and posts per local day, updated as slots are picked
+  const taken = [...peers].sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  const takenTimes = taken.map(peer => peer.scheduledTime.getTime());
+  const platformTimes = taken.filter(peer => peer.platform === candidate.platform).map(peer => peer.scheduledTime.getTime());
+  const postsPerDay = new Map<string, number>();
+  for (const time of platformTimes) {
+    const day = localDate(new Date(time), candidate.timeZone);
+    postsPerDay.set(day, (postsPerDay.get(day) ?? 0) + 1);
+  }
+  
+  let open: { scheduledTime: Date; day: string }[] = [];
+  for (let time = Math.ceil(from.getTime() / stepMs) * stepMs; time < to.getTime(); time += stepMs) {
+    const scheduledTime = new Date(time);
+    if (windows.length === 0 || windows.some(window => inTimeWindow(scheduledTime, window, candidate.timeZone))) {
+      open.push({ scheduledTime, day: localDate(scheduledTime, candidate.timeZone) });
+    }
+  }
+  
+  let lastPick: number | null = null;
+  while (slots.length < count) {
+    let best: OpenSlot | null = null;
+    
+    // Picks only add posts, so a time ruled out once stays out for the later picks,
+    // and only times within reach of the latest pick need their rules checked again
+    const stillOpen: typeof open = [];
+    
+    for (const { scheduledTime, day } of open) {
+      const time = scheduledTime.getTime();
+      const nearest = nearestDistance(platformTimes, time);
+      if (nearest !== null && nearest < spacingMs) continue;
+      
+      if (lastPick === null || Math.abs(time - lastPick) <= reachMs) {
+        const nearby = taken.slice(lowerBound(takenTimes, time - reachMs), lowerBound(takenTimes, time + reachMs + 1));
+        if (findCadenceConflicts({ ...candidate, scheduledTime }, rules, nearby).length > 0) continue;
+      }
+      
+      stillOpen.push({ scheduledTime, day });
+      
+      const postsThatDay = postsPerDay.get(day) ?? 0;
+      const score = Math.min(nearest ?? Infinity, 24 * 60 * MINUTE_MS) / (60 * MINUTE_MS) - 4 * postsThatDay;
+      
+      if (!best || score > best.score) {
+        best = {
+          scheduledTime,
+          score,
+          nearestPostMinutes: nearest === null ? null : Math.round(nearest / MINUTE_MS),
+          postsThatDay
+        };
+      }
+    }
+    
+    open = stillOpen;
+    if (!best) break;
+    slots.push({ ...best, score: Math.round(best.score * 100) / 100 });
+    
+    const time = best.scheduledTime.getTime();
+    const index = lowerBound(takenTimes, time);
+    taken.splice(index, 0, { id: 'slot', name: 'open slot', trackId: candidate.trackId, platform: candidate.platform, scheduledTime: best.scheduledTime });
+    takenTimes.splice(index, 0, time);
+    platformTimes.splice(lowerBound(platformTimes, time), 0, time);
+    const day = localDate(best.scheduledTime, candidate.timeZone);
+    postsPerDay.set(day, (postsPerDay.get(day) ?? 0) + 1);
+    lastPick = time;
+  }
+  
+  return slots;
+}
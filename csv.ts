@@ -0,0 +1,94 @@
+/**
+ * RFC 4180 CSV reading and writing for bulk event import/export
+ */
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells with embedded commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  
+  // Strip a UTF-8 byte order mark left by spreadsheet apps
+  const input = text.replace(/^\uFEFF/, '');
+  
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+    
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  
+  if (inQuotes) {
+    throw new Error('Unterminated quoted cell in CSV');
+  }
+  
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV text with a header row into one record per data row, keyed by header
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  
+  const columns = header.map(name => name.trim());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = cells[index] ?? '';
+    });
+    return record;
+  });
+}
+
+function formatCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize records as CSV with a header row, quoting cells where needed
+ */
+export function formatCsv(columns: string[], records: Record<string, string | null | undefined>[]): string {
+  const lines = [columns.map(formatCell).join(',')];
+  for (const record of records) {
+    lines.push(columns.map(column => formatCell(record[column] ?? '')).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
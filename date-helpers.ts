@@ -48,6 +48,7 @@ export function prepareEventForDb(event: any): any {
   if (prepared.postTime) prepared.postTime = toSQLiteDate(prepared.postTime);
   if (prepared.generationStartedAt) prepared.generationStartedAt = toSQLiteDate(prepared.generationStartedAt);
   if (prepared.approvalRequestedAt) prepared.approvalRequestedAt = toSQLiteDate(prepared.approvalRequestedAt);
+  if (prepared.leaseExpiresAt) prepared.leaseExpiresAt = toSQLiteDate(prepared.leaseExpiresAt);
   if (prepared.createdAt) prepared.createdAt = toSQLiteDate(prepared.createdAt);
   if (prepared.updatedAt) prepared.updatedAt = toSQLiteDate(prepared.updatedAt);
   
@@ -83,6 +84,7 @@ export function parseEventFromDb(event: any): any {
   parsed.postTime = fromSQLiteDate(event.postTime);
   parsed.generationStartedAt = fromSQLiteDate(event.generationStartedAt);
   parsed.approvalRequestedAt = fromSQLiteDate(event.approvalRequestedAt);
+  parsed.leaseExpiresAt = fromSQLiteDate(event.leaseExpiresAt);
   parsed.createdAt = fromSQLiteDate(event.createdAt);
   parsed.updatedAt = fromSQLiteDate(event.updatedAt);
   
@@ -93,4 +95,66 @@ export function parseEventFromDb(event: any): any {
   parsed.generationStarted = event.generationStarted === 1;
   
   return parsed;
-}
\ No newline at end of file
+}
+
+/**
+ * Prepare automation data for SQLite storage
+ * Converts Date fields to ISO strings, JSON fields to strings and booleans to 0/1
+ */
+export function prepareAutomationForDb(automation: any): any {
+  const prepared = { ...automation };
+  
+  if (prepared.lastRun) prepared.lastRun = toSQLiteDate(prepared.lastRun);
+  if (prepared.nextRun) prepared.nextRun = toSQLiteDate(prepared.nextRun);
+  if (prepared.createdAt) prepared.createdAt = toSQLiteDate(prepared.createdAt);
+  if (prepared.updatedAt) prepared.updatedAt = toSQLiteDate(prepared.updatedAt);
+  
+  if (prepared.trigger && typeof prepared.trigger !== 'string') {
+    prepared.trigger = JSON.stringify(prepared.trigger);
+  }
+  if (prepared.actions && typeof prepared.actions !== 'string') {
+    prepared.actions = JSON.stringify(prepared.actions);
+  }
+  if (prepared.state && typeof prepared.state !== 'string') {
+    prepared.state = JSON.stringify(prepared.state);
+  }
+  if (prepared.stats && typeof prepared.stats !== 'string') {
+    prepared.stats = JSON.stringify(prepared.stats);
+  }
+  if (prepared.endCondition && typeof prepared.endCondition !== 'string') {
+    prepared.endCondition = JSON.stringify(prepared.endCondition);
+  }
+  
+  if (typeof prepared.enabled === 'boolean') {
+    prepared.enabled = prepared.enabled ? 1 : 0;
+  }
+  
+  return prepared;
+}
+
+/**
+ * Parse automation data from SQLite
+ * Converts date strings to Date objects, JSON strings to objects and integers to booleans
+ */
+export function parseAutomationFromDb(automation: any): any {
+  if (!automation) return null;
+  
+  const parsed = { ...automation };
+  
+  parsed.lastRun = fromSQLiteDate(automation.lastRun);
+  parsed.nextRun = fromSQLiteDate(automation.nextRun);
+  parsed.createdAt = fromSQLiteDate(automation.createdAt);
+  parsed.updatedAt = fromSQLiteDate(automation.updatedAt);
+  
+  parsed.trigger = automation.trigger ? JSON.parse(automation.trigger) : {};
+  parsed.actions = automation.actions ? JSON.parse(automation.actions) : [];
+  parsed.state = automation.state ? JSON.parse(automation.state) : {};
+  parsed.stats = automation.stats
+    ? JSON.parse(automation.stats)
+    : { totalExecutions: 0, successCount: 0, failureCount: 0 };
+  parsed.endCondition = automation.endCondition ? JSON.parse(automation.endCondition) : null;
+  
+  parsed.enabled = automation.enabled === 1;
+  
+  return parsed;
+}
@@ -0,0 +1,87 @@
+/**
+ * Event lifecycle state machine
+ * scheduled → generating → generated → awaiting_approval → approved → posting → posted,
+ * with rejected sending content back for rework, failed reachable from any active state
+ * and cancelled from any but posting, which is already under way
+ */
+
+import type { EventStatus } from './schemas/validation.js';
+
+export const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  scheduled: ['generating', 'failed', 'cancelled'],
+  generating: ['generated', 'failed', 'cancelled'],
+  generated: ['awaiting_approval', 'approved', 'generating', 'failed', 'cancelled'],
+  awaiting_approval: ['approved', 'rejected', 'generated', 'generating', 'failed', 'cancelled'],
+  rejected: ['generating', 'awaiting_approval', 'approved', 'failed', 'cancelled'],
+  approved: ['posting', 'generated', 'generating', 'failed', 'cancelled'],
+  posting: ['posted', 'failed'],
+  posted: [],
+  failed: ['scheduled', 'generating', 'generated', 'approved', 'posting', 'cancelled'],
+  cancelled: ['scheduled', 'generated', 'approved']
+};
+
+export function canTransition(from: EventStatus, to: EventStatus): boolean {
+  return EVENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Boolean columns implied by a status
+ * failed and cancelled keep whatever progress the event had made, so they return null
+ */
+export function getStatusFlags(status: EventStatus): {
+  contentGenerated: boolean;
+  approved: boolean;
+  posted: boolean;
+  generationStarted: boolean;
+} | null {
+  switch (status) {
+    case 'scheduled':
+      return { contentGenerated: false, approved: false, posted: false, generationStarted: false };
+    case 'generating':
+      return { contentGenerated: false, approved: false, posted: false, generationStarted: true };
+    case 'generated':
+    case 'awaiting_approval':
+    case 'rejected':
+      return { contentGenerated: true, approved: false, posted: false, generationStarted: true };
+    case 'approved':
+    case 'posting':
+      return { contentGenerated: true, approved: true, posted: false, generationStarted: true };
+    case 'posted':
+      return { contentGenerated: true, approved: true, posted: true, generationStarted: true };
+    case 'failed':
+    case 'cancelled':
+      return null;
+  }
+}
+
+const KNOWN_STATUSES = Object.keys(EVENT_TRANSITIONS);
+
+/**
+ * Current lifecycle status of a raw event row
+ * Rows written before the state machine existed only have the booleans, so derive from those
+ */
+export function getEventStatus(event: {
+  status: string | null;
+  contentGenerated: number;
+  approved: number;
+  posted: number;
+  generationStarted?: number | null;
+}): EventStatus {
+  if (event.status && event.status !== 'scheduled' && KNOWN_STATUSES.includes(event.status)) {
+    return event.status as EventStatus;
+  }
+  if (event.posted === 1) return 'posted';
+  if (event.approved === 1) return 'approved';
+  if (event.contentGenerated === 1) return 'generated';
+  if (event.generationStarted === 1) return 'generating';
+  return 'scheduled';
+}
+
+/**
+ * Status to resume from when retrying a failed or cancelled event, based on its progress
+ */
+export function getRetryStatus(event: { contentGenerated: number; approved: number }): EventStatus {
+  if (event.approved === 1) return 'approved';
+  if (event.contentGenerated === 1) return 'generated';
+  return 'scheduled';
+}
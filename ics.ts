@@ -0,0 +1,232 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer and reader for timeline events
+ * Only VEVENT components are read, and recurrence rules in imported files are not expanded
+ */
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  start: Date;
+  dtstamp: Date;
+  lastModified?: Date;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  categories?: string[];
+  url?: string | null;
+  extra?: Record<string, string>; // X- properties
+}
+
+export interface IcsDateValue {
+  value: string;
+  tzid?: string;
+  dateOnly: boolean;
+}
+
+export interface ParsedIcsEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  start?: IcsDateValue;
+  status?: string;
+  rrule?: string;
+  extra: Record<string, string>;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+  
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  
+  return parts.join('\r\n ');
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Serialize events as a VCALENDAR document with CRLF line endings
+ */
+export function formatIcs(calendarName: string, icsEvents: IcsEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Timeline MCP//Timeline//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+  
+  for (const event of icsEvents) {
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${formatIcsDate(event.dtstamp)}`);
+    lines.push(`DTSTART:${formatIcsDate(event.start)}`);
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+    for (const [name, value] of Object.entries(event.extra || {})) {
+      lines.push(`${name}:${escapeText(value)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+  
+  lines.push('END:VCALENDAR');
+  
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Split "NAME;PARAM=VALUE:value" into its parts, ignoring colons inside quoted parameter values
+ */
+function parseContentLine(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+  
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+  
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Read the VEVENT components of an iCalendar document
+ */
+export function parseIcs(text: string): ParsedIcsEvent[] {
+  // Unfold continuation lines
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file (missing BEGIN:VCALENDAR)');
+  }
+  
+  const parsed: ParsedIcsEvent[] = [];
+  let current: ParsedIcsEvent | null = null;
+  let nested = 0; // Depth of components inside the VEVENT (e.g. VALARM)
+  
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    
+    if (property.name === 'BEGIN') {
+      if (current) {
+        nested++;
+      } else if (property.value.toUpperCase() === 'VEVENT') {
+        current = { extra: {} };
+      }
+      continue;
+    }
+    
+    if (property.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && property.value.toUpperCase() === 'VEVENT') {
+        parsed.push(current);
+        current = null;
+      }
+      continue;
+    }
+    
+    if (!current || nested > 0) continue;
+    
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(property.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(property.value);
+        break;
+      case 'DTSTART':
+        current.start = {
+          value: property.value.trim(),
+          tzid: property.params.TZID,
+          dateOnly: property.params.VALUE === 'DATE' || /^\d{8}$/.test(property.value.trim())
+        };
+        break;
+      case 'STATUS':
+        current.status = property.value.trim().toUpperCase();
+        break;
+      case 'RRULE':
+        current.rrule = property.value.trim();
+        break;
+      default:
+        if (property.name.startsWith('X-')) {
+          current.extra[property.name] = unescapeText(property.value);
+        }
+    }
+  }
+  
+  return parsed;
+}
+
+/**
+ * Convert an iCalendar DATE or DATE-TIME into ISO 8601
+ * UTC values keep their "Z"; floating, TZID and all-day values come back without an offset,
+ * to be read as wall-clock time in the appropriate timezone
+ */
+export function icsDateToIso(date: IcsDateValue): string {
+  const match = date.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) {
+    throw new Error(`Invalid iCalendar date: ${date.value}`);
+  }
+  
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utc] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${utc ? 'Z' : ''}`;
+}
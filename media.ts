@@ -0,0 +1,180 @@
+/**
+ * Media file inspection for event media folders
+ * Type, size and SHA-256 for every file; image dimensions and video duration where the header makes them cheap to read
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'document' | 'other';
+
+export interface MediaFileInfo {
+  file: string; // Name within the event media folder
+  kind: MediaKind;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  modifiedAt: string;
+  addedAt: string;
+}
+
+const MIME_TYPES: Record<string, [MediaKind, string]> = {
+  '.png': ['image', 'image/png'],
+  '.jpg': ['image', 'image/jpeg'],
+  '.jpeg': ['image', 'image/jpeg'],
+  '.gif': ['image', 'image/gif'],
+  '.webp': ['image', 'image/webp'],
+  '.svg': ['image', 'image/svg+xml'],
+  '.mp4': ['video', 'video/mp4'],
+  '.m4v': ['video', 'video/mp4'],
+  '.mov': ['video', 'video/quicktime'],
+  '.webm': ['video', 'video/webm'],
+  '.mp3': ['audio', 'audio/mpeg'],
+  '.m4a': ['audio', 'audio/mp4'],
+  '.wav': ['audio', 'audio/wav'],
+  '.txt': ['document', 'text/plain'],
+  '.md': ['document', 'text/markdown'],
+  '.json': ['document', 'application/json'],
+  '.pdf': ['document', 'application/pdf']
+};
+
+// Read when sniffing headers; enough for PNG, GIF, WebP and most JPEG SOF markers
+const HEADER_BYTES = 64 * 1024;
+
+function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Width and height from an image header, if the format is recognised
+ */
+function readImageDimensions(header: Buffer): { width: number; height: number } | undefined {
+  // PNG: IHDR is always the first chunk
+  if (header.length >= 24 && header.readUInt32BE(0) === 0x89504e47) {
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  }
+  
+  // GIF
+  if (header.length >= 10 && header.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: header.readUInt16LE(6), height: header.readUInt16LE(8) };
+  }
+  
+  // WebP: lossy (VP8), lossless (VP8L) and extended (VP8X)
+  if (header.length >= 30 && header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = header.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: header.readUInt16LE(26) & 0x3fff, height: header.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = header.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: header.readUIntLE(24, 3) + 1, height: header.readUIntLE(27, 3) + 1 };
+    }
+  }
+  
+  // JPEG: walk segments to the first start-of-frame marker
+  if (header.length >= 4 && header[0] === 0xff && header[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < header.length) {
+      if (header[offset] !== 0xff) return undefined;
+      const marker = header[offset + 1];
+      const length = header.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { width: header.readUInt16BE(offset + 7), height: header.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Duration of an MP4/QuickTime file from the movie header (moov → mvhd), reading only box headers
+ */
+async function readMp4Duration(handle: fs.FileHandle, size: number): Promise<number | undefined> {
+  const boxHeader = Buffer.alloc(16);
+  
+  // Find the moov box among the top-level boxes, then mvhd inside it
+  const findBox = async (type: string, start: number, end: number): Promise<{ start: number; end: number } | undefined> => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      await handle.read(boxHeader, 0, 16, offset);
+      let boxSize = boxHeader.readUInt32BE(0);
+      let headerSize = 8;
+      if (boxSize === 1) {
+        boxSize = Number(boxHeader.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (boxSize === 0) {
+        boxSize = end - offset;
+      }
+      if (boxSize < headerSize) return undefined;
+      if (boxHeader.toString('ascii', 4, 8) === type) {
+        return { start: offset + headerSize, end: offset + boxSize };
+      }
+      offset += boxSize;
+    }
+    return undefined;
+  };
+  
+  const moov = await findBox('moov', 0, size);
+  if (!moov) return undefined;
+  const mvhd = await findBox('mvhd', moov.start, moov.end);
+  if (!mvhd) return undefined;
+  
+  const body = Buffer.alloc(32);
+  await handle.read(body, 0, 32, mvhd.start);
+  const version = body[0];
+  const timescale = version === 1 ? body.readUInt32BE(20) : body.readUInt32BE(12);
+  const duration = version === 1 ? Number(body.readBigUInt64BE(24)) : body.readUInt32BE(16);
+  
+  return timescale > 0 ? Math.round((duration / timescale) * 100) / 100 : undefined;
+}
+
+/**
+ * Inspect a media file
+ */
+export async function inspectMediaFile(filePath: string): Promise<Omit<MediaFileInfo, 'addedAt'>> {
+  const stat = await fs.stat(filePath);
+  const [kind, mimeType] = MIME_TYPES[path.extname(filePath).toLowerCase()] ?? ['other', 'application/octet-stream'];
+  
+  const info: Omit<MediaFileInfo, 'addedAt'> = {
+    file: path.basename(filePath),
+    kind,
+    mimeType,
+    size: stat.size,
+    sha256: await sha256File(filePath),
+    modifiedAt: stat.mtime.toISOString()
+  };
+  
+  const handle = await fs.open(filePath, 'r');
+  try {
+    if (kind === 'image') {
+      const header = Buffer.alloc(Math.min(HEADER_BYTES, stat.size));
+      await handle.read(header, 0, header.length, 0);
+      Object.assign(info, readImageDimensions(header));
+    } else if (mimeType === 'video/mp4' || mimeType === 'video/quicktime') {
+      info.durationSeconds = await readMp4Duration(handle, stat.size);
+    }
+  } catch {
+    // Unreadable headers just leave dimensions/duration out
+  } finally {
+    await handle.close();
+  }
+  
+  return info;
+}
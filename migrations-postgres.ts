@@ -0,0 +1,337 @@
+/**
+ * PostgreSQL schema: bootstrap and versioned migrations for the `timeline` schema
+ * Mirrors migrations.ts; applied migrations are recorded in timeline.schema_migrations
+ */
+
+import type pg from 'pg';
+import { DEFAULT_POSTY_ACCOUNT_ID, type SchemaStatus } from './migrations.js';
+
+const MIGRATIONS_TABLE = 'timeline.schema_migrations';
+
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  up: (client: pg.PoolClient) => Promise<void>;
+}
+
+// Column definitions per table, shared by CREATE TABLE and by the upgrade of tables
+// the posty app created from its earlier timeline schema
+const TABLE_COLUMNS: Record<string, string[]> = {
+  tracks: [
+    'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
+    'posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE',
+    'name TEXT NOT NULL',
+    'type TEXT NOT NULL',
+    '"order" INTEGER NOT NULL DEFAULT 0',
+    'timezone TEXT',
+    'created_at TIMESTAMPTZ NOT NULL DEFAULT now()',
+    'updated_at TIMESTAMPTZ NOT NULL DEFAULT now()'
+  ],
+  event_series: [
+    'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
+    'posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE',
+    'track_id UUID REFERENCES timeline.tracks(id) ON DELETE CASCADE',
+    'name TEXT NOT NULL',
+    'platform TEXT',
+    'prompt TEXT',
+    'agent TEXT',
+    'approval_via TEXT',
+    `mcp_tools JSONB DEFAULT '[]'`,
+    `metadata JSONB DEFAULT '{}'`,
+    'rrule TEXT NOT NULL',
+    'dtstart TIMESTAMPTZ NOT NULL',
+    'timezone TEXT',
+    `exdates JSONB DEFAULT '[]'`,
+    'materialized_until TIMESTAMPTZ',
+    'created_at TIMESTAMPTZ NOT NULL DEFAULT now()',
+    'updated_at TIMESTAMPTZ NOT NULL DEFAULT now()'
+  ],
+  events: [
+    'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
+    'posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE',
+    'track_id UUID REFERENCES timeline.tracks(id) ON DELETE CASCADE',
+    'name TEXT NOT NULL',
+    'platform TEXT',
+    'scheduled_time TIMESTAMPTZ NOT NULL',
+    'generation_time TIMESTAMPTZ',
+    'post_time TIMESTAMPTZ',
+    'prompt TEXT',
+    'agent TEXT',
+    'content_generated BOOLEAN NOT NULL DEFAULT false',
+    'approved BOOLEAN NOT NULL DEFAULT false',
+    'posted BOOLEAN NOT NULL DEFAULT false',
+    `status TEXT DEFAULT 'scheduled'`,
+    'generation_started BOOLEAN DEFAULT false',
+    'posted_url TEXT',
+    'generation_started_at TIMESTAMPTZ',
+    'approval_requested_at TIMESTAMPTZ',
+    'error TEXT',
+    'generation_session_id TEXT',
+    'posting_session_id TEXT',
+    'lease_expires_at TIMESTAMPTZ',
+    'approval_via TEXT',
+    `approval_reviewers JSONB DEFAULT '[]'`,
+    `mcp_tools JSONB DEFAULT '[]'`,
+    `event_type TEXT DEFAULT 'scheduled'`,
+    `metadata JSONB DEFAULT '{}'`,
+    'series_id UUID REFERENCES timeline.event_series(id) ON DELETE CASCADE',
+    'recurrence_id TIMESTAMPTZ',
+    'media_path TEXT',
+    'created_at TIMESTAMPTZ NOT NULL DEFAULT now()',
+    'updated_at TIMESTAMPTZ NOT NULL DEFAULT now()'
+  ],
+  event_approvals: [
+    'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
+    'posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE',
+    'event_id UUID NOT NULL REFERENCES timeline.events(id) ON DELETE CASCADE',
+    'action TEXT NOT NULL',
+    'actor TEXT',
+    'via TEXT',
+    'comment TEXT',
+    'created_at TIMESTAMPTZ NOT NULL DEFAULT now()'
+  ],
+  cadence_rules: [
+    'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
+    'posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE',
+    'scope TEXT NOT NULL',
+    'platform TEXT',
+    'track_id UUID REFERENCES timeline.tracks(id) ON DELETE CASCADE',
+    'min_spacing_minutes INTEGER',
+    'max_per_day INTEGER',
+    'quiet_hours JSONB',
+    `blackout_dates JSONB DEFAULT '[]'`,
+    'timezone TEXT',
+    'created_at TIMESTAMPTZ NOT NULL DEFAULT now()',
+    'updated_at TIMESTAMPTZ NOT NULL DEFAULT now()'
+  ],
+  automations: [
+    'id UUID PRIMARY KEY DEFAULT gen_random_uuid()',
+    'posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE',
+    'track_id UUID REFERENCES timeline.tracks(id) ON DELETE CASCADE',
+    'name TEXT NOT NULL',
+    'description TEXT',
+    `trigger JSONB NOT NULL DEFAULT '{}'`,
+    `actions JSONB NOT NULL DEFAULT '{}'`,
+    'enabled BOOLEAN NOT NULL DEFAULT true',
+    'end_condition JSONB',
+    'last_run TIMESTAMPTZ',
+    'next_run TIMESTAMPTZ',
+    `state JSONB DEFAULT '{}'`,
+    'stats JSONB',
+    'created_at TIMESTAMPTZ NOT NULL DEFAULT now()',
+    'updated_at TIMESTAMPTZ NOT NULL DEFAULT now()'
+  ]
+};
+
+const INDEXES = [
+  'tracks_account_idx ON timeline.tracks (posty_account_id)',
+  'tracks_account_name_idx ON timeline.tracks (posty_account_id, name, type)',
+  'tracks_order_idx ON timeline.tracks ("order")',
+  'event_series_account_idx ON timeline.event_series (posty_account_id)',
+  'event_series_track_id_idx ON timeline.event_series (track_id)',
+  'events_account_idx ON timeline.events (posty_account_id)',
+  'events_track_id_idx ON timeline.events (track_id)',
+  'events_scheduled_time_idx ON timeline.events (scheduled_time)',
+  'events_status_idx ON timeline.events (status)',
+  'events_generation_time_idx ON timeline.events (generation_time)',
+  'events_series_id_idx ON timeline.events (series_id)',
+  'events_lease_expires_at_idx ON timeline.events (lease_expires_at)',
+  'event_approvals_event_id_idx ON timeline.event_approvals (event_id)',
+  'cadence_rules_account_idx ON timeline.cadence_rules (posty_account_id)',
+  'cadence_rules_track_id_idx ON timeline.cadence_rules (track_id)',
+  'automations_account_idx ON timeline.automations (posty_account_id)',
+  'automations_track_id_idx ON timeline.automations (track_id)',
+  'automations_enabled_idx ON timeline.automations (enabled)',
+  'automations_next_run_idx ON timeline.automations (next_run)'
+];
+
+function columnName(definition: string): string {
+  return definition.split(' ')[0].replace(/"/g, '');
+}
+
+/**
+ * Bring a table created from the posty app's earlier timeline schema in line:
+ * add missing columns, store times with their zone and let retired columns stay empty
+ */
+async function upgradeTable(client: pg.PoolClient, table: string, columns: string[]) {
+  const { rows } = await client.query(
+    `SELECT column_name, data_type, is_nullable FROM information_schema.columns WHERE table_schema = 'timeline' AND table_name = $1`,
+    [table]
+  );
+  const known = new Set(columns.map(columnName));
+  
+  for (const definition of columns.slice(1)) {
+    await client.query(`ALTER TABLE timeline.${table} ADD COLUMN IF NOT EXISTS ${definition}`);
+  }
+  
+  for (const column of rows) {
+    if (column.data_type === 'timestamp without time zone') {
+      await client.query(`ALTER TABLE timeline.${table} ALTER COLUMN "${column.column_name}" TYPE TIMESTAMPTZ USING "${column.column_name}" AT TIME ZONE 'UTC'`);
+    }
+    if (!known.has(column.column_name) && column.is_nullable === 'NO') {
+      await client.query(`ALTER TABLE timeline.${table} ALTER COLUMN "${column.column_name}" DROP NOT NULL`);
+    }
+  }
+}
+
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (client) => {
+      const { rows: [accountsTable] } = await client.query(`SELECT to_regclass('posty_accounts') AS name`);
+      if (!accountsTable.name) {
+        await client.query(`CREATE TABLE posty_accounts (id TEXT PRIMARY KEY)`);
+        await client.query(`INSERT INTO posty_accounts (id) VALUES ($1)`, [DEFAULT_POSTY_ACCOUNT_ID]);
+      }
+      
+      await client.query(`CREATE SCHEMA IF NOT EXISTS timeline`);
+      for (const [table, columns] of Object.entries(TABLE_COLUMNS)) {
+        await client.query(`CREATE TABLE IF NOT EXISTS timeline.${table} (${columns.join(', ')})`);
+        await upgradeTable(client, table, columns);
+      }
+      for (const index of INDEXES) {
+        await client.query(`CREATE INDEX IF NOT EXISTS ${index}`);
+      }
+      
+      // Every query is limited to one account, so rows written without one go to the first account
+      let { rows: [account] } = await client.query(`SELECT id FROM posty_accounts ORDER BY id LIMIT 1`);
+      if (!account) {
+        account = { id: DEFAULT_POSTY_ACCOUNT_ID };
+        await client.query(`INSERT INTO posty_accounts (id) VALUES ($1)`, [account.id]);
+      }
+      for (const table of Object.keys(TABLE_COLUMNS)) {
+        await client.query(`UPDATE timeline.${table} SET posty_account_id = $1 WHERE posty_account_id IS NULL`, [account.id]);
+      }
+    }
+  },
+  {
+    version: 2,
+    name: 'event_revisions',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS timeline.event_revisions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          event_id UUID NOT NULL,
+          track_id UUID,
+          action TEXT NOT NULL,
+          tool TEXT,
+          actor TEXT,
+          before_state JSONB,
+          after_state JSONB,
+          changes JSONB NOT NULL DEFAULT '{}',
+          undo_of UUID,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS event_revisions_account_idx ON timeline.event_revisions (posty_account_id)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS event_revisions_event_id_idx ON timeline.event_revisions (event_id)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS event_revisions_created_at_idx ON timeline.event_revisions (created_at)`);
+    }
+  },
+  {
+    version: 3,
+    name: 'trash',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS timeline.trash (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          name TEXT NOT NULL,
+          track_id UUID,
+          contents JSONB NOT NULL,
+          media_paths JSONB DEFAULT '[]',
+          event_count INTEGER NOT NULL DEFAULT 0,
+          deleted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS trash_account_idx ON timeline.trash (posty_account_id)`);
+      await client.query(`CREATE INDEX IF NOT EXISTS trash_deleted_at_idx ON timeline.trash (deleted_at)`);
+    }
+  },
+  {
+    version: 4,
+    name: 'event_search',
+    up: async (client) => {
+      // Weighted like the SQLite FTS5 ranking: name over prompt over metadata
+      await client.query(`
+        ALTER TABLE timeline.events ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+          setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+          setweight(to_tsvector('simple', coalesce(prompt, '')), 'B') ||
+          setweight(to_tsvector('simple', coalesce(metadata::text, '')), 'C')
+        ) STORED
+      `);
+      await client.query(`CREATE INDEX IF NOT EXISTS events_search_idx ON timeline.events USING GIN (search_vector)`);
+    }
+  }
+];
+
+export const LATEST_POSTGRES_SCHEMA_VERSION = POSTGRES_MIGRATIONS[POSTGRES_MIGRATIONS.length - 1].version;
+
+/**
+ * Current schema version and the migrations still to apply, without changing anything
+ */
+export async function getPostgresSchemaStatus(pool: pg.Pool): Promise<SchemaStatus> {
+  const { rows: [migrationsTable] } = await pool.query(`SELECT to_regclass('${MIGRATIONS_TABLE}') AS name`);
+  const applied: SchemaStatus['applied'] = migrationsTable.name
+    ? (await pool.query(`SELECT version, name, applied_at AS "appliedAt" FROM ${MIGRATIONS_TABLE} ORDER BY version`)).rows
+    : [];
+  const currentVersion = applied.reduce((max, migration) => Math.max(max, migration.version), 0);
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+  
+  return {
+    currentVersion,
+    latestVersion: LATEST_POSTGRES_SCHEMA_VERSION,
+    applied,
+    pending: POSTGRES_MIGRATIONS
+      .filter(migration => !appliedVersions.has(migration.version))
+      .map(({ version, name }) => ({ version, name })),
+    newerThanServer: currentVersion > LATEST_POSTGRES_SCHEMA_VERSION
+  };
+}
+
+/**
+ * Create the schema if missing and apply pending migrations in order
+ * Refuses to touch a database migrated by a newer server, since this one would not know its columns
+ */
+export async function migratePostgres(pool: pg.Pool): Promise<PostgresMigration[]> {
+  await pool.query(`CREATE SCHEMA IF NOT EXISTS timeline`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  
+  const status = await getPostgresSchemaStatus(pool);
+  if (status.newerThanServer) {
+    throw new Error(
+      `Database schema version ${status.currentVersion} is newer than this server supports (${LATEST_POSTGRES_SCHEMA_VERSION}). Update timeline-mcp to use this database.`
+    );
+  }
+  
+  const pending = POSTGRES_MIGRATIONS.filter(migration => status.pending.some(entry => entry.version === migration.version));
+  
+  for (const migration of pending) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await migration.up(client);
+      await client.query(
+        `INSERT INTO ${MIGRATIONS_TABLE} (version, name, applied_at) VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  return pending;
+}
@@ -0,0 +1,385 @@
+/**
+ * Workspace database schema: bootstrap and versioned migrations
+ * Applied migrations are recorded in timeline_schema_migrations; each runs once, in order, in its own transaction
+ */
+
+import type Database from 'better-sqlite3';
+
+// Account used when the workspace has none; the main posty application normally creates accounts
+export const DEFAULT_POSTY_ACCOUNT_ID = 'default-workspace-account';
+
+const MIGRATIONS_TABLE = 'timeline_schema_migrations';
+
+// Tables whose rows belong to a posty account
+const ACCOUNT_TABLES = [
+  'timeline_tracks',
+  'timeline_events',
+  'timeline_event_series',
+  'timeline_event_approvals',
+  'timeline_cadence_rules',
+  'timeline_automations'
+];
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: { version: number; name: string; appliedAt: string }[];
+  pending: { version: number; name: string }[];
+  newerThanServer: boolean; // The database was migrated by a newer server
+}
+
+function tableExists(db: Database.Database, table: string): boolean {
+  return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) !== undefined;
+}
+
+/**
+ * Add a column unless it is already there
+ * Workspaces shared with the posty app may already have columns it created
+ */
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[];
+  if (!columns.some(existing => existing.name === column)) {
+    db.exec(`ALTER TABLE "${table}" ADD COLUMN "${column}" ${definition}`);
+  }
+}
+
+// Tables and indexes are created with IF NOT EXISTS, so migrations also apply cleanly to
+// workspaces whose schema was created by the posty app before migrations were tracked
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      if (!tableExists(db, 'posty_accounts')) {
+        db.exec(`CREATE TABLE posty_accounts (id TEXT PRIMARY KEY)`);
+        db.prepare(`INSERT INTO posty_accounts (id) VALUES (?)`).run(DEFAULT_POSTY_ACCOUNT_ID);
+      }
+      
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline_tracks (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          "order" INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_tracks_account_idx ON timeline_tracks (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_tracks_order_idx ON timeline_tracks ("order");
+        
+        CREATE TABLE IF NOT EXISTS timeline_events (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          track_id TEXT REFERENCES timeline_tracks(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          platform TEXT,
+          scheduled_time TEXT NOT NULL,
+          generation_time TEXT,
+          post_time TEXT,
+          prompt TEXT,
+          agent TEXT,
+          content_generated INTEGER NOT NULL DEFAULT 0,
+          approved INTEGER NOT NULL DEFAULT 0,
+          posted INTEGER NOT NULL DEFAULT 0,
+          status TEXT DEFAULT 'scheduled',
+          generation_started INTEGER DEFAULT 0,
+          posted_url TEXT,
+          generation_started_at TEXT,
+          approval_requested_at TEXT,
+          error TEXT,
+          generation_session_id TEXT,
+          posting_session_id TEXT,
+          approval_via TEXT,
+          mcp_tools TEXT,
+          event_type TEXT DEFAULT 'scheduled',
+          metadata TEXT,
+          media_path TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_events_account_idx ON timeline_events (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_events_track_id_idx ON timeline_events (track_id);
+        CREATE INDEX IF NOT EXISTS timeline_events_scheduled_time_idx ON timeline_events (scheduled_time);
+        CREATE INDEX IF NOT EXISTS timeline_events_platform_idx ON timeline_events (platform);
+        CREATE INDEX IF NOT EXISTS timeline_events_posted_idx ON timeline_events (posted);
+        CREATE INDEX IF NOT EXISTS timeline_events_status_idx ON timeline_events (status);
+        CREATE INDEX IF NOT EXISTS timeline_events_generation_time_idx ON timeline_events (generation_time);
+        CREATE INDEX IF NOT EXISTS timeline_events_media_path_idx ON timeline_events (media_path);
+        
+        CREATE TABLE IF NOT EXISTS timeline_automations (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          track_id TEXT REFERENCES timeline_tracks(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          description TEXT,
+          trigger TEXT NOT NULL,
+          actions TEXT NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          last_run TEXT,
+          next_run TEXT,
+          state TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_automations_account_idx ON timeline_automations (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_automations_track_id_idx ON timeline_automations (track_id);
+        CREATE INDEX IF NOT EXISTS timeline_automations_enabled_idx ON timeline_automations (enabled);
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'automation_runtime',
+    up: (db) => {
+      addColumn(db, 'timeline_automations', 'end_condition', 'TEXT');
+      addColumn(db, 'timeline_automations', 'stats', 'TEXT');
+      db.exec(`CREATE INDEX IF NOT EXISTS timeline_automations_next_run_idx ON timeline_automations (next_run)`);
+    }
+  },
+  {
+    version: 3,
+    name: 'event_series',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline_event_series (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          track_id TEXT REFERENCES timeline_tracks(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          platform TEXT,
+          prompt TEXT,
+          agent TEXT,
+          approval_via TEXT,
+          mcp_tools TEXT,
+          metadata TEXT,
+          rrule TEXT NOT NULL,
+          dtstart TEXT NOT NULL,
+          exdates TEXT,
+          materialized_until TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_event_series_account_idx ON timeline_event_series (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_event_series_track_id_idx ON timeline_event_series (track_id);
+      `);
+      addColumn(db, 'timeline_events', 'series_id', 'TEXT REFERENCES timeline_event_series(id) ON DELETE CASCADE');
+      addColumn(db, 'timeline_events', 'recurrence_id', 'TEXT');
+      db.exec(`CREATE INDEX IF NOT EXISTS timeline_events_series_id_idx ON timeline_events (series_id)`);
+    }
+  },
+  {
+    version: 4,
+    name: 'timezones',
+    up: (db) => {
+      addColumn(db, 'timeline_tracks', 'timezone', 'TEXT');
+      addColumn(db, 'timeline_event_series', 'timezone', 'TEXT');
+    }
+  },
+  {
+    version: 5,
+    name: 'event_approvals',
+    up: (db) => {
+      addColumn(db, 'timeline_events', 'approval_reviewers', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline_event_approvals (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          event_id TEXT NOT NULL REFERENCES timeline_events(id) ON DELETE CASCADE,
+          action TEXT NOT NULL,
+          actor TEXT,
+          via TEXT,
+          comment TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_event_approvals_event_id_idx ON timeline_event_approvals (event_id);
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'worker_leases',
+    up: (db) => {
+      addColumn(db, 'timeline_events', 'lease_expires_at', 'TEXT');
+      db.exec(`CREATE INDEX IF NOT EXISTS timeline_events_lease_expires_at_idx ON timeline_events (lease_expires_at)`);
+    }
+  },
+  {
+    version: 7,
+    name: 'cadence_rules',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline_cadence_rules (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          scope TEXT NOT NULL,
+          platform TEXT,
+          track_id TEXT REFERENCES timeline_tracks(id) ON DELETE CASCADE,
+          min_spacing_minutes INTEGER,
+          max_per_day INTEGER,
+          quiet_hours TEXT,
+          blackout_dates TEXT,
+          timezone TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_cadence_rules_account_idx ON timeline_cadence_rules (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_cadence_rules_track_id_idx ON timeline_cadence_rules (track_id);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'account_scoping',
+    up: (db) => {
+      // Queries are now limited to one account, so rows written without one go to the first account,
+      // seeding the default account in a workspace that has none
+      let account = db.prepare('SELECT id FROM posty_accounts ORDER BY rowid LIMIT 1').get() as { id: string } | undefined;
+      if (!account) {
+        account = { id: DEFAULT_POSTY_ACCOUNT_ID };
+        db.prepare('INSERT INTO posty_accounts (id) VALUES (?)').run(account.id);
+      }
+      for (const table of ACCOUNT_TABLES) {
+        db.prepare(`UPDATE ${table} SET posty_account_id = ? WHERE posty_account_id IS NULL`).run(account.id);
+      }
+      db.exec(`CREATE INDEX IF NOT EXISTS timeline_tracks_account_name_idx ON timeline_tracks (posty_account_id, name, type)`);
+    }
+  },
+  {
+    version: 9,
+    name: 'event_revisions',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline_event_revisions (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          event_id TEXT NOT NULL,
+          track_id TEXT,
+          action TEXT NOT NULL,
+          tool TEXT,
+          actor TEXT,
+          before_state TEXT,
+          after_state TEXT,
+          changes TEXT NOT NULL DEFAULT '{}',
+          undo_of TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_event_revisions_account_idx ON timeline_event_revisions (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_event_revisions_event_id_idx ON timeline_event_revisions (event_id);
+        CREATE INDEX IF NOT EXISTS timeline_event_revisions_created_at_idx ON timeline_event_revisions (created_at);
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'trash',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS timeline_trash (
+          id TEXT PRIMARY KEY,
+          posty_account_id TEXT REFERENCES posty_accounts(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          name TEXT NOT NULL,
+          track_id TEXT,
+          contents TEXT NOT NULL,
+          media_paths TEXT DEFAULT '[]',
+          event_count INTEGER NOT NULL DEFAULT 0,
+          deleted_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS timeline_trash_account_idx ON timeline_trash (posty_account_id);
+        CREATE INDEX IF NOT EXISTS timeline_trash_deleted_at_idx ON timeline_trash (deleted_at);
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'event_search',
+    up: (db) => {
+      // FTS5 index over timeline_events, kept in sync by triggers
+      // Keyed on event ids rather than the implicit rowid, which VACUUM may renumber
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS timeline_events_fts USING fts5(
+          event_id UNINDEXED,
+          name,
+          prompt,
+          metadata,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+        CREATE TRIGGER IF NOT EXISTS timeline_events_fts_insert AFTER INSERT ON timeline_events BEGIN
+          INSERT INTO timeline_events_fts (event_id, name, prompt, metadata) VALUES (new.id, new.name, new.prompt, new.metadata);
+        END;
+        CREATE TRIGGER IF NOT EXISTS timeline_events_fts_delete AFTER DELETE ON timeline_events BEGIN
+          DELETE FROM timeline_events_fts WHERE event_id = old.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS timeline_events_fts_update AFTER UPDATE OF id, name, prompt, metadata ON timeline_events BEGIN
+          DELETE FROM timeline_events_fts WHERE event_id = old.id;
+          INSERT INTO timeline_events_fts (event_id, name, prompt, metadata) VALUES (new.id, new.name, new.prompt, new.metadata);
+        END;
+        INSERT INTO timeline_events_fts (event_id, name, prompt, metadata)
+          SELECT id, name, prompt, metadata FROM timeline_events;
+      `);
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Current schema version and the migrations still to apply, without changing anything
+ */
+export function getSchemaStatus(db: Database.Database): SchemaStatus {
+  const applied = tableExists(db, MIGRATIONS_TABLE)
+    ? (db.prepare(`SELECT version, name, applied_at AS appliedAt FROM ${MIGRATIONS_TABLE} ORDER BY version`).all() as SchemaStatus['applied'])
+    : [];
+  const currentVersion = applied.reduce((max, migration) => Math.max(max, migration.version), 0);
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+  
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: MIGRATIONS
+      .filter(migration => !appliedVersions.has(migration.version))
+      .map(({ version, name }) => ({ version, name })),
+    newerThanServer: currentVersion > LATEST_SCHEMA_VERSION
+  };
+}
+
+/**
+ * Create the schema if missing and apply pending migrations in order
+ * Refuses to touch a database migrated by a newer server, since this one would not know its columns
+ */
+export function migrateDatabase(db: Database.Database): Migration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  
+  const status = getSchemaStatus(db);
+  if (status.newerThanServer) {
+    throw new Error(
+      `Workspace database schema version ${status.currentVersion} is newer than this server supports (${LATEST_SCHEMA_VERSION}). Update timeline-mcp to use this workspace.`
+    );
+  }
+  
+  const pending = MIGRATIONS.filter(migration => status.pending.some(entry => entry.version === migration.version));
+  const record = db.prepare(`INSERT INTO ${MIGRATIONS_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`);
+  
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+  
+  return pending;
+}
@@ -0,0 +1,181 @@
+/**
+ * Platform capability registry
+ * What each platform accepts: event metadata, content limits, media requirements and thread support
+ */
+
+import { z } from 'zod';
+import type { Platform } from './schemas/validation.js';
+
+export interface PlatformDefinition {
+  name: string;
+  // Known metadata keys; unknown keys are kept as-is
+  metadata: z.AnyZodObject;
+  limits: {
+    maxTextLength: number; // Characters in the post body / caption
+    maxTitleLength?: number;
+    maxHashtags?: number;
+  };
+  media: {
+    required: boolean;
+    types: ('image' | 'video')[];
+    maxImages?: number;
+    maxVideoSeconds?: number;
+  };
+  supportsThreads: boolean;
+  notes?: string;
+}
+
+const postUrlSchema = z.string().url();
+
+export const PLATFORMS: Record<Platform, PlatformDefinition> = {
+  x: {
+    name: 'X (Twitter)',
+    metadata: z.object({
+      quoteTweetUrl: postUrlSchema.optional().describe('Post to quote'),
+      replyToUrl: postUrlSchema.optional().describe('Post to reply to'),
+      thread: z.boolean().optional().describe('Publish the content as a thread')
+    }).passthrough(),
+    limits: { maxTextLength: 280 },
+    media: { required: false, types: ['image', 'video'], maxImages: 4, maxVideoSeconds: 140 },
+    supportsThreads: true
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    metadata: z.object({
+      visibility: z.enum(['public', 'connections']).optional().describe('Who can see the post'),
+      organizationId: z.string().optional().describe('Company page to post as')
+    }).passthrough(),
+    limits: { maxTextLength: 3000 },
+    media: { required: false, types: ['image', 'video'], maxImages: 9, maxVideoSeconds: 600 },
+    supportsThreads: false
+  },
+  instagram: {
+    name: 'Instagram',
+    metadata: z.object({
+      postType: z.enum(['feed', 'reel', 'story', 'carousel']).optional().describe('Defaults to feed'),
+      location: z.string().optional().describe('Location tag')
+    }).passthrough(),
+    limits: { maxTextLength: 2200, maxHashtags: 30 },
+    media: { required: true, types: ['image', 'video'], maxImages: 10, maxVideoSeconds: 90 },
+    supportsThreads: false,
+    notes: 'Every post needs at least one image or video'
+  },
+  threads: {
+    name: 'Threads',
+    metadata: z.object({
+      replyToUrl: postUrlSchema.optional().describe('Post to reply to'),
+      thread: z.boolean().optional().describe('Publish the content as a thread')
+    }).passthrough(),
+    limits: { maxTextLength: 500 },
+    media: { required: false, types: ['image', 'video'], maxImages: 10, maxVideoSeconds: 300 },
+    supportsThreads: true
+  },
+  bluesky: {
+    name: 'Bluesky',
+    metadata: z.object({
+      replyToUrl: postUrlSchema.optional().describe('Post to reply to'),
+      thread: z.boolean().optional().describe('Publish the content as a thread'),
+      langs: z.array(z.string().min(2).max(8)).max(3).optional().describe('Language codes, e.g. ["en"]')
+    }).passthrough(),
+    limits: { maxTextLength: 300 },
+    media: { required: false, types: ['image', 'video'], maxImages: 4, maxVideoSeconds: 60 },
+    supportsThreads: true
+  },
+  reddit: {
+    name: 'Reddit',
+    metadata: z.object({
+      targetSubreddit: z.string()
+        .transform(value => value.trim().replace(/^\/?r\//i, ''))
+        .pipe(z.string().regex(/^[A-Za-z0-9_]{2,21}$/, 'Must be a subreddit name, e.g. "typescript"'))
+        .describe('Subreddit to post in, without "r/"'),
+      title: z.string().max(300).optional().describe('Post title. Defaults to the event name.'),
+      postType: z.enum(['text', 'link', 'image']).optional().describe('Defaults to text'),
+      flair: z.string().optional().describe('Post flair, if the subreddit requires one'),
+      nsfw: z.boolean().optional()
+    }).passthrough(),
+    limits: { maxTextLength: 40000, maxTitleLength: 300 },
+    media: { required: false, types: ['image', 'video'], maxImages: 20 },
+    supportsThreads: false,
+    notes: 'Check the subreddit rules before posting; many restrict self-promotion'
+  },
+  tiktok: {
+    name: 'TikTok',
+    metadata: z.object({
+      privacy: z.enum(['public', 'friends', 'private']).optional().describe('Defaults to public'),
+      allowComments: z.boolean().optional(),
+      allowDuet: z.boolean().optional(),
+      allowStitch: z.boolean().optional()
+    }).passthrough(),
+    limits: { maxTextLength: 2200 },
+    media: { required: true, types: ['video'], maxVideoSeconds: 600 },
+    supportsThreads: false,
+    notes: 'Every post is a video'
+  },
+  youtube: {
+    name: 'YouTube',
+    metadata: z.object({
+      title: z.string().max(100).optional().describe('Video title. Defaults to the event name.'),
+      privacy: z.enum(['public', 'unlisted', 'private']).optional().describe('Defaults to public'),
+      tags: z.array(z.string()).optional(),
+      madeForKids: z.boolean().optional().describe('Audience declaration required by YouTube. Defaults to false.'),
+      short: z.boolean().optional().describe('Publish as a Short (vertical, up to 60 seconds)')
+    }).passthrough(),
+    limits: { maxTextLength: 5000, maxTitleLength: 100 },
+    media: { required: true, types: ['video'], maxVideoSeconds: 43200 },
+    supportsThreads: false,
+    notes: 'Every post is a video; the text is the video description'
+  }
+};
+
+export function getPlatformDefinition(platform: Platform): PlatformDefinition {
+  return PLATFORMS[platform];
+}
+
+/**
+ * Validate event metadata for a platform
+ * Known keys are checked (and normalized, e.g. "r/typescript" → "typescript"); unknown keys pass through
+ */
+export function parsePlatformMetadata(platform: Platform, metadata: Record<string, any> = {}) {
+  const definition = PLATFORMS[platform];
+  if (!definition) {
+    // Platforms stored before the registry existed have nothing to check
+    return { success: true as const, data: metadata };
+  }
+  return definition.metadata.safeParse(metadata);
+}
+
+/**
+ * Human-readable type of a metadata field schema
+ */
+function describeFieldType(schema: z.ZodTypeAny): string {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return describeFieldType(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeFieldType(schema._def.schema);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return describeFieldType(schema._def.in);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return (schema.options as string[]).map(option => `"${option}"`).join(' | ');
+  }
+  if (schema instanceof z.ZodArray) {
+    return `${describeFieldType(schema.element)}[]`;
+  }
+  if (schema instanceof z.ZodBoolean) return 'boolean';
+  if (schema instanceof z.ZodNumber) return 'number';
+  return 'string';
+}
+
+/**
+ * Metadata fields of a platform, for listing to agents
+ */
+export function describePlatformMetadata(platform: Platform) {
+  return Object.entries(PLATFORMS[platform].metadata.shape as Record<string, z.ZodTypeAny>).map(([name, schema]) => ({
+    name,
+    type: describeFieldType(schema),
+    required: !schema.isOptional(),
+    description: schema.description
+  }));
+}
@@ -0,0 +1,271 @@
+/**
+ * Recurrence helpers for scheduled event series
+ * Supports the RFC 5545 RRULE subset FREQ, INTERVAL, BYDAY, COUNT and UNTIL, plus EXDATE lists
+ */
+
+import { toWallClock, fromWallClock } from './timezone-helpers.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[]; // 0 = Sunday ... 6 = Saturday
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on periods examined per expansion, protects against rules that never match
+const MAX_PERIODS = 100000;
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (match) {
+    const [, year, month, day, hour, minute, second] = match;
+    if (hour === undefined) {
+      // Date-only UNTIL is inclusive of the whole day
+      return new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+    }
+    return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12"
+ * A leading "RRULE:" prefix is accepted
+ */
+export function parseRRule(rule: string): RecurrenceRule {
+  const parts = rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const values: Record<string, string> = {};
+  
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE part "${part}"`);
+    }
+    values[key.toUpperCase()] = value.toUpperCase();
+  }
+  
+  for (const key of Object.keys(values)) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`Unsupported RRULE part "${key}"`);
+    }
+  }
+  
+  const freq = values.FREQ as RecurrenceFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new Error('RRULE FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+  
+  const interval = values.INTERVAL ? parseInt(values.INTERVAL) : 1;
+  if (isNaN(interval) || interval < 1) {
+    throw new Error('RRULE INTERVAL must be a positive integer');
+  }
+  
+  const byDay = values.BYDAY
+    ? values.BYDAY.split(',').map(day => {
+        const index = WEEKDAYS.indexOf(day);
+        if (index === -1) {
+          throw new Error(`Unsupported BYDAY value "${day}"`);
+        }
+        return index;
+      })
+    : [];
+  
+  if (values.COUNT && values.UNTIL) {
+    throw new Error('RRULE cannot contain both COUNT and UNTIL');
+  }
+  
+  let count: number | undefined;
+  if (values.COUNT) {
+    count = parseInt(values.COUNT);
+    if (isNaN(count) || count < 1) {
+      throw new Error('RRULE COUNT must be a positive integer');
+    }
+  }
+  
+  return {
+    freq,
+    interval,
+    byDay,
+    count,
+    until: values.UNTIL ? parseUntil(values.UNTIL) : undefined
+  };
+}
+
+/**
+ * Serialize a rule back to RRULE form
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAYS[day]).join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return parts.join(';');
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  return new Date(Date.UTC(
+    day.getUTCFullYear(),
+    day.getUTCMonth(),
+    day.getUTCDate(),
+    time.getUTCHours(),
+    time.getUTCMinutes(),
+    time.getUTCSeconds()
+  ));
+}
+
+/**
+ * Yield the candidate occurrences of a rule in chronological order, starting at dtstart
+ */
+function* candidates(rule: RecurrenceRule, dtstart: Date): Generator<Date> {
+  const byDay = rule.byDay.length > 0 ? rule.byDay : null;
+  
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const step = period * rule.interval;
+    
+    switch (rule.freq) {
+      case 'DAILY': {
+        const day = new Date(dtstart.getTime() + step * DAY_MS);
+        if (!byDay || byDay.includes(day.getUTCDay())) {
+          yield day;
+        }
+        break;
+      }
+      case 'WEEKLY': {
+        // Weeks start on Monday (RFC 5545 default WKST)
+        const offsetFromMonday = (dtstart.getUTCDay() + 6) % 7;
+        const monday = new Date(dtstart.getTime() - offsetFromMonday * DAY_MS + step * 7 * DAY_MS);
+        const days = byDay ?? [dtstart.getUTCDay()];
+        const sorted = [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+        for (const weekday of sorted) {
+          yield withTimeOf(new Date(monday.getTime() + ((weekday + 6) % 7) * DAY_MS), dtstart);
+        }
+        break;
+      }
+      case 'MONTHLY': {
+        const year = dtstart.getUTCFullYear();
+        const month = dtstart.getUTCMonth() + step;
+        if (byDay) {
+          const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+          for (let date = 1; date <= daysInMonth; date++) {
+            const day = new Date(Date.UTC(year, month, date));
+            if (byDay.includes(day.getUTCDay())) {
+              yield withTimeOf(day, dtstart);
+            }
+          }
+        } else {
+          const day = new Date(Date.UTC(year, month, dtstart.getUTCDate()));
+          // Skip months that do not contain the start day (e.g. the 31st)
+          if (day.getUTCDate() === dtstart.getUTCDate()) {
+            yield withTimeOf(day, dtstart);
+          }
+        }
+        break;
+      }
+      case 'YEARLY': {
+        const day = new Date(Date.UTC(dtstart.getUTCFullYear() + step, dtstart.getUTCMonth(), dtstart.getUTCDate()));
+        if (day.getUTCMonth() === dtstart.getUTCMonth()) {
+          yield withTimeOf(day, dtstart);
+        }
+        break;
+      }
+    }
+  }
+}
+
+// Represent an instant's wall-clock time in a zone as a UTC date, so expansion keeps local times across DST
+function toZonedUtc(date: Date, timeZone: string): Date {
+  const wall = toWallClock(date, timeZone);
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second));
+}
+
+function fromZonedUtc(date: Date, timeZone: string): Date {
+  return fromWallClock({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds()
+  }, timeZone);
+}
+
+/**
+ * Expand a rule into occurrence times up to (and including) `horizon`
+ * COUNT is applied before EXDATE removal, as in RFC 5545
+ * With a timeZone, occurrences keep dtstart's wall-clock time in that zone
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  horizon: Date,
+  exdates: Date[] = [],
+  timeZone?: string
+): Date[] {
+  if (timeZone && timeZone !== 'UTC') {
+    const zonedRule = { ...rule, until: rule.until ? toZonedUtc(rule.until, timeZone) : undefined };
+    return expandRecurrence(
+      zonedRule,
+      toZonedUtc(dtstart, timeZone),
+      toZonedUtc(horizon, timeZone),
+      exdates.map(date => toZonedUtc(date, timeZone))
+    ).map(date => fromZonedUtc(date, timeZone));
+  }
+  
+  const excluded = new Set(exdates.map(date => date.getTime()));
+  const occurrences: Date[] = [];
+  let counted = 0;
+  
+  for (const candidate of candidates(rule, dtstart)) {
+    if (candidate.getTime() < dtstart.getTime()) continue;
+    if (rule.until && candidate.getTime() > rule.until.getTime()) break;
+    if (rule.count !== undefined && counted >= rule.count) break;
+    if (candidate.getTime() > horizon.getTime()) break;
+    
+    counted++;
+    if (!excluded.has(candidate.getTime())) {
+      occurrences.push(candidate);
+    }
+  }
+  
+  return occurrences;
+}
+
+/**
+ * Split a rule at `cut` (an occurrence time) into the part before and the part from `cut` on
+ * COUNT is converted so that both halves together produce the original occurrences
+ */
+export function splitRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  cut: Date,
+  timeZone?: string
+): { before: RecurrenceRule; after: RecurrenceRule | null } {
+  const before: RecurrenceRule = {
+    ...rule,
+    count: undefined,
+    until: new Date(cut.getTime() - 1000)
+  };
+  
+  if (rule.count === undefined) {
+    return { before, after: { ...rule } };
+  }
+  
+  const consumed = expandRecurrence(rule, dtstart, new Date(cut.getTime() - 1), [], timeZone).length;
+  const remaining = rule.count - consumed;
+  
+  return {
+    before,
+    after: remaining > 0 ? { ...rule, count: remaining } : null
+  };
+}
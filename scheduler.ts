@@ -0,0 +1,182 @@
+/**
+ * Configuration and hook runners for the built-in scheduler
+ * The scheduler itself lives in timeline-fastmcp.ts; this module has no database access
+ */
+
+import { spawn } from 'child_process';
+import type { EventResponse } from './schemas/validation.js';
+
+export type CatchUpPolicy = 'run' | 'skip' | 'mark_missed';
+
+export interface SchedulerConfig {
+  command?: string; // Shell command, receives the payload as JSON on stdin
+  webhookUrl?: string; // HTTP endpoint, receives the payload as a JSON POST body
+  catchUp: CatchUpPolicy;
+  graceMs: number; // Events due longer ago than this count as missed
+  timeoutMs: number; // Per-hook timeout
+  maxSleepMs: number; // Upper bound between checks, so new events are picked up
+}
+
+export interface HookPayload {
+  phase: 'generation' | 'posting';
+  event: EventResponse & { reclaimed: boolean }; // The claimed event, as timeline_claim_due_events returns it
+}
+
+export interface HookResult {
+  success: boolean;
+  output?: string;
+  postedUrl?: string;
+  error?: string;
+}
+
+/**
+ * Read scheduler settings from the environment
+ * Returns null unless POSTY_SCHEDULER is enabled and a command or webhook is configured
+ */
+export function getSchedulerConfig(): SchedulerConfig | null {
+  const enabled = process.env.POSTY_SCHEDULER;
+  if (!enabled || ['0', 'false', 'off'].includes(enabled.toLowerCase())) {
+    return null;
+  }
+  
+  const command = process.env.POSTY_SCHEDULER_COMMAND || undefined;
+  const webhookUrl = process.env.POSTY_SCHEDULER_WEBHOOK || undefined;
+  if (!command && !webhookUrl) {
+    console.error('[Timeline MCP] POSTY_SCHEDULER is set but neither POSTY_SCHEDULER_COMMAND nor POSTY_SCHEDULER_WEBHOOK is configured; scheduler disabled');
+    return null;
+  }
+  
+  const catchUp = (process.env.POSTY_SCHEDULER_CATCHUP || 'run') as CatchUpPolicy;
+  if (!['run', 'skip', 'mark_missed'].includes(catchUp)) {
+    throw new Error('POSTY_SCHEDULER_CATCHUP must be one of: run, skip, mark_missed');
+  }
+  
+  const graceMinutes = Number(process.env.POSTY_SCHEDULER_GRACE_MINUTES || '15');
+  if (!Number.isFinite(graceMinutes) || graceMinutes < 0) {
+    throw new Error('POSTY_SCHEDULER_GRACE_MINUTES must be a non-negative number');
+  }
+  
+  const timeoutSeconds = Number(process.env.POSTY_SCHEDULER_TIMEOUT_SECONDS || '300');
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+    throw new Error('POSTY_SCHEDULER_TIMEOUT_SECONDS must be a positive number');
+  }
+  
+  return {
+    command,
+    webhookUrl,
+    catchUp,
+    graceMs: graceMinutes * 60 * 1000,
+    timeoutMs: timeoutSeconds * 1000,
+    maxSleepMs: 60 * 1000
+  };
+}
+
+/**
+ * Pick postedUrl / error out of a hook's JSON output, if it printed any
+ */
+function parseHookOutput(output: string): { postedUrl?: string; error?: string } {
+  try {
+    const parsed = JSON.parse(output.trim());
+    if (parsed && typeof parsed === 'object') {
+      return {
+        postedUrl: typeof parsed.postedUrl === 'string' ? parsed.postedUrl : undefined,
+        error: typeof parsed.error === 'string' ? parsed.error : undefined
+      };
+    }
+  } catch {
+    // Plain-text output is fine
+  }
+  return {};
+}
+
+/**
+ * Run a shell command with the payload on stdin; exit code 0 means success
+ */
+export function runCommandHook(command: string, payload: HookPayload, timeoutMs: number): Promise<HookResult> {
+  return new Promise((resolve) => {
+    // Own process group, so a timeout also stops whatever the shell started
+    const child = spawn(command, {
+      shell: true,
+      detached: true,
+      env: {
+        ...process.env,
+        TIMELINE_PHASE: payload.phase,
+        TIMELINE_EVENT_ID: payload.event.id
+      }
+    });
+    
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        child.kill('SIGTERM');
+      }
+    }, timeoutMs);
+    
+    child.stdout.on('data', (chunk) => { stdout += chunk; });
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      resolve({ success: false, error: error.message });
+    });
+    
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      const parsed = parseHookOutput(stdout);
+      if (code === 0) {
+        resolve({ success: true, output: stdout.trim(), postedUrl: parsed.postedUrl });
+      } else {
+        resolve({
+          success: false,
+          output: stdout.trim(),
+          error: parsed.error
+            || stderr.trim()
+            || (signal ? `Command terminated by ${signal}` : `Command exited with code ${code}`)
+        });
+      }
+    });
+    
+    child.stdin.on('error', () => {
+      // The command may exit without reading stdin
+    });
+    child.stdin.end(JSON.stringify(payload));
+  });
+}
+
+/**
+ * POST the payload to a webhook; any 2xx response means success
+ */
+export async function runWebhook(url: string, payload: HookPayload, timeoutMs: number): Promise<HookResult> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    
+    const output = await response.text();
+    const parsed = parseHookOutput(output);
+    
+    if (response.ok) {
+      return { success: true, output, postedUrl: parsed.postedUrl };
+    }
+    return {
+      success: false,
+      output,
+      error: parsed.error || `Webhook responded with ${response.status} ${response.statusText}`
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Webhook request failed' };
+  }
+}
+
+export function runHook(config: SchedulerConfig, payload: HookPayload): Promise<HookResult> {
+  if (config.command) {
+    return runCommandHook(config.command, payload, config.timeoutMs);
+  }
+  return runWebhook(config.webhookUrl!, payload, config.timeoutMs);
+}
@@ -30,13 +30,45 @@ export const tracks = sqliteTable('timeline_tracks', {
   name: text('name').notNull(),
   type: text('type', { enum: ['planned', 'automation'] }).notNull(),
   order: integer('order').notNull().default(0),
+  timezone: text('timezone'), // IANA zone, falls back to the workspace default
   createdAt: text('created_at').notNull().$defaultFn(timestamp.defaultNow),
   updatedAt: text('updated_at').notNull().$defaultFn(timestamp.defaultNow),
 }, (table) => ({
   accountIdx: index('timeline_tracks_account_idx').on(table.postyAccountId),
+  accountNameIdx: index('timeline_tracks_account_name_idx').on(table.postyAccountId, table.name, table.type),
   orderIdx: index('timeline_tracks_order_idx').on(table.order),
 }));
 
+// Event series table - recurring scheduled events (RRULE) that materialize into events
+export const eventSeries = sqliteTable('timeline_event_series', {
+  id: text('id').primaryKey().$defaultFn(uuid.defaultFn),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  trackId: text('track_id').references(() => tracks.id, { onDelete: 'cascade' }),
+
+  // Event template
+  name: text('name').notNull(),
+  platform: text('platform'),
+  prompt: text('prompt'),
+  agent: text('agent'),
+  approvalVia: text('approval_via'),
+  mcpTools: text('mcp_tools').$defaultFn(json.defaultArray),
+  metadata: text('metadata').$defaultFn(json.defaultObject),
+
+  // Recurrence
+  rrule: text('rrule').notNull(), // e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12"
+  dtstart: text('dtstart').notNull(), // First occurrence (ISO string)
+  timezone: text('timezone'), // IANA zone whose wall-clock time occurrences keep
+  exdates: text('exdates').$defaultFn(json.defaultArray), // Excluded occurrence times (ISO strings)
+  materializedUntil: text('materialized_until'), // Events exist for every occurrence up to this time
+
+  // Timestamps
+  createdAt: text('created_at').notNull().$defaultFn(timestamp.defaultNow),
+  updatedAt: text('updated_at').notNull().$defaultFn(timestamp.defaultNow),
+}, (table) => ({
+  accountIdx: index('timeline_event_series_account_idx').on(table.postyAccountId),
+  trackIdIdx: index('timeline_event_series_track_id_idx').on(table.trackId),
+}));
+
 // Events table - stores both scheduled events AND automation-generated events
 export const events = sqliteTable('timeline_events', {
   id: text('id').primaryKey().$defaultFn(uuid.defaultFn),
@@ -66,13 +98,19 @@ export const events = sqliteTable('timeline_events', {
   error: text('error'), // Error message if generation or posting failed
   generationSessionId: text('generation_session_id'), // Claude session ID for content generation
   postingSessionId: text('posting_session_id'), // Claude session ID for posting automation
+  leaseExpiresAt: text('lease_expires_at'), // When a worker's claim on generating/posting lapses
 
   // Metadata
   approvalVia: text('approval_via'),
+  approvalReviewers: text('approval_reviewers').$defaultFn(json.defaultArray), // Who was asked to approve
   mcpTools: text('mcp_tools').$defaultFn(json.defaultArray),
   eventType: text('event_type').default('scheduled'),
   metadata: text('metadata').$defaultFn(json.defaultObject), // Platform-specific metadata (e.g., target subreddit)
 
+  // Recurrence
+  seriesId: text('series_id').references(() => eventSeries.id, { onDelete: 'cascade' }),
+  recurrenceId: text('recurrence_id'), // Original occurrence time within the series
+
   // File paths
   mediaPath: text('media_path'),
 
@@ -88,6 +126,83 @@ export const events = sqliteTable('timeline_events', {
   statusIdx: index('timeline_events_status_idx').on(table.status),
   generationTimeIdx: index('timeline_events_generation_time_idx').on(table.generationTime),
   mediaPathIdx: index('timeline_events_media_path_idx').on(table.mediaPath),
+  seriesIdIdx: index('timeline_events_series_id_idx').on(table.seriesId),
+  leaseExpiresAtIdx: index('timeline_events_lease_expires_at_idx').on(table.leaseExpiresAt),
+}));
+
+// Approval history table - every approval request and decision per event
+export const eventApprovals = sqliteTable('timeline_event_approvals', {
+  id: text('id').primaryKey().$defaultFn(uuid.defaultFn),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  eventId: text('event_id').notNull().references(() => events.id, { onDelete: 'cascade' }),
+  action: text('action', { enum: ['requested', 'approved', 'rejected'] }).notNull(),
+  actor: text('actor'), // Who requested or decided
+  via: text('via'), // Channel, e.g. 'discord', 'slack', 'manual'
+  comment: text('comment'), // Optional comment or rejection reason
+  createdAt: text('created_at').notNull().$defaultFn(timestamp.defaultNow),
+}, (table) => ({
+  eventIdIdx: index('timeline_event_approvals_event_id_idx').on(table.eventId),
+}));
+
+// Event revisions table - before/after snapshots of every change to an event
+// No foreign key on event_id: history outlives the event, so deleted events can be restored
+export const eventRevisions = sqliteTable('timeline_event_revisions', {
+  id: text('id').primaryKey().$defaultFn(uuid.defaultFn),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  eventId: text('event_id').notNull(),
+  trackId: text('track_id'),
+  action: text('action', { enum: ['created', 'updated', 'deleted'] }).notNull(),
+  tool: text('tool'), // Tool (or 'scheduler') that made the change
+  actor: text('actor'), // Client, worker or reviewer behind the change
+  before: text('before_state'), // Event row before the change, null when created
+  after: text('after_state'), // Event row after the change, null when deleted
+  changes: text('changes').notNull().$defaultFn(json.defaultObject), // { field: { from, to } }
+  undoOf: text('undo_of'), // Revision this change undid (timeline_undo_last_change)
+  createdAt: text('created_at').notNull().$defaultFn(timestamp.defaultNow),
+}, (table) => ({
+  accountIdx: index('timeline_event_revisions_account_idx').on(table.postyAccountId),
+  eventIdIdx: index('timeline_event_revisions_event_id_idx').on(table.eventId),
+  createdAtIdx: index('timeline_event_revisions_created_at_idx').on(table.createdAt),
+}));
+
+// Trash table - removed tracks, series and events, kept with their rows until the trash is emptied
+export const trashItems = sqliteTable('timeline_trash', {
+  id: text('id').primaryKey().$defaultFn(uuid.defaultFn),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  kind: text('kind', { enum: ['track', 'series', 'event'] }).notNull(),
+  name: text('name').notNull(),
+  trackId: text('track_id'), // No foreign key: the track may be in the trash itself
+  contents: text('contents').notNull(), // Removed rows: { tracks, series, events, automations, cadenceRules, approvals }
+  mediaPaths: text('media_paths').$defaultFn(json.defaultArray), // Folders left on disk until the trash is emptied
+  eventCount: integer('event_count').notNull().default(0),
+  deletedAt: text('deleted_at').notNull().$defaultFn(timestamp.defaultNow),
+}, (table) => ({
+  accountIdx: index('timeline_trash_account_idx').on(table.postyAccountId),
+  deletedAtIdx: index('timeline_trash_deleted_at_idx').on(table.deletedAt),
+}));
+
+// Cadence rules table - spacing, daily limits, quiet hours and blackout dates for posting
+// scope 'workspace' applies to every event, 'platform' to one platform and 'track' to one track
+export const cadenceRules = sqliteTable('timeline_cadence_rules', {
+  id: text('id').primaryKey().$defaultFn(uuid.defaultFn),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  scope: text('scope', { enum: ['workspace', 'platform', 'track'] }).notNull(),
+  platform: text('platform'), // Set when scope is 'platform'
+  trackId: text('track_id').references(() => tracks.id, { onDelete: 'cascade' }), // Set when scope is 'track'
+
+  // Rules (null = no limit)
+  minSpacingMinutes: integer('min_spacing_minutes'),
+  maxPerDay: integer('max_per_day'),
+  quietHours: text('quiet_hours'), // { start: 'HH:MM', end: 'HH:MM' } local time, may wrap midnight
+  blackoutDates: text('blackout_dates').$defaultFn(json.defaultArray), // Local dates (YYYY-MM-DD)
+  timezone: text('timezone'), // IANA zone for days and quiet hours, defaults to the event timezone
+
+  // Timestamps
+  createdAt: text('created_at').notNull().$defaultFn(timestamp.defaultNow),
+  updatedAt: text('updated_at').notNull().$defaultFn(timestamp.defaultNow),
+}, (table) => ({
+  accountIdx: index('timeline_cadence_rules_account_idx').on(table.postyAccountId),
+  trackIdIdx: index('timeline_cadence_rules_track_id_idx').on(table.trackId),
 }));
 
 // Automations table - stores automation configurations
@@ -102,11 +217,13 @@ export const automations = sqliteTable('timeline_automations', {
   trigger: text('trigger').notNull().$defaultFn(json.defaultObject),
   actions: text('actions').notNull().$defaultFn(json.defaultObject),
   enabled: integer('enabled').notNull().default(1),
+  endCondition: text('end_condition'), // { type: 'executions' | 'date' | 'days', value: number | string }
 
   // Execution tracking
   lastRun: text('last_run'),
   nextRun: text('next_run'),
   state: text('state').$defaultFn(json.defaultObject),
+  stats: text('stats'), // { totalExecutions, successCount, failureCount }
 
   // Timestamps
   createdAt: text('created_at').notNull().$defaultFn(timestamp.defaultNow),
@@ -115,6 +232,7 @@ export const automations = sqliteTable('timeline_automations', {
   accountIdx: index('timeline_automations_account_idx').on(table.postyAccountId),
   trackIdIdx: index('timeline_automations_track_id_idx').on(table.trackId),
   enabledIdx: index('timeline_automations_enabled_idx').on(table.enabled),
+  nextRunIdx: index('timeline_automations_next_run_idx').on(table.nextRun),
 }));
 
 // Type exports for TypeScript
@@ -124,5 +242,20 @@ export type NewTrack = typeof tracks.$inferInsert;
 export type Event = typeof events.$inferSelect;
 export type NewEvent = typeof events.$inferInsert;
 
+export type EventSeries = typeof eventSeries.$inferSelect;
+export type NewEventSeries = typeof eventSeries.$inferInsert;
+
+export type EventApproval = typeof eventApprovals.$inferSelect;
+export type NewEventApproval = typeof eventApprovals.$inferInsert;
+
+export type EventRevision = typeof eventRevisions.$inferSelect;
+export type NewEventRevision = typeof eventRevisions.$inferInsert;
+
+export type TrashItem = typeof trashItems.$inferSelect;
+export type NewTrashItem = typeof trashItems.$inferInsert;
+
+export type CadenceRule = typeof cadenceRules.$inferSelect;
+export type NewCadenceRule = typeof cadenceRules.$inferInsert;
+
 export type Automation = typeof automations.$inferSelect;
 export type NewAutomation = typeof automations.$inferInsert;
\ No newline at end of file
@@ -1,63 +1,232 @@
-import { pgTable, uuid, text, timestamp, jsonb, pgSchema, boolean, integer } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, integer, pgSchema, index, customType } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+// Column types that read and write the same JavaScript values as the SQLite schema
+// (ISO strings for times, 0/1 for flags, JSON text for documents), so every query works against either database
+const timestamp = customType<{ data: string; driverData: Date | string }>({
+  dataType: () => 'timestamp with time zone',
+  fromDriver: (value) => new Date(value).toISOString()
+});
+
+const flag = customType<{ data: number; driverData: boolean }>({
+  dataType: () => 'boolean',
+  toDriver: (value) => !!value,
+  fromDriver: (value) => value ? 1 : 0
+});
+
+const jsonb = customType<{ data: string; driverData: unknown }>({
+  dataType: () => 'jsonb',
+  toDriver: (value) => value,
+  fromDriver: (value) => JSON.stringify(value)
+});
 
 // Create timeline schema
 export const timelineSchema = pgSchema('timeline');
 
+// Reference to postyAccounts table for foreign key constraints
+// This matches the main posty schema's reference pattern
+export const postyAccounts = pgTable('posty_accounts', {
+  id: text('id').primaryKey()
+});
+
 // Tracks table (formerly layers)
 export const tracks = timelineSchema.table('tracks', {
   id: uuid('id').primaryKey().defaultRandom(),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
-  type: text('type').notNull(), // 'planned' or 'automation'
+  type: text('type', { enum: ['planned', 'automation'] }).notNull(),
   order: integer('order').notNull().default(0),
-  createdAt: timestamp('created_at').defaultNow(),
-  updatedAt: timestamp('updated_at').defaultNow()
-});
+  timezone: text('timezone'), // IANA zone, falls back to the workspace default
+  createdAt: timestamp('created_at').notNull().default(sql`now()`),
+  updatedAt: timestamp('updated_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('tracks_account_idx').on(table.postyAccountId),
+  accountNameIdx: index('tracks_account_name_idx').on(table.postyAccountId, table.name, table.type),
+  orderIdx: index('tracks_order_idx').on(table.order)
+}));
 
-// Automations table - stores automation configurations
-export const automations = timelineSchema.table('automations', {
+// Event series table - recurring scheduled events (RRULE) that materialize into events
+export const eventSeries = timelineSchema.table('event_series', {
   id: uuid('id').primaryKey().defaultRandom(),
-  trackId: uuid('track_id').notNull().references(() => tracks.id, { onDelete: 'cascade' }),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  trackId: uuid('track_id').references(() => tracks.id, { onDelete: 'cascade' }),
+
+  // Event template
   name: text('name').notNull(),
-  checkPrompt: text('check_prompt').notNull(),
-  checkInterval: text('check_interval').notNull(), // "30m", "1h", or cron expression
-  doPrompt: text('do_prompt').notNull(),
-  agent: text('agent').default('assistant'),
-  platform: text('platform').default('x'),
-  enabled: boolean('enabled').default(true),
-  stateFolder: text('state_folder'), // e.g. "twitter-dm-support"
-  endCondition: jsonb('end_condition'), // { type: 'executions' | 'date' | 'days', value: number | string }
-  stats: jsonb('stats').default({ totalExecutions: 0, successCount: 0, failureCount: 0 }),
-  lastExecutedAt: timestamp('last_executed_at'),
-  nextRunAt: timestamp('next_run_at'),
-  createdAt: timestamp('created_at').defaultNow(),
-  updatedAt: timestamp('updated_at').defaultNow()
-});
+  platform: text('platform'),
+  prompt: text('prompt'),
+  agent: text('agent'),
+  approvalVia: text('approval_via'),
+  mcpTools: jsonb('mcp_tools').default('[]'),
+  metadata: jsonb('metadata').default('{}'),
+
+  // Recurrence
+  rrule: text('rrule').notNull(), // e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12"
+  dtstart: timestamp('dtstart').notNull(), // First occurrence
+  timezone: text('timezone'), // IANA zone whose wall-clock time occurrences keep
+  exdates: jsonb('exdates').default('[]'), // Excluded occurrence times (ISO strings)
+  materializedUntil: timestamp('materialized_until'), // Events exist for every occurrence up to this time
+
+  createdAt: timestamp('created_at').notNull().default(sql`now()`),
+  updatedAt: timestamp('updated_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('event_series_account_idx').on(table.postyAccountId),
+  trackIdIdx: index('event_series_track_id_idx').on(table.trackId)
+}));
 
 // Events table - stores both scheduled events AND automation-generated events
 export const events = timelineSchema.table('events', {
   id: uuid('id').primaryKey().defaultRandom(),
-  trackId: uuid('track_id').notNull().references(() => tracks.id, { onDelete: 'cascade' }),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  trackId: uuid('track_id').references(() => tracks.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
-  platform: text('platform').notNull(), // 'x.com', 'linkedin', etc.
+  platform: text('platform'), // 'x', 'linkedin', etc.
+
+  // Timing fields
   scheduledTime: timestamp('scheduled_time').notNull(),
   generationTime: timestamp('generation_time'),
   postTime: timestamp('post_time'),
-  content: jsonb('content').notNull(), // { content: string, mentions: string[], attachments: string[] }
-  agent: text('agent').default('anthropic/claude-opus-4'),
-  contentGenerated: boolean('content_generated').default(false),
-  approved: boolean('approved').default(false),
-  posted: boolean('posted').default(false),
-  approvalVia: text('approval_via').default('discord'),
-  mcpTools: jsonb('mcp_tools').default(['timeline']),
-  metadata: jsonb('metadata'), // Additional flexible data
-  
-  // Fields for automation-generated events
-  automationId: uuid('automation_id').references(() => automations.id, { onDelete: 'set null' }),
+
+  // Content fields
+  prompt: text('prompt'),
+  agent: text('agent'),
+  contentGenerated: flag('content_generated').notNull().default(0),
+  approved: flag('approved').notNull().default(0),
+  posted: flag('posted').notNull().default(0),
+
+  // Status tracking
+  status: text('status').default('scheduled'),
+  generationStarted: flag('generation_started').default(0),
+  postedUrl: text('posted_url'), // URL of the posted content
+  generationStartedAt: timestamp('generation_started_at'),
+  approvalRequestedAt: timestamp('approval_requested_at'),
+  error: text('error'), // Error message if generation or posting failed
+  generationSessionId: text('generation_session_id'), // Session ID for content generation
+  postingSessionId: text('posting_session_id'), // Session ID for posting automation
+  leaseExpiresAt: timestamp('lease_expires_at'), // When a worker's claim on generating/posting lapses
+
+  // Metadata
+  approvalVia: text('approval_via'),
+  approvalReviewers: jsonb('approval_reviewers').default('[]'), // Who was asked to approve
+  mcpTools: jsonb('mcp_tools').default('[]'),
   eventType: text('event_type').default('scheduled'), // 'scheduled' | 'automation_generated'
-  automationContext: jsonb('automation_context'), // {triggerData, queryResult, etc}
-  stateFolder: text('state_folder'), // Can be used by any event for file storage
+  metadata: jsonb('metadata').default('{}'), // Platform-specific metadata (e.g., target subreddit)
+
+  // Recurrence
+  seriesId: uuid('series_id').references(() => eventSeries.id, { onDelete: 'cascade' }),
+  recurrenceId: timestamp('recurrence_id'), // Original occurrence time within the series
+
   mediaPath: text('media_path'), // Path to folder containing generated media files
-  
-  createdAt: timestamp('created_at').defaultNow(),
-  updatedAt: timestamp('updated_at').defaultNow()
-});
\ No newline at end of file
+
+  createdAt: timestamp('created_at').notNull().default(sql`now()`),
+  updatedAt: timestamp('updated_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('events_account_idx').on(table.postyAccountId),
+  trackIdIdx: index('events_track_id_idx').on(table.trackId),
+  scheduledTimeIdx: index('events_scheduled_time_idx').on(table.scheduledTime),
+  statusIdx: index('events_status_idx').on(table.status),
+  generationTimeIdx: index('events_generation_time_idx').on(table.generationTime),
+  seriesIdIdx: index('events_series_id_idx').on(table.seriesId),
+  leaseExpiresAtIdx: index('events_lease_expires_at_idx').on(table.leaseExpiresAt)
+}));
+
+// Approval history table - every approval request and decision per event
+export const eventApprovals = timelineSchema.table('event_approvals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  eventId: uuid('event_id').notNull().references(() => events.id, { onDelete: 'cascade' }),
+  action: text('action', { enum: ['requested', 'approved', 'rejected'] }).notNull(),
+  actor: text('actor'), // Who requested or decided
+  via: text('via'), // Channel, e.g. 'discord', 'slack', 'manual'
+  comment: text('comment'), // Optional comment or rejection reason
+  createdAt: timestamp('created_at').notNull().default(sql`now()`)
+}, (table) => ({
+  eventIdIdx: index('event_approvals_event_id_idx').on(table.eventId)
+}));
+
+// Event revisions table - before/after snapshots of every change to an event
+export const eventRevisions = timelineSchema.table('event_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  eventId: uuid('event_id').notNull(), // No foreign key: history outlives the event
+  trackId: uuid('track_id'),
+  action: text('action', { enum: ['created', 'updated', 'deleted'] }).notNull(),
+  tool: text('tool'), // Tool (or 'scheduler') that made the change
+  actor: text('actor'), // Client, worker or reviewer behind the change
+  before: jsonb('before_state'), // Event row before the change, null when created
+  after: jsonb('after_state'), // Event row after the change, null when deleted
+  changes: jsonb('changes').notNull().default('{}'), // { field: { from, to } }
+  undoOf: uuid('undo_of'), // Revision this change undid (timeline_undo_last_change)
+  createdAt: timestamp('created_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('event_revisions_account_idx').on(table.postyAccountId),
+  eventIdIdx: index('event_revisions_event_id_idx').on(table.eventId),
+  createdAtIdx: index('event_revisions_created_at_idx').on(table.createdAt)
+}));
+
+// Trash table - removed tracks, series and events, kept with their rows until the trash is emptied
+export const trashItems = timelineSchema.table('trash', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  kind: text('kind', { enum: ['track', 'series', 'event'] }).notNull(),
+  name: text('name').notNull(),
+  trackId: uuid('track_id'), // No foreign key: the track may be in the trash itself
+  contents: jsonb('contents').notNull(), // Removed rows: { tracks, series, events, automations, cadenceRules, approvals }
+  mediaPaths: jsonb('media_paths').default('[]'), // Folders left on disk until the trash is emptied
+  eventCount: integer('event_count').notNull().default(0),
+  deletedAt: timestamp('deleted_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('trash_account_idx').on(table.postyAccountId),
+  deletedAtIdx: index('trash_deleted_at_idx').on(table.deletedAt)
+}));
+
+// Cadence rules table - spacing, daily limits, quiet hours and blackout dates for posting
+export const cadenceRules = timelineSchema.table('cadence_rules', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  scope: text('scope', { enum: ['workspace', 'platform', 'track'] }).notNull(),
+  platform: text('platform'), // Set when scope is 'platform'
+  trackId: uuid('track_id').references(() => tracks.id, { onDelete: 'cascade' }), // Set when scope is 'track'
+
+  // Rules (null = no limit)
+  minSpacingMinutes: integer('min_spacing_minutes'),
+  maxPerDay: integer('max_per_day'),
+  quietHours: jsonb('quiet_hours'), // { start: 'HH:MM', end: 'HH:MM' } local time, may wrap midnight
+  blackoutDates: jsonb('blackout_dates').default('[]'), // Local dates (YYYY-MM-DD)
+  timezone: text('timezone'), // IANA zone for days and quiet hours, defaults to the event timezone
+
+  createdAt: timestamp('created_at').notNull().default(sql`now()`),
+  updatedAt: timestamp('updated_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('cadence_rules_account_idx').on(table.postyAccountId),
+  trackIdIdx: index('cadence_rules_track_id_idx').on(table.trackId)
+}));
+
+// Automations table - stores automation configurations
+export const automations = timelineSchema.table('automations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  postyAccountId: text('posty_account_id').references(() => postyAccounts.id, { onDelete: 'cascade' }),
+  trackId: uuid('track_id').references(() => tracks.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+
+  // Automation configuration
+  trigger: jsonb('trigger').notNull().default('{}'),
+  actions: jsonb('actions').notNull().default('{}'),
+  enabled: flag('enabled').notNull().default(1),
+  endCondition: jsonb('end_condition'), // { type: 'executions' | 'date' | 'days', value: number | string }
+
+  // Execution tracking
+  lastRun: timestamp('last_run'),
+  nextRun: timestamp('next_run'),
+  state: jsonb('state').default('{}'),
+  stats: jsonb('stats'), // { totalExecutions, successCount, failureCount }
+
+  createdAt: timestamp('created_at').notNull().default(sql`now()`),
+  updatedAt: timestamp('updated_at').notNull().default(sql`now()`)
+}, (table) => ({
+  accountIdx: index('automations_account_idx').on(table.postyAccountId),
+  trackIdIdx: index('automations_track_id_idx').on(table.trackId),
+  enabledIdx: index('automations_enabled_idx').on(table.enabled),
+  nextRunIdx: index('automations_next_run_idx').on(table.nextRun)
+}));
@@ -1,10 +1,25 @@
 import { z } from 'zod';
+import { parseCron, nextCronRun } from '../automation-runtime.js';
+import { parseRRule } from '../recurrence.js';
+import { isValidTimeZone } from '../timezone-helpers.js';
 
 // Common schemas
-export const platformSchema = z.enum(['x', 'linkedin', 'instagram', 'threads', 'bluesky', 'reddit']);
+export const platformSchema = z.enum(['x', 'linkedin', 'instagram', 'threads', 'bluesky', 'reddit', 'tiktok', 'youtube']);
 export const agentSchema = z.string().default('claude-sonnet-4-5-20250929');
-export const trackTypeSchema = z.enum(['planned']);
+export const trackTypeSchema = z.enum(['planned', 'automation']);
 export const eventTypeSchema = z.enum(['scheduled']);
+export const eventStatusSchema = z.enum([
+  'scheduled',
+  'generating',
+  'generated',
+  'awaiting_approval',
+  'rejected',
+  'approved',
+  'posting',
+  'posted',
+  'failed',
+  'cancelled'
+]);
 
 // ISO datetime validation
 export const isoDateTimeSchema = z.string().refine(
@@ -12,6 +27,142 @@ export const isoDateTimeSchema = z.string().refine(
   { message: 'Invalid ISO 8601 datetime format' }
 );
 
+// IANA timezone validation (e.g. "America/Los_Angeles")
+export const timezoneSchema = z.string().refine(
+  (val) => isValidTimeZone(val),
+  { message: 'Invalid IANA timezone (e.g. "America/New_York", "Europe/London", "UTC")' }
+);
+
+// Automation trigger schema
+// Interval triggers use a number followed by a unit ("30m", "1h", "2d"),
+// cron triggers use a standard 5-field expression ("0 9 * * 1-5")
+export const intervalSchema = z.string().regex(
+  /^\d+[mhd]$/,
+  { message: 'Interval must be a number followed by m, h or d (e.g. "30m", "1h")' }
+);
+
+export const cronExpressionSchema = z.string().refine(
+  (val) => {
+    const fields = val.trim().split(/\s+/);
+    if (fields.length !== 5 || !fields.every(field => /^(\*|\d+(-\d+)?)(\/\d+)?(,(\*|\d+(-\d+)?)(\/\d+)?)*$/.test(field))) {
+      return false;
+    }
+    try {
+      parseCron(val);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Cron expression must have 5 valid fields (minute hour day-of-month month day-of-week)' }
+).refine(
+  (val) => {
+    // Valid fields can still never line up, e.g. "0 0 31 2 *" (February 31st)
+    try {
+      parseCron(val);
+    } catch {
+      return true; // Already reported above
+    }
+    try {
+      nextCronRun(val, new Date());
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Cron expression never fires (no date matches its day-of-month and month fields)' }
+);
+
+export const automationTriggerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('interval'),
+    every: intervalSchema
+  }),
+  z.object({
+    type: z.literal('cron'),
+    expression: cronExpressionSchema
+  })
+]);
+
+// Automation end condition schema
+// Stops the automation after a number of executions, on a date, or after a number of days
+export const automationEndConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('executions'),
+    value: z.number().int().positive()
+  }),
+  z.object({
+    type: z.literal('date'),
+    value: isoDateTimeSchema
+  }),
+  z.object({
+    type: z.literal('days'),
+    value: z.number().int().positive()
+  })
+]);
+
+export const automationStatsSchema = z.object({
+  totalExecutions: z.number().int().nonnegative(),
+  successCount: z.number().int().nonnegative(),
+  failureCount: z.number().int().nonnegative()
+});
+
+// Automation action schema
+// 'prompt' runs an agent prompt, 'post' generates a post for a platform
+export const automationActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('prompt'),
+    prompt: z.string().min(1, 'Prompt cannot be empty').max(5000, 'Prompt too long'),
+    agent: agentSchema.optional(),
+    mcpTools: z.array(z.string()).optional()
+  }),
+  z.object({
+    type: z.literal('post'),
+    platform: platformSchema,
+    prompt: z.string().min(1, 'Prompt cannot be empty').max(5000, 'Prompt too long'),
+    agent: agentSchema.optional(),
+    metadata: z.record(z.any()).optional()
+  })
+]);
+
+// Recurrence schema for scheduled event series
+// RFC 5545 RRULE subset: FREQ, INTERVAL, BYDAY, COUNT, UNTIL
+export const rruleSchema = z.string().refine(
+  (val) => {
+    try {
+      parseRRule(val);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid RRULE. Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (MO-SU), COUNT, UNTIL' }
+);
+
+export const recurrenceSchema = z.object({
+  rrule: rruleSchema.describe('e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;COUNT=30"'),
+  exdates: z.array(isoDateTimeSchema).optional().describe('Occurrence times to skip')
+});
+
+export const seriesScopeSchema = z.enum(['this', 'following', 'series']);
+
+// Cadence rules
+export const cadenceScopeSchema = z.enum(['workspace', 'platform', 'track']);
+
+export const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (24-hour)');
+
+export const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const quietHoursSchema = z.object({
+  start: timeOfDaySchema.describe('Local time quiet hours begin, e.g. "22:00"'),
+  end: timeOfDaySchema.describe('Local time quiet hours end, e.g. "07:00" (may be on the next day)')
+}).refine(data => data.start !== data.end, { message: 'Quiet hours start and end must differ' });
+
+export const timeWindowSchema = z.object({
+  start: timeOfDaySchema.describe('Local time the window opens, e.g. "09:00"'),
+  end: timeOfDaySchema.describe('Local time the window closes, e.g. "12:00" (may be on the next day)')
+}).refine(data => data.start !== data.end, { message: 'Window start and end must differ' });
+
 // Content schema - DEPRECATED, keeping for backward compatibility
 // Now we just use a string for prompt
 export const contentSchema = z.object({
@@ -46,6 +197,7 @@ export const eventSchema = z.object({
   contentGenerated: z.boolean().default(false),
   approved: z.boolean().default(false),
   posted: z.boolean().default(false),
+  status: eventStatusSchema.default('scheduled'),
   approvalVia: z.string().default('manual'),
   mcpTools: z.array(z.string()).default(['timeline', 'fal', 'sqlite', 'playwright']),
   metadata: z.record(z.any()).optional(), // Platform-specific metadata (e.g., target subreddit)
@@ -66,8 +218,26 @@ export const eventSchema = z.object({
 export const trackResponseSchema = z.object({
   id: z.string(),
   name: z.string(),
-  type: z.enum(['schedule']),
+  type: z.enum(['schedule', 'automation']),
   order: z.number(),
+  timezone: z.string().nullable().optional(),
+  createdAt: z.string().optional()
+});
+
+export const automationResponseSchema = z.object({
+  id: z.string(),
+  trackId: z.string(),
+  trackName: z.string().optional(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  trigger: automationTriggerSchema,
+  actions: z.array(automationActionSchema),
+  enabled: z.boolean(),
+  endCondition: automationEndConditionSchema.nullable().optional(),
+  stats: automationStatsSchema,
+  lastRun: z.string().optional(),  // ISO string for API response
+  nextRun: z.string().optional(),  // ISO string for API response
+  state: z.record(z.any()).optional(),
   createdAt: z.string().optional()
 });
 
@@ -79,16 +249,74 @@ export const eventResponseSchema = z.object({
   prompt: z.string(),  // Now using prompt field
   platform: z.string(),
   scheduledTime: z.string(),  // ISO string for API response
+  scheduledTimeLocal: z.string().optional(),  // Wall-clock time with offset in `timezone`
   generationTime: z.string().optional(),  // ISO string for API response
-  status: z.enum(['pending', 'generated', 'posted']),
+  timezone: z.string().optional(),
+  status: eventStatusSchema,
   mediaPath: z.string().optional(),
   metadata: z.record(z.any()).optional(), // Platform-specific metadata
   generationSessionId: z.string().nullable().optional(),
   postingSessionId: z.string().nullable().optional(),
   generationStartedAt: z.string().optional(),  // ISO string for API response
   approvalRequestedAt: z.string().optional(),  // ISO string for API response
+  leaseExpiresAt: z.string().optional(),  // ISO string for API response
   error: z.string().nullable().optional(),
-  postedUrl: z.string().nullable().optional()
+  postedUrl: z.string().nullable().optional(),
+  approvalVia: z.string().nullable().optional(),
+  approvalReviewers: z.array(z.string()).optional(),
+  seriesId: z.string().nullable().optional(),
+  recurrenceId: z.string().nullable().optional()  // Original occurrence time within the series
+});
+
+export const approvalActionSchema = z.enum(['requested', 'approved', 'rejected']);
+
+export const approvalHistoryResponseSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  action: approvalActionSchema,
+  actor: z.string().nullable().optional(),
+  via: z.string().nullable().optional(),
+  comment: z.string().nullable().optional(),
+  createdAt: z.string()
+});
+
+export const revisionActionSchema = z.enum(['created', 'updated', 'deleted']);
+
+export const eventRevisionResponseSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  action: revisionActionSchema,
+  tool: z.string().nullable().optional(),
+  actor: z.string().nullable().optional(),
+  changes: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+  undoOf: z.string().nullable().optional(),
+  createdAt: z.string()
+});
+
+export const eventSeriesResponseSchema = z.object({
+  id: z.string(),
+  trackId: z.string(),
+  name: z.string(),
+  platform: z.string(),
+  rrule: z.string(),
+  dtstart: z.string(),
+  timezone: z.string().nullable().optional(),
+  exdates: z.array(z.string()),
+  materializedUntil: z.string().nullable().optional()
+});
+
+export const cadenceRuleResponseSchema = z.object({
+  id: z.string(),
+  scope: cadenceScopeSchema,
+  platform: z.string().nullable().optional(),
+  trackId: z.string().nullable().optional(),
+  trackName: z.string().optional(),
+  minSpacingMinutes: z.number().nullable(),
+  maxPerDay: z.number().nullable(),
+  quietHours: quietHoursSchema.nullable(),
+  blackoutDates: z.array(z.string()),
+  timezone: z.string().nullable().optional(),
+  updatedAt: z.string().optional()
 });
 
 
@@ -96,8 +324,24 @@ export const eventResponseSchema = z.object({
 export type Platform = z.infer<typeof platformSchema>;
 export type TrackType = z.infer<typeof trackTypeSchema>;
 export type EventType = z.infer<typeof eventTypeSchema>;
+export type EventStatus = z.infer<typeof eventStatusSchema>;
+export type ApprovalAction = z.infer<typeof approvalActionSchema>;
+export type AutomationTrigger = z.infer<typeof automationTriggerSchema>;
+export type AutomationAction = z.infer<typeof automationActionSchema>;
+export type AutomationEndCondition = z.infer<typeof automationEndConditionSchema>;
+export type AutomationStats = z.infer<typeof automationStatsSchema>;
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+export type SeriesScope = z.infer<typeof seriesScopeSchema>;
+export type CadenceScope = z.infer<typeof cadenceScopeSchema>;
+export type QuietHours = z.infer<typeof quietHoursSchema>;
+export type TimeWindow = z.infer<typeof timeWindowSchema>;
 export type Content = z.infer<typeof contentSchema>;
 export type Track = z.infer<typeof trackSchema>;
 export type Event = z.infer<typeof eventSchema>;
 export type TrackResponse = z.infer<typeof trackResponseSchema>;
-export type EventResponse = z.infer<typeof eventResponseSchema>;
\ No newline at end of file
+export type EventResponse = z.infer<typeof eventResponseSchema>;
+export type ApprovalHistoryResponse = z.infer<typeof approvalHistoryResponseSchema>;
+export type EventRevisionResponse = z.infer<typeof eventRevisionResponseSchema>;
+export type EventSeriesResponse = z.infer<typeof eventSeriesResponseSchema>;
+export type AutomationResponse = z.infer<typeof automationResponseSchema>;
+export type CadenceRuleResponse = z.infer<typeof cadenceRuleResponseSchema>;
\ No newline at end of file
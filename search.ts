@@ -0,0 +1,56 @@
+/**
+ * Full-text search queries over event names, prompts and metadata
+ * Turns what a user types into an SQLite FTS5 MATCH expression or a PostgreSQL tsquery with the same meaning:
+ * every term must match, "quoted phrases" match in order, and the last word also matches as a prefix
+ */
+
+export interface SearchTerm {
+  words: string[];
+  phrase: boolean;
+}
+
+/**
+ * Split a query into terms, lowercased and broken into words the way both indexes tokenize text
+ */
+export function parseSearchTerms(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  
+  for (const match of query.matchAll(/"([^"]*)"|[^\s"]+/g)) {
+    const phrase = match[1] !== undefined;
+    const words = (match[1] ?? match[0]).toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    if (words.length > 0) {
+      terms.push({ words, phrase });
+    }
+  }
+  
+  return terms;
+}
+
+function prefixLast(terms: SearchTerm[]): boolean {
+  return terms.length > 0 && !terms[terms.length - 1].phrase;
+}
+
+/**
+ * FTS5 MATCH expression: every term quoted, so no user input is read as query syntax
+ */
+export function formatFtsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map((term, index) => {
+      const quoted = `"${term.words.join(' ')}"`;
+      return index === terms.length - 1 && prefixLast(terms) ? `${quoted}*` : quoted;
+    })
+    .join(' ');
+}
+
+/**
+ * tsquery for to_tsquery('simple', ...): words of a term follow each other, terms are ANDed
+ */
+export function formatTsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map((term, index) => {
+      const words = term.words.join(' <-> ');
+      return index === terms.length - 1 && prefixLast(terms) ? `${words}:*` : words;
+    })
+    .map(term => `(${term})`)
+    .join(' & ');
+}
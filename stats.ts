@@ -0,0 +1,145 @@
+/**
+ * Calendar statistics: counts per day and week, gaps between posts, failure rates and lead times
+ * Pure aggregation over already-loaded events; the MCP tools do the database work
+ */
+
+import { toWallClock } from './timezone-helpers.js';
+import type { EventStatus } from './schemas/validation.js';
+
+export interface StatsEvent {
+  id: string;
+  name: string;
+  trackId: string | null;
+  platform: string | null;
+  status: EventStatus;
+  scheduledTime: Date;
+  generationStartedAt: Date | null;
+  postTime: Date | null;
+  error: string | null;
+}
+
+export interface PeriodCount {
+  period: string; // YYYY-MM-DD of the day, or of the Monday starting the week
+  scheduled: number;
+  posted: number;
+}
+
+export interface Gap {
+  start: string;
+  end: string;
+  hours: number;
+}
+
+export interface FailureRate {
+  attempted: number;
+  failed: number;
+  rate: number; // 0-1
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * YYYY-MM-DD of an instant in a timezone
+ */
+export function localDate(date: Date, timeZone: string): string {
+  const wall = toWallClock(date, timeZone);
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+function weekKey(date: Date, timeZone: string): string {
+  const wall = toWallClock(date, timeZone);
+  const day = new Date(Date.UTC(wall.year, wall.month - 1, wall.day));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7)); // Back to Monday
+  return day.toISOString().slice(0, 10);
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Number of events with each value of `key`, largest first
+ */
+export function countBy(statsEvents: StatsEvent[], key: (event: StatsEvent) => string): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const event of statsEvents) {
+    counts.set(key(event), (counts.get(key(event)) ?? 0) + 1);
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]));
+}
+
+/**
+ * Scheduled and posted events per local day or week (weeks start on Monday), oldest first
+ * Cancelled events are left out
+ */
+export function countPerPeriod(statsEvents: StatsEvent[], period: 'day' | 'week', timeZone: string): PeriodCount[] {
+  const counts = new Map<string, PeriodCount>();
+  
+  for (const event of statsEvents) {
+    if (event.status === 'cancelled') continue;
+    
+    const key = period === 'day' ? localDate(event.scheduledTime, timeZone) : weekKey(event.scheduledTime, timeZone);
+    const count = counts.get(key) ?? { period: key, scheduled: 0, posted: 0 };
+    count.scheduled++;
+    if (event.status === 'posted') count.posted++;
+    counts.set(key, count);
+  }
+  
+  return [...counts.values()].sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Stretches of at least `minHours` with nothing scheduled between `from` and `to`
+ * The range edges count as boundaries, so an empty range is one gap
+ */
+export function findGaps(times: Date[], from: Date, to: Date, minHours: number): Gap[] {
+  const boundaries = [
+    from,
+    ...times.filter(time => time > from && time < to).sort((a, b) => a.getTime() - b.getTime()),
+    to
+  ];
+  const gaps: Gap[] = [];
+  
+  for (let i = 1; i < boundaries.length; i++) {
+    const hours = (boundaries[i].getTime() - boundaries[i - 1].getTime()) / 3600000;
+    if (hours >= minHours) {
+      gaps.push({ start: boundaries[i - 1].toISOString(), end: boundaries[i].toISOString(), hours: round(hours, 1) });
+    }
+  }
+  
+  return gaps;
+}
+
+/**
+ * Share of events that failed among those a worker started on
+ * An event failed if it is in the failed state or still carries an error
+ */
+export function failureRate(statsEvents: StatsEvent[]): FailureRate {
+  const attempted = statsEvents.filter(event =>
+    event.generationStartedAt || event.error || !['scheduled', 'cancelled'].includes(event.status)
+  );
+  const failed = attempted.filter(event => event.status === 'failed' || event.error);
+  
+  return {
+    attempted: attempted.length,
+    failed: failed.length,
+    rate: attempted.length > 0 ? round(failed.length / attempted.length, 3) : 0
+  };
+}
+
+/**
+ * Average hours from the start of generation to posting, over posted events that recorded both
+ */
+export function averageLeadTimeHours(statsEvents: StatsEvent[]): { hours: number | null; events: number } {
+  const leadTimes = statsEvents
+    .filter(event => event.status === 'posted' && event.generationStartedAt && event.postTime)
+    .map(event => event.postTime!.getTime() - event.generationStartedAt!.getTime());
+  
+  return {
+    hours: leadTimes.length > 0 ? round(leadTimes.reduce((sum, ms) => sum + ms, 0) / leadTimes.length / 3600000) : null,
+    events: leadTimes.length
+  };
+}
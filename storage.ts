@@ -0,0 +1,195 @@
+/**
+ * Storage backends: the workspace SQLite file, or PostgreSQL when POSTY_DATABASE_URL holds a connection string
+ * Tools build their queries with drizzle against the tables exported here, whichever backend is selected
+ */
+
+import Database from 'better-sqlite3';
+import pg from 'pg';
+import { drizzle as drizzleSqlite, type BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { drizzle as drizzlePostgres, type NodePgDatabase, type NodePgQueryResultHKT } from 'drizzle-orm/node-postgres';
+import type { PgTransaction } from 'drizzle-orm/pg-core';
+import { and, sql, type AnyColumn, type InferInsertModel, type InferSelectModel, type SQL, type Table } from 'drizzle-orm';
+import * as sqliteSchema from './schema-sqlite.js';
+import * as postgresSchema from './schema.js';
+import { getSchemaStatus, migrateDatabase, type SchemaStatus } from './migrations.js';
+import { getPostgresSchemaStatus, migratePostgres } from './migrations-postgres.js';
+import { formatFtsQuery, formatTsQuery, type SearchTerm } from './search.js';
+
+export type StorageBackend = 'sqlite' | 'postgres';
+
+/**
+ * Backend selected by POSTY_DATABASE_URL: unset means the workspace SQLite file
+ */
+export function getStorageBackend(): StorageBackend {
+  const url = process.env.POSTY_DATABASE_URL;
+  if (!url) {
+    return 'sqlite';
+  }
+  if (!/^postgres(ql)?:\/\//.test(url)) {
+    throw new Error('POSTY_DATABASE_URL must be a postgres:// or postgresql:// connection string');
+  }
+  return 'postgres';
+}
+
+type TableName =
+  | 'postyAccounts'
+  | 'tracks'
+  | 'eventSeries'
+  | 'events'
+  | 'eventApprovals'
+  | 'eventRevisions'
+  | 'trashItems'
+  | 'cadenceRules'
+  | 'automations';
+type SqliteTables = Pick<typeof sqliteSchema, TableName>;
+type PostgresTables = Pick<typeof postgresSchema, TableName>;
+
+// What a tool sees of a table: the rows it reads and the rows it writes
+type TableRows<T extends Table> = [InferSelectModel<T>, InferInsertModel<T>];
+type SameRows<A extends Table, B extends Table> = TableRows<A> extends TableRows<B>
+  ? (TableRows<B> extends TableRows<A> ? true : false)
+  : false;
+type ExpectTrue<T extends true> = T;
+
+// Fails to compile as soon as a Postgres table reads or writes different rows than its SQLite twin
+type SchemasMatch = ExpectTrue<{ [K in TableName]: SameRows<SqliteTables[K], PostgresTables[K]> }[TableName]>;
+
+// Queries are written once, typed against the SQLite tables and database. drizzle types every query for a
+// single dialect, so the Postgres tables and database are used under those types: SchemasMatch guarantees
+// the rows agree, and the tests run every scenario on both backends to catch SQL the other dialect rejects
+export type TimelineDatabase = BetterSQLite3Database;
+
+function asQueryTables(tables: PostgresTables): SqliteTables {
+  return tables as unknown as SqliteTables;
+}
+
+function asQueryDatabase(db: NodePgDatabase | PgTransaction<NodePgQueryResultHKT>): TimelineDatabase {
+  return db as unknown as TimelineDatabase;
+}
+
+// The tables queries are built with; they point at the SQLite ones until a Postgres storage is opened
+export let { postyAccounts, tracks, eventSeries, events, eventApprovals, eventRevisions, trashItems, cadenceRules, automations }: SqliteTables = sqliteSchema;
+
+let selectedBackend: StorageBackend = 'sqlite';
+
+function useBackend(backend: StorageBackend) {
+  selectedBackend = backend;
+  ({ postyAccounts, tracks, eventSeries, events, eventApprovals, eventRevisions, trashItems, cadenceRules, automations } =
+    backend === 'postgres' ? asQueryTables(postgresSchema) : sqliteSchema);
+}
+
+export interface EventSearch {
+  source: SQL; // Joined to events with `on`, which only keeps matching events
+  on: SQL;
+  rank: SQL<number>; // Higher is a better match
+  name: SQL<string>; // Matches wrapped in **
+  prompt: SQL<string | null>; // Excerpt around the matches
+  metadata: SQL<string | null>;
+}
+
+/**
+ * Full-text match of events against search terms: the timeline_events_fts index on SQLite,
+ * the events' search_vector column on PostgreSQL
+ */
+export function eventSearch(terms: SearchTerm[]): EventSearch {
+  if (selectedBackend === 'postgres') {
+    const headline = (text: SQL, options: string) =>
+      sql<string>`ts_headline('simple', ${text}, search_query, ${options})`;
+    const excerpt = 'StartSel=**, StopSel=**, MinWords=8, MaxWords=24';
+    
+    return {
+      source: sql`to_tsquery('simple', ${formatTsQuery(terms)}) AS search_query`,
+      on: sql`${events}.search_vector @@ search_query`,
+      rank: sql<number>`ts_rank(${events}.search_vector, search_query)`.mapWith(Number),
+      name: headline(sql`${events.name}`, 'StartSel=**, StopSel=**, HighlightAll=true'),
+      prompt: headline(sql`coalesce(${events.prompt}, '')`, excerpt),
+      metadata: headline(sql`coalesce(${events.metadata}::text, '')`, excerpt)
+    };
+  }
+  
+  return {
+    source: sql`timeline_events_fts`,
+    on: and(
+      sql`timeline_events_fts.event_id = ${events}.id`,
+      sql`timeline_events_fts MATCH ${formatFtsQuery(terms)}`
+    )!,
+    // bm25 is lower for better matches; name counts most, metadata least, the event_id column not at all
+    rank: sql<number>`-bm25(timeline_events_fts, 0.0, 10.0, 4.0, 1.0)`.mapWith(Number),
+    name: sql<string>`highlight(timeline_events_fts, 1, '**', '**')`,
+    prompt: sql<string>`snippet(timeline_events_fts, 2, '**', '**', '…', 24)`,
+    metadata: sql<string>`snippet(timeline_events_fts, 3, '**', '**', '…', 12)`
+  };
+}
+
+// A write inside a transaction; SQLite runs it synchronously, Postgres awaits it
+type TransactionWrite = { run(): unknown } & PromiseLike<unknown>;
+
+export interface Storage {
+  backend: StorageBackend;
+  location: string; // Database file, or the connection string without its password
+  db: TimelineDatabase;
+  getStatus(): Promise<SchemaStatus>;
+  migrate(): Promise<{ version: number; name: string }[]>;
+  transaction(build: (tx: TimelineDatabase) => TransactionWrite[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Condition that a JSON array column (text on SQLite, jsonb on PostgreSQL) is missing, empty or contains `value`
+ */
+export function jsonArrayEmptyOrContains(column: AnyColumn, value: string): SQL {
+  if (selectedBackend === 'postgres') {
+    return sql`(${column} IS NULL OR jsonb_array_length(${column}) = 0 OR ${column} @> jsonb_build_array(${value}::text))`;
+  }
+  return sql`(${column} IS NULL OR json_array_length(${column}) = 0 OR EXISTS (SELECT 1 FROM json_each(${column}) WHERE json_each.value = ${value}))`;
+}
+
+export function openSqliteStorage(dbPath: string): Storage {
+  const sqlite = new Database(dbPath);
+  const db = drizzleSqlite(sqlite);
+  useBackend('sqlite');
+  
+  return {
+    backend: 'sqlite',
+    location: dbPath,
+    db,
+    getStatus: async () => getSchemaStatus(sqlite),
+    migrate: async () => migrateDatabase(sqlite),
+    transaction: async (build) => {
+      // better-sqlite3 transactions must not await, so the writes run one after another synchronously
+      db.transaction((tx) => {
+        for (const write of build(tx)) {
+          write.run();
+        }
+      });
+    },
+    close: async () => {
+      sqlite.close();
+    }
+  };
+}
+
+export function openPostgresStorage(url: string): Storage {
+  const pool = new pg.Pool({ connectionString: url });
+  const db = drizzlePostgres(pool);
+  useBackend('postgres');
+  
+  const location = new URL(url);
+  location.password = '';
+  
+  return {
+    backend: 'postgres',
+    location: location.toString(),
+    db: asQueryDatabase(db),
+    getStatus: () => getPostgresSchemaStatus(pool),
+    migrate: () => migratePostgres(pool),
+    transaction: async (build) => {
+      await db.transaction(async (tx) => {
+        for (const write of build(asQueryDatabase(tx))) {
+          await write;
+        }
+      });
+    },
+    close: () => pool.end()
+  };
+}
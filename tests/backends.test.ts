@@ -0,0 +1,503 @@
+/**
+ * The same scenarios against both storage backends, so SQL one dialect rejects or maps differently shows up here
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { startServer, type TestServer } from './harness.js';
+import type { StorageBackend } from '../storage.js';
+
+const BACKENDS: StorageBackend[] = ['sqlite', 'postgres'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+for (const backend of BACKENDS) {
+  describe(`${backend} backend`, () => {
+    let server: TestServer;
+    
+    before(async () => {
+      server = await startServer(backend);
+    });
+    
+    after(async () => {
+      await server?.close();
+    });
+    
+    it('adds, lists and updates events', async () => {
+      const track = await server.call('timeline_add_track', { name: 'Basics', timezone: 'Europe/Berlin' });
+      assert.equal(track.success, true);
+      
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Basics',
+        eventName: 'Launch post',
+        prompt: 'Announce the launch',
+        scheduledTime: '2030-03-04T10:00',
+        platform: 'linkedin',
+        metadata: { hashtags: ['launch'] }
+      });
+      assert.equal(added.success, true);
+      assert.equal(added.event.scheduledTime, '2030-03-04T09:00:00.000Z');
+      assert.deepEqual(added.event.metadata, { hashtags: ['launch'] });
+      
+      const updated = await server.call('timeline_update_scheduled_event', {
+        eventId: added.event.id,
+        updates: { name: 'Launch day', scheduledTime: '2030-03-04T11:30' }
+      });
+      assert.equal(updated.success, true);
+      
+      const listed = await server.call('timeline_list_scheduled_events', { trackId: track.track.id });
+      assert.equal(listed.events.length, 1);
+      assert.equal(listed.events[0].name, 'Launch day');
+      assert.equal(listed.events[0].scheduledTime, '2030-03-04T10:30:00.000Z');
+      assert.equal(listed.events[0].platform, 'linkedin');
+      assert.equal(listed.events[0].status, 'scheduled');
+    });
+    
+    it('runs an event through generation, approval and posting', async () => {
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Lifecycle',
+        eventName: 'Release notes',
+        prompt: 'Summarize the release',
+        scheduledTime: '2030-04-01T10:00:00Z'
+      });
+      const eventId = added.event.id;
+      
+      assert.equal((await server.call('timeline_mark_generation_started', { eventId, sessionId: 's1' })).success, true);
+      assert.equal((await server.call('timeline_mark_generated', { eventId })).success, true);
+      assert.equal((await server.call('timeline_request_approval', { eventId, reviewers: ['alice'] })).success, true);
+      
+      const awaiting = await server.call('timeline_list_scheduled_events', { awaitingApprovalBy: 'alice' });
+      assert.deepEqual(awaiting.events.map((event: { id: string }) => event.id), [eventId]);
+      
+      assert.equal((await server.call('timeline_approve_event', { eventId, reviewer: 'alice' })).success, true);
+      assert.equal((await server.call('timeline_mark_posting_started', { eventId })).success, true);
+      const posted = await server.call('timeline_mark_posted', { eventId, postedUrl: 'https://example.com/post/1' });
+      assert.equal(posted.success, true);
+      
+      const listed = await server.call('timeline_list_scheduled_events', { trackId: added.event.trackId, status: 'posted' });
+      assert.equal(listed.events.length, 1);
+      assert.equal(listed.events[0].postedUrl, 'https://example.com/post/1');
+      
+      const history = await server.call('timeline_get_approval_history', { eventId });
+      assert.deepEqual(history.history.map((entry: { action: string }) => entry.action), ['requested', 'approved']);
+    });
+    
+    it('claims due events under a lease', async () => {
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Leases',
+        eventName: 'Overdue',
+        prompt: 'p',
+        scheduledTime: '2020-01-01T10:00:00Z'
+      });
+      const eventId = added.event.id;
+      
+      const first = await server.call('timeline_claim_due_events', { workerId: 'w1', phase: 'generation', limit: 5 });
+      assert.deepEqual(first.events.map((event: { id: string }) => event.id), [eventId]);
+      
+      const second = await server.call('timeline_claim_due_events', { workerId: 'w2', phase: 'generation', limit: 5 });
+      assert.deepEqual(second.events, []);
+      
+      assert.equal((await server.call('timeline_heartbeat_lease', { eventId, workerId: 'w1' })).success, true);
+      assert.equal((await server.call('timeline_release_lease', { eventId, workerId: 'w1' })).success, true);
+      
+      const third = await server.call('timeline_claim_due_events', { workerId: 'w2', phase: 'generation', limit: 5 });
+      assert.deepEqual(third.events.map((event: { id: string }) => event.id), [eventId]);
+    });
+    
+    it('claims approved events for posting', async () => {
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Leases',
+        eventName: 'Approved overdue',
+        prompt: 'p',
+        scheduledTime: '2020-01-02T10:00:00Z'
+      });
+      const eventId = added.event.id;
+      
+      await server.call('timeline_mark_generation_started', { eventId });
+      await server.call('timeline_mark_generated', { eventId });
+      await server.call('timeline_update_scheduled_event', { eventId, updates: { approved: true } });
+      
+      const claimed = await server.call('timeline_claim_due_events', { workerId: 'w1', phase: 'posting', limit: 5 });
+      assert.deepEqual(claimed.events.map((event: { id: string }) => event.id), [eventId]);
+      assert.equal(claimed.events[0].status, 'posting');
+      assert.equal(claimed.events[0].reclaimed, false);
+    });
+    
+    it('expands recurring series and removes the following occurrences', async () => {
+      // Occurrences are only created a few weeks ahead, so the series starts next week
+      const start = new Date(Date.now() + 7 * DAY_MS);
+      start.setUTCHours(9, 0, 0, 0);
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Series',
+        eventName: 'Weekly tip',
+        prompt: 'Share a tip',
+        scheduledTime: start.toISOString(),
+        recurrence: { rrule: 'FREQ=WEEKLY;COUNT=4' }
+      });
+      assert.equal(added.success, true);
+      
+      const listed = await server.call('timeline_list_scheduled_events', { trackId: added.series.trackId });
+      assert.equal(listed.events.length, 4);
+      
+      const removed = await server.call('timeline_remove_scheduled_event', { eventId: listed.events[2].id, scope: 'following' });
+      assert.equal(removed.success, true);
+      
+      const remaining = await server.call('timeline_list_scheduled_events', { trackId: added.series.trackId });
+      assert.deepEqual(
+        remaining.events.map((event: { scheduledTime: string }) => event.scheduledTime),
+        [start.toISOString(), new Date(start.getTime() + 7 * DAY_MS).toISOString()]
+      );
+    });
+    
+    it('leaves occurrences being generated alone when the series changes', async () => {
+      const start = new Date(Date.now() + 7 * DAY_MS);
+      start.setUTCHours(15, 0, 0, 0);
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Series in progress',
+        eventName: 'Weekly update',
+        prompt: 'Share an update',
+        scheduledTime: start.toISOString(),
+        recurrence: { rrule: 'FREQ=WEEKLY;COUNT=3' }
+      });
+      const trackId = added.series.trackId;
+      const [first, second] = (await server.call('timeline_list_scheduled_events', { trackId })).events;
+      await server.call('timeline_mark_generation_started', { eventId: second.id });
+      
+      const moved = new Date(start.getTime() + 60 * 60 * 1000);
+      const updated = await server.call('timeline_update_scheduled_event', {
+        eventId: first.id,
+        scope: 'series',
+        updates: { scheduledTime: moved.toISOString() }
+      });
+      assert.equal(updated.success, true);
+      assert.equal(updated.updatedEvents, 0);
+      assert.equal(updated.removedEvents, 2);
+      assert.equal(updated.events.length, 2);
+      
+      const listed = await server.call('timeline_list_scheduled_events', { trackId });
+      assert.deepEqual(
+        listed.events.map((event: { scheduledTime: string; status: string }) => [event.scheduledTime, event.status]),
+        [
+          [moved.toISOString(), 'scheduled'],
+          [second.scheduledTime, 'generating'],
+          [new Date(moved.getTime() + 14 * DAY_MS).toISOString(), 'scheduled']
+        ]
+      );
+      
+      const removed = await server.call('timeline_remove_scheduled_event', { eventId: listed.events[0].id, scope: 'series' });
+      assert.equal(removed.deletedEvents, 2);
+      assert.equal(removed.keptEvents, 1);
+      assert.deepEqual((await server.call('timeline_list_scheduled_events', { trackId })).events.map((event: { id: string }) => event.id), [second.id]);
+    });
+    
+    it('searches event names, prompts and metadata', async () => {
+      await server.call('timeline_add_scheduled_event', {
+        trackName: 'Search',
+        eventName: 'Aquilo chat launch',
+        prompt: 'Announce the Aquilo AI chat',
+        scheduledTime: '2030-06-01T10:00:00Z',
+        platform: 'reddit',
+        metadata: { targetSubreddit: 'aquilofans' }
+      });
+      const recap = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Search',
+        eventName: 'Weekly recap',
+        prompt: 'Mention the Aquilo roadmap',
+        scheduledTime: '2030-06-02T10:00:00Z'
+      });
+      
+      const both = await server.call('timeline_search_events', { query: 'aquilo' });
+      assert.equal(both.pagination.total, 2);
+      assert.equal(both.results[0].name, 'Aquilo chat launch');
+      
+      const phrase = await server.call('timeline_search_events', { query: '"aquilo ai" cha' });
+      assert.deepEqual(phrase.results.map((result: { name: string }) => result.name), ['Aquilo chat launch']);
+      
+      const metadata = await server.call('timeline_search_events', { query: 'aquilofans', platform: 'reddit' });
+      assert.equal(metadata.pagination.total, 1);
+      
+      await server.call('timeline_update_scheduled_event', { eventId: recap.event.id, updates: { name: 'Monthly digest' } });
+      assert.equal((await server.call('timeline_search_events', { query: 'recap' })).pagination.total, 0);
+      assert.equal((await server.call('timeline_search_events', { query: 'digest' })).pagination.total, 1);
+    });
+    
+    it('moves removed events to the trash and restores them', async () => {
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Trash',
+        eventName: 'Keep me',
+        prompt: 'p',
+        scheduledTime: '2030-07-01T10:00:00Z'
+      });
+      
+      const removed = await server.call('timeline_remove_scheduled_event', { eventId: added.event.id });
+      assert.equal(removed.success, true);
+      assert.equal((await server.call('timeline_list_scheduled_events', { trackId: added.event.trackId })).events.length, 0);
+      
+      const trash = await server.call('timeline_list_trash');
+      assert.ok(trash.items.some((item: { id: string }) => item.id === removed.trashId));
+      
+      const restored = await server.call('timeline_restore', { trashId: removed.trashId });
+      assert.equal(restored.success, true);
+      assert.equal((await server.call('timeline_list_scheduled_events', { trackId: added.event.trackId })).events.length, 1);
+    });
+    
+    it('records revisions and undoes the last change', async () => {
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'History',
+        eventName: 'First draft',
+        prompt: 'p',
+        scheduledTime: '2030-08-01T10:00:00Z'
+      });
+      const eventId = added.event.id;
+      await server.call('timeline_update_scheduled_event', { eventId, updates: { name: 'Second draft' } });
+      
+      const history = await server.call('timeline_get_event_history', { eventId });
+      assert.equal(history.revisions.length, 2);
+      assert.deepEqual(history.revisions[0].changes.name, { from: 'First draft', to: 'Second draft' });
+      
+      assert.equal((await server.call('timeline_undo_last_change', { eventId })).success, true);
+      const listed = await server.call('timeline_list_scheduled_events', { trackId: added.event.trackId });
+      assert.equal(listed.events[0].name, 'First draft');
+    });
+    
+    it('enforces cadence rules and finds open slots', async () => {
+      const rule = await server.call('timeline_set_cadence_rule', { scope: 'platform', platform: 'x', minSpacingMinutes: 60, maxPerDay: 2 });
+      assert.equal(rule.success, true);
+      
+      const first = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Cadence',
+        eventName: 'Morning',
+        prompt: 'p',
+        scheduledTime: '2030-09-02T10:00:00Z',
+        platform: 'x'
+      });
+      assert.equal(first.success, true);
+      
+      const tooClose = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Cadence',
+        eventName: 'Too close',
+        prompt: 'p',
+        scheduledTime: '2030-09-02T10:30:00Z',
+        platform: 'x'
+      });
+      assert.equal(tooClose.success, false);
+      assert.equal(tooClose.conflicts[0].type, 'min_spacing');
+      
+      const overridden = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Cadence',
+        eventName: 'Too close',
+        prompt: 'p',
+        scheduledTime: '2030-09-02T10:30:00Z',
+        platform: 'x',
+        overrideCadence: true
+      });
+      assert.equal(overridden.success, true);
+      
+      const check = await server.call('timeline_check_schedule', { platform: 'x' });
+      assert.equal(check.conflictCount, 2);
+      
+      const slots = await server.call('timeline_find_open_slots', {
+        platform: 'x',
+        trackName: 'Cadence',
+        startDate: '2030-09-02',
+        endDate: '2030-09-03',
+        count: 2,
+        timezone: 'UTC'
+      });
+      assert.equal(slots.success, true);
+      assert.equal(slots.slots.length, 2);
+      assert.ok(slots.slots.every((slot: { scheduledTime: string }) => slot.scheduledTime.startsWith('2030-09-03')));
+    });
+    
+    it('checks rescheduled series occurrences against cadence rules', async () => {
+      // The x rule from the previous test still applies: posts at least 60 minutes apart
+      const start = new Date(Date.now() + 10 * DAY_MS);
+      start.setUTCHours(12, 0, 0, 0);
+      const hour = 60 * 60 * 1000;
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Cadence series',
+        eventName: 'Weekly check-in',
+        prompt: 'p',
+        scheduledTime: start.toISOString(),
+        platform: 'x',
+        recurrence: { rrule: 'FREQ=WEEKLY;COUNT=2' }
+      });
+      assert.equal(added.success, true);
+      await server.call('timeline_add_scheduled_event', {
+        trackName: 'Cadence series',
+        eventName: 'Neighbour',
+        prompt: 'p',
+        scheduledTime: new Date(start.getTime() + 7 * DAY_MS + 1.5 * hour).toISOString(),
+        platform: 'x'
+      });
+      const [first, second] = added.events;
+      
+      const following = await server.call('timeline_update_scheduled_event', {
+        eventId: second.id,
+        scope: 'following',
+        updates: { scheduledTime: new Date(start.getTime() + 7 * DAY_MS + hour).toISOString() }
+      });
+      assert.equal(following.success, false);
+      assert.equal(following.conflicts[0].type, 'min_spacing');
+      
+      const updates = { scheduledTime: new Date(start.getTime() + hour).toISOString() };
+      const series = await server.call('timeline_update_scheduled_event', { eventId: first.id, scope: 'series', updates });
+      assert.equal(series.success, false);
+      assert.equal(series.occurrence.scheduledTime, new Date(start.getTime() + 7 * DAY_MS + hour).toISOString());
+      
+      const overridden = await server.call('timeline_update_scheduled_event', { eventId: first.id, scope: 'series', updates, overrideCadence: true });
+      assert.equal(overridden.success, true);
+      assert.equal(overridden.events.length, 2);
+    });
+    
+    it('manages automations and reports the due ones', async () => {
+      const track = await server.call('timeline_add_track', { name: 'Inbox', type: 'automation' });
+      const added = await server.call('timeline_add_automation', {
+        trackId: track.track.id,
+        name: 'Check DMs',
+        trigger: { type: 'interval', every: '30m' },
+        actions: [{ type: 'prompt', prompt: 'Reply to DMs' }]
+      });
+      assert.equal(added.success, true);
+      const automationId = added.automation.id;
+      
+      const listed = await server.call('timeline_list_automations');
+      assert.equal(listed.pagination.total, 1);
+      
+      const due = await server.call('timeline_get_due_automations', { asOf: '2099-01-01T00:00:00Z' });
+      assert.deepEqual(due.automations.map((automation: { id: string }) => automation.id), [automationId]);
+      assert.deepEqual(due.errors, []);
+      
+      assert.equal((await server.call('timeline_record_automation_run', { automationId, status: 'success', output: 'done' })).success, true);
+      assert.equal((await server.call('timeline_disable_automation', { automationId })).success, true);
+      assert.equal((await server.call('timeline_remove_automation', { automationId })).success, true);
+      assert.equal((await server.call('timeline_list_automations')).pagination.total, 0);
+    });
+    
+    it('exports events to CSV and imports them back', async () => {
+      const added = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Export',
+        eventName: 'Exported, with "quotes"',
+        prompt: 'Line one\nline two',
+        scheduledTime: '2030-10-01T10:00:00Z',
+        platform: 'x'
+      });
+      
+      const exported = await server.call('timeline_export_events', { trackId: added.event.trackId, fileName: 'export.csv' });
+      assert.equal(exported.success, true);
+      assert.equal(exported.eventCount, 1);
+      
+      const csv = await fs.readFile(path.join(server.workspace, exported.filePath), 'utf8');
+      const reimport = csv.replace(/Exported, with ""quotes""/, 'Imported, with ""quotes""');
+      await fs.writeFile(path.join(server.workspace, 'import.csv'), reimport);
+      
+      const imported = await server.call('timeline_import_events', { filePath: 'import.csv' });
+      assert.equal(imported.success, true);
+      assert.deepEqual(imported.errors, []);
+      
+      const listed = await server.call('timeline_list_scheduled_events', { trackId: added.event.trackId });
+      assert.equal(listed.events.length, 1);
+      assert.equal(listed.events[0].name, 'Imported, with "quotes"');
+      assert.equal(listed.events[0].prompt, 'Line one\nline two');
+    });
+    
+    it('skips calendar moves of events in progress or into the past', async () => {
+      const busy = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Calendar',
+        eventName: 'Busy',
+        prompt: 'p',
+        scheduledTime: '2030-11-01T10:00:00Z'
+      });
+      const idle = await server.call('timeline_add_scheduled_event', {
+        trackName: 'Calendar',
+        eventName: 'Idle',
+        prompt: 'p',
+        scheduledTime: '2030-11-02T10:00:00Z'
+      });
+      await server.call('timeline_mark_generation_started', { eventId: busy.event.id });
+      
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        `UID:${busy.event.id}@timeline-mcp`,
+        'SUMMARY:Busy',
+        'DESCRIPTION:p',
+        'DTSTART:20301101T120000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        `UID:${idle.event.id}@timeline-mcp`,
+        'SUMMARY:Idle',
+        'DESCRIPTION:p',
+        'DTSTART:20200101T120000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        ''
+      ].join('\r\n');
+      await fs.writeFile(path.join(server.workspace, 'moves.ics'), ics);
+      
+      const imported = await server.call('timeline_import_ics', { filePath: 'moves.ics', trackName: 'Calendar' });
+      assert.deepEqual(imported.updated, []);
+      assert.deepEqual(
+        imported.skipped.map((entry: { reason: string }) => entry.reason),
+        ['Cannot change an event that is generating', 'Scheduled time is in the past']
+      );
+    });
+    
+    it('refuses to import files outside the workspace', async () => {
+      const outside = path.join(path.dirname(server.workspace), `${path.basename(server.workspace)}-outside`);
+      await fs.writeFile(`${outside}.ics`, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+      await fs.writeFile(`${outside}.csv`, 'track,name,prompt,scheduledTime\n');
+      try {
+        for (const filePath of [`${outside}.ics`, path.relative(server.workspace, `${outside}.ics`)]) {
+          const imported = await server.call('timeline_import_ics', { filePath, trackName: 'Outside' });
+          assert.equal(imported.success, false);
+          assert.equal(imported.error, 'Path must be inside the workspace');
+        }
+        for (const filePath of [`${outside}.csv`, path.relative(server.workspace, `${outside}.csv`)]) {
+          const imported = await server.call('timeline_import_events', { filePath });
+          assert.equal(imported.success, false);
+          assert.equal(imported.error, 'Path must be inside the workspace');
+        }
+      } finally {
+        await fs.rm(`${outside}.ics`, { force: true });
+        await fs.rm(`${outside}.csv`, { force: true });
+      }
+    });
+    
+    it('reports stats, agendas and accounts', async () => {
+      const stats = await server.call('timeline_get_stats', { startDate: '2030-01-01', endDate: '2030-12-31', timezone: 'UTC' });
+      assert.ok(stats.totals.events > 0);
+      assert.ok(stats.totals.posted > 0);
+      
+      const agenda = await server.call('timeline_get_agenda', { mode: 'day', date: '2030-03-04', timezone: 'Europe/Berlin' });
+      assert.match(JSON.stringify(agenda), /Launch day/);
+      
+      const accounts = await server.call('timeline_list_accounts');
+      assert.equal(accounts.accounts.length, 1);
+      assert.ok(accounts.accounts[0].eventCount > 0);
+    });
+    
+    // Last, since migrations only run once a tool first uses the database
+    it('reports an up-to-date schema', async () => {
+      const status = await server.call('timeline_db_status');
+      assert.equal(status.success, true);
+      assert.equal(status.backend, backend);
+      assert.equal(status.currentVersion, status.latestVersion);
+      assert.deepEqual(status.pending, []);
+    });
+  });
+}
+
+describe('storage selection', () => {
+  it('reports a malformed POSTY_DATABASE_URL when a tool runs instead of failing to start', async () => {
+    const server = await startServer('sqlite', { POSTY_DATABASE_URL: 'mysql://localhost/timeline' });
+    try {
+      await assert.rejects(server.call('timeline_list_tracks'), /POSTY_DATABASE_URL must be a postgres/);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Lifecycle transitions and the statuses derived from the content flags
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EVENT_TRANSITIONS, canTransition, getEventStatus } from '../event-lifecycle.js';
+import type { EventStatus } from '../schemas/validation.js';
+
+const ACTIVE: EventStatus[] = ['scheduled', 'generating', 'generated', 'awaiting_approval', 'rejected', 'approved', 'posting'];
+
+describe('EVENT_TRANSITIONS', () => {
+  const cases: [EventStatus, EventStatus, boolean][] = [
+    ['scheduled', 'generating', true],
+    ['scheduled', 'approved', false],
+    ['generating', 'generated', true],
+    ['generated', 'awaiting_approval', true],
+    ['awaiting_approval', 'rejected', true],
+    ['rejected', 'generating', true],
+    ['approved', 'posting', true],
+    ['posting', 'posted', true],
+    ['posting', 'cancelled', false],
+    ['posted', 'failed', false],
+    ['posted', 'cancelled', false],
+    ['failed', 'generating', true],
+    ['cancelled', 'approved', true],
+    ['cancelled', 'posting', false]
+  ];
+  
+  for (const [from, to, allowed] of cases) {
+    it(`${allowed ? 'allows' : 'rejects'} ${from} → ${to}`, () => {
+      assert.equal(canTransition(from, to), allowed);
+    });
+  }
+  
+  it('lets every active state fail', () => {
+    for (const from of ACTIVE) {
+      assert.ok(canTransition(from, 'failed'), `${from} → failed`);
+    }
+  });
+  
+  it('lets every active state but posting be cancelled', () => {
+    for (const from of ACTIVE) {
+      assert.equal(canTransition(from, 'cancelled'), from !== 'posting', `${from} → cancelled`);
+    }
+  });
+  
+  it('only leads to known statuses', () => {
+    for (const targets of Object.values(EVENT_TRANSITIONS)) {
+      for (const to of targets) {
+        assert.ok(to in EVENT_TRANSITIONS, to);
+      }
+    }
+  });
+});
+
+describe('getEventStatus', () => {
+  const flags = { contentGenerated: 0, approved: 0, posted: 0, generationStarted: 0 };
+  const cases: [string, Parameters<typeof getEventStatus>[0], EventStatus][] = [
+    ['a lifecycle status', { ...flags, status: 'awaiting_approval', contentGenerated: 1 }, 'awaiting_approval'],
+    ['no status and no progress', { ...flags, status: null }, 'scheduled'],
+    ['no status once generation started', { ...flags, status: null, generationStarted: 1 }, 'generating'],
+    ['"scheduled" with approved content', { ...flags, status: 'scheduled', contentGenerated: 1, approved: 1 }, 'approved'],
+    ['an unknown status with posted content', { ...flags, status: 'legacy', contentGenerated: 1, approved: 1, posted: 1 }, 'posted']
+  ];
+  
+  for (const [label, event, expected] of cases) {
+    it(`derives ${expected} from ${label}`, () => {
+      assert.equal(getEventStatus(event), expected);
+    });
+  }
+});
@@ -0,0 +1,90 @@
+/**
+ * Test harness: runs the MCP server against a fresh SQLite workspace or an in-process Postgres (PGlite)
+ * and calls its tools over stdio, the way a client does
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import type { StorageBackend } from '../storage.js';
+
+const ROOT = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+
+// Parsed JSON a tool returned
+export type ToolResponse = Record<string, any>;
+
+export interface TestServer {
+  workspace: string;
+  call(tool: string, args?: Record<string, unknown>): Promise<ToolResponse>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the server on a new, empty database of the given backend, with any extra environment variables
+ */
+export async function startServer(backend: StorageBackend, extraEnv: Record<string, string> = {}): Promise<TestServer> {
+  const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'timeline-mcp-test-'));
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && !key.startsWith('POSTY_')) {
+      env[key] = value;
+    }
+  }
+  env.POSTY_WORKSPACE = workspace;
+  
+  let postgres: { db: PGlite; server: PGLiteSocketServer } | null = null;
+  if (backend === 'postgres') {
+    const db = await PGlite.create();
+    // Port 0 picks a free port; the pool opens several connections
+    const server = new PGLiteSocketServer({ db, port: 0, maxConnections: 20 });
+    await server.start();
+    postgres = { db, server };
+    env.POSTY_DATABASE_URL = `postgres://postgres@${server.getServerConn()}/postgres`;
+  }
+  Object.assign(env, extraEnv);
+  
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', path.join(ROOT, 'timeline-fastmcp.ts')],
+    cwd: ROOT,
+    env,
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'timeline-mcp-tests', version: '1.0.0' });
+  
+  const cleanUp = async () => {
+    if (postgres) {
+      await postgres.server.stop();
+      await postgres.db.close();
+    }
+    await fs.rm(workspace, { recursive: true, force: true });
+  };
+  
+  try {
+    await client.connect(transport);
+  } catch (error) {
+    await cleanUp();
+    throw error;
+  }
+  
+  return {
+    workspace,
+    call: async (tool, args = {}) => {
+      const result = await client.callTool({ name: tool, arguments: args });
+      const [content] = result.content as { type: string; text: string }[];
+      if (result.isError) {
+        throw new Error(`${tool} failed: ${content.text}`);
+      }
+      return JSON.parse(content.text);
+    },
+    close: async () => {
+      await client.close();
+      await cleanUp();
+    }
+  };
+}
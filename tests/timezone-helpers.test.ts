@@ -0,0 +1,46 @@
+/**
+ * Wall-clock conversions around DST changes
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fromWallClock, parseDateTimeInZone, formatInTimeZone } from '../timezone-helpers.js';
+
+const NEW_YORK = 'America/New_York';
+
+describe('fromWallClock', () => {
+  it('converts ordinary times with the offset in effect', () => {
+    assert.equal(
+      fromWallClock({ year: 2025, month: 7, day: 1, hour: 9, minute: 0, second: 0 }, NEW_YORK).toISOString(),
+      '2025-07-01T13:00:00.000Z'
+    );
+    assert.equal(
+      fromWallClock({ year: 2025, month: 1, day: 15, hour: 9, minute: 0, second: 0 }, NEW_YORK).toISOString(),
+      '2025-01-15T14:00:00.000Z'
+    );
+  });
+  
+  it('resolves a time skipped by the spring-forward change forward', () => {
+    const skipped = fromWallClock({ year: 2025, month: 3, day: 9, hour: 2, minute: 30, second: 0 }, NEW_YORK);
+    assert.equal(skipped.toISOString(), '2025-03-09T07:30:00.000Z');
+    assert.equal(formatInTimeZone(skipped, NEW_YORK), '2025-03-09T03:30:00-04:00');
+    
+    // The hours either side of the gap are unaffected
+    assert.equal(parseDateTimeInZone('2025-03-09T01:59', NEW_YORK).toISOString(), '2025-03-09T06:59:00.000Z');
+    assert.equal(parseDateTimeInZone('2025-03-09T03:00', NEW_YORK).toISOString(), '2025-03-09T07:00:00.000Z');
+  });
+  
+  it('resolves a time repeated by the fall-back change to its first occurrence', () => {
+    const repeated = fromWallClock({ year: 2025, month: 11, day: 2, hour: 1, minute: 30, second: 0 }, NEW_YORK);
+    assert.equal(repeated.toISOString(), '2025-11-02T05:30:00.000Z');
+    assert.equal(formatInTimeZone(repeated, NEW_YORK), '2025-11-02T01:30:00-04:00');
+    
+    assert.equal(parseDateTimeInZone('2025-11-02T02:00', NEW_YORK).toISOString(), '2025-11-02T07:00:00.000Z');
+  });
+  
+  it('handles zones east of UTC and zones without DST', () => {
+    assert.equal(parseDateTimeInZone('2025-03-30T02:30', 'Europe/Berlin').toISOString(), '2025-03-30T01:30:00.000Z');
+    assert.equal(parseDateTimeInZone('2025-10-26T02:30', 'Europe/Berlin').toISOString(), '2025-10-26T00:30:00.000Z');
+    assert.equal(parseDateTimeInZone('2025-03-09T02:30', 'UTC').toISOString(), '2025-03-09T02:30:00.000Z');
+  });
+});
@@ -1,22 +1,105 @@
 #!/usr/bin/env node
-import { FastMCP } from 'fastmcp';
+import { FastMCP, FastMCPSession } from 'fastmcp';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { drizzle } from 'drizzle-orm/better-sqlite3';
-import Database from 'better-sqlite3';
-import { eq, and, asc, desc } from 'drizzle-orm';
+import { eq, and, or, not, asc, desc, lt, lte, gt, gte, like, isNotNull, isNull, inArray, notInArray, sql, type SQL } from 'drizzle-orm';
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import { v4 as uuidv4 } from 'uuid';
-import { tracks, events, postyAccounts } from './schema-sqlite.js';
+import type {
+  Track,
+  Event,
+  NewEvent,
+  NewTrack,
+  EventSeries,
+  EventApproval,
+  EventRevision,
+  TrashItem,
+  CadenceRule,
+  Automation
+} from './schema-sqlite.js';
+import {
+  tracks,
+  events,
+  eventSeries,
+  eventApprovals,
+  eventRevisions,
+  trashItems,
+  cadenceRules,
+  automations,
+  postyAccounts,
+  getStorageBackend,
+  openSqliteStorage,
+  openPostgresStorage,
+  eventSearch,
+  jsonArrayEmptyOrContains,
+  type Storage,
+  type TimelineDatabase
+} from './storage.js';
 import {
   platformSchema,
   agentSchema,
   isoDateTimeSchema,
+  automationTriggerSchema,
+  automationActionSchema,
+  automationEndConditionSchema,
+  timezoneSchema,
+  recurrenceSchema,
+  seriesScopeSchema,
+  eventStatusSchema,
   trackResponseSchema,
   eventResponseSchema,
-  type Platform
+  eventSeriesResponseSchema,
+  approvalHistoryResponseSchema,
+  eventRevisionResponseSchema,
+  automationResponseSchema,
+  cadenceScopeSchema,
+  quietHoursSchema,
+  timeWindowSchema,
+  localDateSchema,
+  cadenceRuleResponseSchema,
+  type Platform,
+  type EventStatus,
+  type ApprovalAction
 } from './schemas/validation.js';
-import { toSQLiteDate, fromSQLiteDate, prepareEventForDb, parseEventFromDb } from './date-helpers.js';
+import {
+  toSQLiteDate,
+  fromSQLiteDate,
+  prepareEventForDb,
+  parseEventFromDb,
+  prepareAutomationForDb,
+  parseAutomationFromDb
+} from './date-helpers.js';
+import { computeNextRun, emptyAutomationStats, getEndConditionReason } from './automation-runtime.js';
+import { parseRRule, formatRRule, expandRecurrence, splitRecurrence } from './recurrence.js';
+import { getDefaultTimeZone, isValidTimeZone, parseDateTimeInZone, formatInTimeZone, getDayBoundsInZone } from './timezone-helpers.js';
+import { EVENT_TRANSITIONS, canTransition, getStatusFlags, getEventStatus, getRetryStatus } from './event-lifecycle.js';
+import { getSchedulerConfig, runHook, type SchedulerConfig, type HookResult } from './scheduler.js';
+import { formatIcs, parseIcs, icsDateToIso } from './ics.js';
+import { parseCsvRecords, formatCsv } from './csv.js';
+import { PLATFORMS, parsePlatformMetadata, describePlatformMetadata } from './platforms.js';
+import { inspectMediaFile, type MediaFileInfo } from './media.js';
+import { DEFAULT_POSTY_ACCOUNT_ID } from './migrations.js';
+import { parseSearchTerms } from './search.js';
+import {
+  getAgendaDays,
+  getApprovalState,
+  formatAgendaMarkdown,
+  formatMonthGrid,
+  formatAgendaTitle,
+  type AgendaDay
+} from './agenda.js';
+import { countBy, countPerPeriod, findGaps, failureRate, averageLeadTimeHours, localDate, type StatsEvent } from './stats.js';
+import {
+  findCadenceConflicts,
+  suggestAlternativeTimes,
+  findOpenSlots,
+  type CadenceRuleConfig,
+  type CadenceCandidate,
+  type CadencePeer
+} from './cadence.js';
 
 // Get workspace path
 function getWorkspacePath(): string {
@@ -34,11 +117,21 @@ function getDbPath() {
 }
 
 // Database connection singleton
-let dbInstance: ReturnType<typeof drizzle> | null = null;
-let sqliteDb: Database.Database | null = null;
+let storage: Storage | null = null;
+let dbReady: Promise<TimelineDatabase> | null = null;
 
-async function getDb() {
-  if (!dbInstance) {
+/**
+ * Connect to the selected database without touching its schema
+ */
+async function openStorage(): Promise<Storage> {
+  if (storage) {
+    return storage;
+  }
+  
+  if (getStorageBackend() === 'postgres') {
+    storage = openPostgresStorage(process.env.POSTY_DATABASE_URL!);
+    console.error('[Timeline MCP] Database:', storage.location);
+  } else {
     const dbPath = getDbPath();
     console.error('[Timeline MCP] Database path:', dbPath);
     
@@ -55,12 +148,11 @@ async function getDb() {
     try {
       await fs.access(dbPath);
     } catch {
-      console.error('[Timeline MCP] Database file does not exist at:', dbPath);
+      console.error('[Timeline MCP] Database file does not exist, creating it at:', dbPath);
     }
     
     try {
-      sqliteDb = new Database(dbPath);
-      dbInstance = drizzle(sqliteDb);
+      storage = openSqliteStorage(dbPath);
       console.error('[Timeline MCP] Database connection established');
     } catch (error) {
       console.error('[Timeline MCP] Failed to connect to database:', error);
@@ -68,11 +160,38 @@ async function getDb() {
     }
   }
   
-  return dbInstance;
+  return storage;
+}
+
+async function getDb(): Promise<TimelineDatabase> {
+  // Shared by concurrent first calls, so migrations run once
+  if (!dbReady) {
+    dbReady = (async () => {
+      const opened = await openStorage();
+      
+      // Throws while the database is newer than this server, so every tool call refuses to run
+      const applied = await opened.migrate();
+      for (const migration of applied) {
+        console.error(`[Timeline MCP] Applied migration ${migration.version}: ${migration.name}`);
+      }
+      
+      return opened.db;
+    })();
+    dbReady.catch(() => {
+      dbReady = null;
+    });
+  }
+  
+  return dbReady;
 }
 
 // Get default posty account ID
 async function getDefaultPostyAccountId(): Promise<string> {
+  // A configured default wins over the workspace's first account
+  if (process.env.POSTY_ACCOUNT_ID) {
+    return process.env.POSTY_ACCOUNT_ID;
+  }
+  
   const db = await getDb();
 
   // Note: Since postyAccounts only has id field in our schema stub,
@@ -85,7 +204,7 @@ async function getDefaultPostyAccountId(): Promise<string> {
 
   // If no account exists, use a stable default ID
   // The actual account will be created by the main posty application
-  return 'default-workspace-account';
+  return DEFAULT_POSTY_ACCOUNT_ID;
 }
 
 // Initialize FastMCP server
@@ -94,11 +213,300 @@ const mcp = new FastMCP({
   version: '2.1.0'
 });
 
+// Resource URIs; the resources themselves are registered after the tools
+const TRACKS_RESOURCE_URI = 'timeline://tracks';
+
+function trackEventsResourceUri(trackId: string): string {
+  return `timeline://tracks/${trackId}/events`;
+}
+
+function eventResourceUri(eventId: string): string {
+  return `timeline://events/${eventId}`;
+}
+
+// Resource URIs each connected client has subscribed to
+const resourceSubscriptions = new WeakMap<FastMCPSession, Set<string>>();
+
+// FastMCP has no option for the subscribe capability, and the SDK only accepts capabilities
+// before the transport connects, so declare it as each session connects
+const connectSession = FastMCPSession.prototype.connect;
+FastMCPSession.prototype.connect = function (transport) {
+  this.server.registerCapabilities({ resources: { subscribe: true } });
+  return connectSession.call(this, transport);
+};
+
+// FastMCP does not handle resources/subscribe itself, so register it on each session's server
+mcp.on('connect', ({ session }) => {
+  const subscribed = new Set<string>();
+  resourceSubscriptions.set(session, subscribed);
+  
+  session.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribed.add(request.params.uri);
+    return {};
+  });
+  session.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+});
+
+/**
+ * Send resources/updated notifications to clients subscribed to any of the URIs
+ */
+function notifyResourcesUpdated(uris: string[]) {
+  for (const session of mcp.sessions) {
+    const subscribed = resourceSubscriptions.get(session);
+    if (!subscribed) continue;
+    
+    for (const uri of new Set(uris)) {
+      if (!subscribed.has(uri)) continue;
+      session.server.sendResourceUpdated({ uri }).catch(error => {
+        console.error('[Timeline MCP] Error sending resource update:', uri, error);
+      });
+    }
+  }
+}
+
+/**
+ * Announce changed (added, updated or removed) events and the event list of their track
+ */
+function notifyEventsChanged(trackId: string | null | undefined, eventIds: string[]) {
+  if (eventIds.length === 0) return;
+  notifyResourcesUpdated([
+    ...(trackId ? [trackEventsResourceUri(trackId)] : []),
+    ...eventIds.map(eventResourceUri)
+  ]);
+}
+
+/**
+ * Announce a change to the track list, and to the event lists of the given tracks
+ */
+function notifyTracksChanged(trackIds: string[] = []) {
+  notifyResourcesUpdated([TRACKS_RESOURCE_URI, ...trackIds.map(trackEventsResourceUri)]);
+}
+
+// Account scoping
+// Tracks, events, series, cadence rules and automations belong to one posty account (brand);
+// each tool call runs with a current account and every query is limited to it
+interface CallContext {
+  accountId: string;
+  tool: string; // Tool name, or 'scheduler' for scheduler passes
+  actor: string | null; // Who made the call, recorded in event history
+  undoOf?: string; // Revision being undone, recorded on the revisions the undo makes
+}
+
+const callContext = new AsyncLocalStorage<CallContext>();
+
+const accountIdSchema = z.string().min(1).optional()
+  .describe('Posty account (brand) to work in. Defaults to POSTY_ACCOUNT_ID, then the workspace\'s first account.');
+
+/**
+ * The given account if it exists in the workspace, else the default account; null for an unknown account
+ */
+async function resolveAccountId(accountId?: string): Promise<string | null> {
+  if (!accountId) {
+    return getDefaultPostyAccountId();
+  }
+  
+  const db = await getDb();
+  const [account] = await db.select().from(postyAccounts).where(eq(postyAccounts.id, accountId));
+  return account ? account.id : null;
+}
+
+/**
+ * Account of the running tool call (or scheduler pass)
+ */
+function currentAccountId(): string {
+  const context = callContext.getStore();
+  if (!context) {
+    throw new Error('No current account: database access must run inside an account context');
+  }
+  return context.accountId;
+}
+
+/**
+ * Name the connected client reports, when all sessions agree on one
+ */
+function connectedClientName(): string | null {
+  const names = new Set(mcp.sessions.map(session => session.server.getClientVersion()?.name).filter(Boolean));
+  return names.size === 1 ? [...names][0]! : null;
+}
+
+/**
+ * Condition limiting a query to rows of the current account
+ */
+function inAccount(table: { postyAccountId: AnySQLiteColumn }) {
+  return eq(table.postyAccountId, currentAccountId());
+}
+
+/**
+ * Add the accountId parameter to a tool's parameter object, keeping any refinements on it
+ */
+function withAccountParameter(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodEffects) {
+    return new z.ZodEffects({ ...schema._def, schema: withAccountParameter(schema._def.schema) });
+  }
+  return (schema as z.AnyZodObject).extend({ accountId: accountIdSchema });
+}
+
+/**
+ * Register a tool that works within one account
+ * Adds an optional accountId parameter and runs the tool with that account as the current one
+ */
+function addAccountTool<Params extends z.ZodTypeAny>(tool: {
+  name: string;
+  description: string;
+  parameters: Params;
+  execute: (params: z.infer<Params>) => Promise<string>;
+}) {
+  mcp.addTool({
+    ...tool,
+    parameters: withAccountParameter(tool.parameters),
+    execute: async ({ accountId, ...params }: z.infer<Params> & { accountId?: string }) => {
+      const resolved = await resolveAccountId(accountId);
+      if (!resolved) {
+        return JSON.stringify({
+          success: false,
+          error: `Unknown account "${accountId}". Use timeline_list_accounts to see the workspace's accounts.`
+        }, null, 2);
+      }
+      const context = { accountId: resolved, tool: tool.name, actor: connectedClientName() };
+      return callContext.run(context, () => tool.execute(params as z.infer<Params>));
+    }
+  });
+}
+
+/**
+ * Run work in the default account, for callers without an accountId such as resources
+ */
+async function inDefaultAccount<T>(work: () => Promise<T>): Promise<T> {
+  const context = { accountId: await getDefaultPostyAccountId(), tool: 'resource', actor: connectedClientName() };
+  return callContext.run(context, work);
+}
+
+/**
+ * Run work on behalf of a named worker or reviewer, so event history credits them instead of the client
+ */
+function asActor<T>(actor: string, work: () => Promise<T>): Promise<T> {
+  return callContext.run({ ...callContext.getStore()!, actor }, work);
+}
+
+// Event history
+// Every change to an event is recorded as a revision holding the row before and after it,
+// so changes can be reviewed, reverted and undone
+
+// Bookkeeping that changes on every write or lease heartbeat; a write that only touches these is not a revision
+const UNTRACKED_EVENT_FIELDS = new Set(['updatedAt', 'leaseExpiresAt']);
+
+// Rows are written in batches to stay under the database's limit on query parameters
+const REVISION_BATCH_SIZE = 200;
+
+type EventChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Fields that differ between two versions of an event row (null for a row that does not exist)
+ */
+function diffEventRows(before: Event | null, after: Event | null): EventChanges {
+  const changes: EventChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})] as (keyof Event)[]);
+  
+  for (const field of fields) {
+    if (UNTRACKED_EVENT_FIELDS.has(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Revisions are ordered by time, so each one gets a later timestamp than the last even within a millisecond
+let lastRevisionTime = 0;
+
+function nextRevisionTime(): string {
+  lastRevisionTime = Math.max(Date.now(), lastRevisionTime + 1);
+  return new Date(lastRevisionTime).toISOString();
+}
+
+/**
+ * Record revisions for events as they were before and after a write
+ * A missing before means the event was created, a missing after that it was deleted
+ */
+async function recordEventRevisions(versions: { before: Event | null; after: Event | null }[]) {
+  const context = callContext.getStore();
+  
+  const rows = versions.flatMap(({ before, after }) => {
+    const event = (after ?? before)!;
+    const action = !before ? 'created' as const : !after ? 'deleted' as const : 'updated' as const;
+    const changes = diffEventRows(before, after);
+    
+    if (action === 'updated' && Object.keys(changes).length === 0) {
+      return [];
+    }
+    
+    return [{
+      id: uuidv4(),
+      postyAccountId: event.postyAccountId,
+      eventId: event.id,
+      trackId: event.trackId,
+      action,
+      tool: context?.tool ?? null,
+      actor: context?.actor ?? null,
+      before: before ? JSON.stringify(before) : null,
+      after: after ? JSON.stringify(after) : null,
+      changes: JSON.stringify(changes),
+      undoOf: context?.undoOf ?? null,
+      createdAt: nextRevisionTime()
+    }];
+  });
+  
+  if (rows.length === 0) return;
+  
+  const db = await getDb();
+  for (let i = 0; i < rows.length; i += REVISION_BATCH_SIZE) {
+    await db.insert(eventRevisions).values(rows.slice(i, i + REVISION_BATCH_SIZE));
+  }
+}
+
+/**
+ * Run a write that changes or deletes the events matching a condition, recording a revision for each
+ */
+async function trackEventChanges<T>(where: SQL | undefined, write: () => PromiseLike<T>): Promise<T> {
+  const db = await getDb();
+  
+  const before = await db.select().from(events).where(where);
+  const result = await write();
+  
+  if (before.length > 0) {
+    const after = await db.select().from(events).where(inArray(events.id, before.map(event => event.id)));
+    const afterById = new Map(after.map(event => [event.id, event]));
+    await recordEventRevisions(before.map(event => ({ before: event, after: afterById.get(event.id) ?? null })));
+  }
+  return result;
+}
+
+/**
+ * Record revisions for newly inserted events
+ */
+async function recordEventsCreated(eventIds: string[]) {
+  if (eventIds.length === 0) return;
+  
+  const db = await getDb();
+  const created = await db.select().from(events).where(inArray(events.id, eventIds));
+  await recordEventRevisions(created.map(event => ({ before: null, after: event })));
+}
+
 // Helper functions
 function calculateGenerationTime(scheduledTime: Date): Date {
   return new Date(scheduledTime.getTime() - 30 * 60 * 1000); // 30 minutes before
 }
 
+// First zone given wins: explicit parameter, then track, then the workspace default
+function resolveTimeZone(...timeZones: (string | null | undefined)[]): string {
+  return timeZones.find((timeZone): timeZone is string => !!timeZone) ?? getDefaultTimeZone();
+}
+
 function sanitizeFileName(name: string): string {
   return name
     .replace(/[<>:"/\\|?*]/g, '-')
@@ -107,175 +515,688 @@ function sanitizeFileName(name: string): string {
     .slice(0, 100);
 }
 
-async function createMediaPath(trackName: string, eventName: string): Promise<string> {
+async function createMediaPath(trackName: string, eventName: string, date: Date = new Date()): Promise<string> {
   const trackFolderName = sanitizeFileName(trackName);
-  const dateStr = new Date().toISOString().split('T')[0];
+  const dateStr = date.toISOString().split('T')[0];
   const eventBaseName = sanitizeFileName(eventName).toLowerCase().replace(/_/g, '-');
   const eventFolderName = `${eventBaseName}-${dateStr}`;
   
   return path.join('tracks', trackFolderName, eventFolderName);
 }
 
+async function createEventMediaFolder(mediaPath: string, eventId: string, eventName: string, trackId: string) {
+  const workspacePath = getWorkspacePath();
+  const fullMediaPath = path.join(workspacePath, mediaPath);
+  console.error('[Timeline MCP] Creating media folder:', fullMediaPath);
+  
+  try {
+    await fs.mkdir(fullMediaPath, { recursive: true });
+    
+    // Create an info.json file with event metadata
+    const infoFile = path.join(fullMediaPath, 'info.json');
+    const info = {
+      eventId: eventId,
+      eventName: eventName,
+      trackId: trackId,
+      createdAt: new Date().toISOString(),
+      media: [] // Manifest of the folder's files, maintained by the media tools
+    };
+    await fs.writeFile(infoFile, JSON.stringify(info, null, 2));
+    
+    console.error('[Timeline MCP] Media folder created successfully with info.json');
+  } catch (error) {
+    console.error('[Timeline MCP] Error creating media folder:', error);
+    // Continue even if folder creation fails
+  }
+}
+
+function getTrackFolder(trackName: string): string {
+  return path.join('tracks', sanitizeFileName(trackName));
+}
+
+/**
+ * Create a track's folder on disk (if needed) and write its .track-info.json
+ */
+async function writeTrackFolder(track: Track) {
+  const trackFolderPath = path.join(getWorkspacePath(), getTrackFolder(track.name));
+  await fs.mkdir(trackFolderPath, { recursive: true });
+  console.error('[Timeline MCP] Created track folder:', trackFolderPath);
+  
+  // Create a track info file
+  const trackInfoFile = path.join(trackFolderPath, '.track-info.json');
+  const trackInfo = {
+    id: track.id,
+    name: track.name,
+    type: track.type,
+    order: track.order,
+    timezone: track.timezone ?? undefined,
+    createdAt: track.createdAt,
+    folderName: sanitizeFileName(track.name)
+  };
+  await fs.writeFile(trackInfoFile, JSON.stringify(trackInfo, null, 2));
+}
+
+function formatTrack(track: Track) {
+  return trackResponseSchema.parse({
+    id: track.id,
+    name: track.name,
+    type: track.type === 'automation' ? 'automation' : 'schedule',
+    order: track.order,
+    timezone: track.timezone,
+    createdAt: track.createdAt
+  });
+}
+
+function formatEvent(event: Event, track: Track, timeZone: string = resolveTimeZone(track.timezone)) {
+  const parsedEvent = parseEventFromDb(event);
+  return eventResponseSchema.parse({
+    id: parsedEvent.id,
+    trackId: parsedEvent.trackId,
+    trackName: track.name,
+    name: parsedEvent.name,
+    prompt: parsedEvent.prompt, // Now using prompt field
+    platform: parsedEvent.platform,
+    scheduledTime: parsedEvent.scheduledTime?.toISOString(),
+    scheduledTimeLocal: parsedEvent.scheduledTime ? formatInTimeZone(parsedEvent.scheduledTime, timeZone) : undefined,
+    generationTime: parsedEvent.generationTime?.toISOString(),
+    timezone: timeZone,
+    status: getEventStatus(event),
+    mediaPath: parsedEvent.mediaPath,
+    metadata: parsedEvent.metadata ? JSON.parse(parsedEvent.metadata) : undefined,
+    generationSessionId: parsedEvent.generationSessionId,
+    postingSessionId: parsedEvent.postingSessionId,
+    generationStartedAt: parsedEvent.generationStartedAt?.toISOString(),
+    approvalRequestedAt: parsedEvent.approvalRequestedAt?.toISOString(),
+    leaseExpiresAt: parsedEvent.leaseExpiresAt?.toISOString(),
+    error: parsedEvent.error,
+    postedUrl: parsedEvent.postedUrl,
+    approvalVia: parsedEvent.approvalVia,
+    approvalReviewers: parsedEvent.approvalReviewers ? JSON.parse(parsedEvent.approvalReviewers) : [],
+    seriesId: parsedEvent.seriesId,
+    recurrenceId: parsedEvent.recurrenceId
+  });
+}
+
+function formatAutomation(automation: Automation, trackName?: string) {
+  const parsedAutomation = parseAutomationFromDb(automation);
+  return automationResponseSchema.parse({
+    id: parsedAutomation.id,
+    trackId: parsedAutomation.trackId,
+    trackName,
+    name: parsedAutomation.name,
+    description: parsedAutomation.description,
+    trigger: parsedAutomation.trigger,
+    actions: parsedAutomation.actions,
+    enabled: parsedAutomation.enabled,
+    endCondition: parsedAutomation.endCondition,
+    stats: parsedAutomation.stats,
+    lastRun: parsedAutomation.lastRun?.toISOString(),
+    nextRun: parsedAutomation.nextRun?.toISOString(),
+    state: parsedAutomation.state,
+    createdAt: parsedAutomation.createdAt?.toISOString()
+  });
+}
+
+// Recurring series are materialized into events this far ahead
+const SERIES_HORIZON_DAYS = 60;
+
+function getSeriesHorizon(): Date {
+  return new Date(Date.now() + SERIES_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function formatSeries(series: EventSeries) {
+  return eventSeriesResponseSchema.parse({
+    id: series.id,
+    trackId: series.trackId,
+    name: series.name,
+    platform: series.platform,
+    rrule: series.rrule,
+    dtstart: series.dtstart,
+    timezone: series.timezone,
+    exdates: series.exdates ? JSON.parse(series.exdates) : [],
+    materializedUntil: series.materializedUntil
+  });
+}
+
+/**
+ * Create events for every occurrence of a series after its materializedUntil mark, up to `horizon`
+ * Returns the created events' ids and scheduled times
+ */
+async function materializeSeries(series: EventSeries, horizon: Date = getSeriesHorizon()) {
+  const db = await getDb();
+  
+  const [track] = await db.select().from(tracks).where(eq(tracks.id, series.trackId!));
+  if (!track) {
+    throw new Error(`Track ${series.trackId} for series ${series.id} not found`);
+  }
+  
+  const rule = parseRRule(series.rrule);
+  const exdates = (series.exdates ? JSON.parse(series.exdates) as string[] : []).map(date => new Date(date));
+  const materializedUntil = fromSQLiteDate(series.materializedUntil);
+  
+  const occurrences = expandRecurrence(rule, new Date(series.dtstart), horizon, exdates, series.timezone ?? undefined)
+    .filter(occurrence => !materializedUntil || occurrence > materializedUntil);
+  
+  // Occurrences that already have an event (e.g. posted events kept across a series edit)
+  const existing = await db.select({ recurrenceId: events.recurrenceId })
+    .from(events)
+    .where(eq(events.seriesId, series.id));
+  const existingIds = new Set(existing.map(event => event.recurrenceId));
+  
+  const timeZone = resolveTimeZone(series.timezone, track.timezone);
+  const created: { id: string; scheduledTime: string; scheduledTimeLocal: string }[] = [];
+  
+  for (const occurrence of occurrences) {
+    const recurrenceId = occurrence.toISOString();
+    if (existingIds.has(recurrenceId)) continue;
+    
+    const eventId = uuidv4();
+    const mediaPath = await createMediaPath(track.name, series.name, occurrence);
+    await createEventMediaFolder(mediaPath, eventId, series.name, track.id);
+    
+    await db.insert(events).values(prepareEventForDb({
+      id: eventId,
+      postyAccountId: series.postyAccountId,
+      trackId: track.id,
+      name: series.name,
+      platform: series.platform,
+      scheduledTime: occurrence,
+      generationTime: calculateGenerationTime(occurrence),
+      prompt: series.prompt,
+      agent: series.agent,
+      eventType: 'scheduled',
+      mediaPath: mediaPath,
+      mcpTools: series.mcpTools,
+      approvalVia: series.approvalVia,
+      metadata: series.metadata,
+      seriesId: series.id,
+      recurrenceId,
+      contentGenerated: false,
+      approved: false,
+      posted: false
+    }));
+    await recordEventsCreated([eventId]);
+    
+    created.push({ id: eventId, scheduledTime: recurrenceId, scheduledTimeLocal: formatInTimeZone(occurrence, timeZone) });
+  }
+  
+  notifyEventsChanged(track.id, created.map(event => event.id));
+  
+  await db.update(eventSeries)
+    .set({ materializedUntil: horizon.toISOString(), updatedAt: new Date().toISOString() })
+    .where(eq(eventSeries.id, series.id));
+  
+  return created;
+}
+
+/**
+ * Materialize all series whose events do not yet reach the horizon
+ */
+async function extendSeriesHorizons() {
+  const db = await getDb();
+  const horizon = getSeriesHorizon();
+  
+  const pending = await db.select().from(eventSeries)
+    .where(lt(eventSeries.materializedUntil, horizon.toISOString()));
+  
+  for (const series of pending) {
+    try {
+      await materializeSeries(series, horizon);
+    } catch (error) {
+      console.error('[Timeline MCP] Error materializing series:', series.id, error);
+    }
+  }
+}
+
+/**
+ * Find a planned track by name
+ */
+async function findPlannedTrack(trackName: string): Promise<Track | undefined> {
+  const db = await getDb();
+  
+  const [existing] = await db.select().from(tracks)
+    .where(and(eq(tracks.name, trackName), eq(tracks.type, 'planned'), inAccount(tracks)))
+    .limit(1);
+  
+  return existing;
+}
+
+/**
+ * Find a planned track by name, creating it at the end of the track order if it does not exist
+ */
+async function findOrCreatePlannedTrack(trackName: string): Promise<Track> {
+  const db = await getDb();
+  
+  const existing = await findPlannedTrack(trackName);
+  if (existing) {
+    return existing;
+  }
+  
+  const maxOrder = await db.select({ maxOrder: tracks.order })
+    .from(tracks)
+    .where(inAccount(tracks))
+    .orderBy(desc(tracks.order))
+    .limit(1);
+  
+  const newOrder = (maxOrder[0]?.maxOrder || 0) + 1;
+  
+  const trackId = uuidv4();
+  const postyAccountId = currentAccountId();
+  await db.insert(tracks).values({
+    id: trackId,
+    postyAccountId,
+    name: trackName,
+    type: 'planned',
+    order: newOrder
+  });
+  notifyTracksChanged();
+  
+  const [newTrack] = await db.select().from(tracks).where(eq(tracks.id, trackId));
+  return newTrack;
+}
+
+interface NewScheduledEvent {
+  name: string;
+  prompt: string;
+  platform: Platform;
+  scheduledTime: Date;
+  agent: string;
+  approvalVia: string;
+  mcpTools: string[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Insert a one-off scheduled event on a track and create its media folder
+ */
+async function insertScheduledEvent(track: Track, fields: NewScheduledEvent): Promise<Event> {
+  const db = await getDb();
+  
+  // Generate event ID first
+  const eventId = uuidv4();
+  
+  // Create media folder path
+  const mediaPath = await createMediaPath(track.name, fields.name);
+  
+  // Create the actual folder on disk
+  await createEventMediaFolder(mediaPath, eventId, fields.name, track.id);
+  
+  // Create event
+  const generationTime = calculateGenerationTime(fields.scheduledTime);
+  const postyAccountId = currentAccountId();
+  
+  const eventData = prepareEventForDb({
+    id: eventId,
+    postyAccountId,
+    trackId: track.id,
+    name: fields.name,
+    platform: fields.platform,
+    scheduledTime: fields.scheduledTime,
+    generationTime: generationTime,
+    prompt: fields.prompt, // Store prompt string directly
+    agent: fields.agent,
+    eventType: 'scheduled',
+    mediaPath: mediaPath,
+    mcpTools: JSON.stringify(fields.mcpTools),
+    approvalVia: fields.approvalVia,
+    metadata: JSON.stringify(fields.metadata || {}), // Platform-specific metadata
+    contentGenerated: false,
+    approved: false,
+    posted: false
+  });
+  
+  await db.insert(events).values(eventData);
+  notifyEventsChanged(track.id, [eventId]);
+  
+  const [newEvent] = await db.select().from(events).where(eq(events.id, eventId));
+  await recordEventRevisions([{ before: null, after: newEvent }]);
+  return newEvent;
+}
+
+/**
+ * Parse a cadence rule row into the shape the checks in cadence.ts use
+ */
+function toCadenceRuleConfig(rule: CadenceRule): CadenceRuleConfig {
+  return {
+    id: rule.id,
+    scope: rule.scope,
+    platform: rule.platform,
+    trackId: rule.trackId,
+    minSpacingMinutes: rule.minSpacingMinutes,
+    maxPerDay: rule.maxPerDay,
+    quietHours: rule.quietHours ? JSON.parse(rule.quietHours) : null,
+    blackoutDates: rule.blackoutDates ? JSON.parse(rule.blackoutDates) : [],
+    timezone: rule.timezone
+  };
+}
+
+function formatCadenceRule(rule: CadenceRule, trackName?: string) {
+  const config = toCadenceRuleConfig(rule);
+  return cadenceRuleResponseSchema.parse({
+    ...config,
+    trackName,
+    minSpacingMinutes: config.minSpacingMinutes ?? null,
+    maxPerDay: config.maxPerDay ?? null,
+    quietHours: config.quietHours ?? null,
+    updatedAt: rule.updatedAt
+  });
+}
+
+/**
+ * Every active (not cancelled) event scheduled between two times
+ */
+async function loadCadencePeers(from: Date, to: Date): Promise<CadencePeer[]> {
+  const db = await getDb();
+  
+  const rows = await db.select({
+    id: events.id,
+    name: events.name,
+    trackId: events.trackId,
+    platform: events.platform,
+    scheduledTime: events.scheduledTime
+  })
+    .from(events)
+    .where(and(
+      inAccount(events),
+      eq(events.eventType, 'scheduled'),
+      or(isNull(events.status), notInArray(events.status, ['cancelled'])),
+      gte(events.scheduledTime, from.toISOString()),
+      lte(events.scheduledTime, to.toISOString())
+    ));
+  
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    trackId: row.trackId || '',
+    platform: row.platform || 'x',
+    scheduledTime: new Date(row.scheduledTime)
+  }));
+}
+
+/**
+ * Cadence rules plus every active event scheduled between two times
+ */
+async function loadCadenceContext(from: Date, to: Date): Promise<{ rules: CadenceRuleConfig[]; peers: CadencePeer[] }> {
+  const db = await getDb();
+  
+  const rules = (await db.select().from(cadenceRules).where(inAccount(cadenceRules))).map(toCadenceRuleConfig);
+  if (rules.length === 0) {
+    return { rules, peers: [] };
+  }
+  
+  return { rules, peers: await loadCadencePeers(from, to) };
+}
+
+// Days of events loaded around a checked time: enough for daily limits before it and suggestions after it
+const CADENCE_DAYS_BEFORE = 2;
+const CADENCE_DAYS_AFTER = 16;
+
+// Longest range timeline_find_open_slots searches in one call
+const OPEN_SLOT_MAX_DAYS = 31;
+
+/**
+ * Conflicts and suggested alternatives for one candidate, or null when it fits the rules
+ */
+function evaluateCadence(candidate: CadenceCandidate, rules: CadenceRuleConfig[], peers: CadencePeer[]) {
+  const conflicts = findCadenceConflicts(candidate, rules, peers);
+  if (conflicts.length === 0) {
+    return null;
+  }
+  
+  return {
+    conflicts,
+    suggestedTimes: suggestAlternativeTimes(candidate, rules, peers).map(time => ({
+      scheduledTime: time.toISOString(),
+      scheduledTimeLocal: formatInTimeZone(time, candidate.timeZone)
+    }))
+  };
+}
+
+/**
+ * Cadence rules plus the active events around a set of proposed times
+ */
+async function loadCadenceContextAround(times: Date[]) {
+  const day = 24 * 60 * 60 * 1000;
+  const ms = times.map(time => time.getTime());
+  return loadCadenceContext(
+    new Date(Math.min(...ms) - CADENCE_DAYS_BEFORE * day),
+    new Date(Math.max(...ms) + CADENCE_DAYS_AFTER * day)
+  );
+}
+
+/**
+ * Check a proposed time against the cadence rules, ignoring the event being moved
+ */
+async function checkCadence(candidate: CadenceCandidate, excludeEventIds: string[] = []) {
+  const { rules, peers } = await loadCadenceContextAround([candidate.scheduledTime]);
+  
+  return evaluateCadence(candidate, rules, peers.filter(peer => !excludeEventIds.includes(peer.id)));
+}
+
+function cadenceConflictResponse(result: NonNullable<ReturnType<typeof evaluateCadence>>) {
+  return {
+    success: false,
+    error: 'Scheduled time conflicts with cadence rules',
+    conflicts: result.conflicts,
+    suggestedTimes: result.suggestedTimes,
+    hint: 'Pick one of the suggested times, or pass overrideCadence: true to schedule anyway'
+  };
+}
+
+/**
+ * Check the occurrences a series creates, each also counting against the later ones, ignoring the events they replace
+ * Returns the conflict response for the first occurrence that breaks a rule, or null when all fit
+ */
+async function checkSeriesCadence(
+  occurrences: Date[],
+  candidate: Omit<CadenceCandidate, 'scheduledTime'>,
+  name: string,
+  excludeEventIds: string[] = []
+) {
+  if (occurrences.length === 0) {
+    return null;
+  }
+  
+  const { rules, peers } = await loadCadenceContextAround(occurrences);
+  const scheduled = peers.filter(peer => !excludeEventIds.includes(peer.id));
+  
+  for (const occurrence of occurrences) {
+    const cadence = evaluateCadence({ ...candidate, scheduledTime: occurrence }, rules, scheduled);
+    const occurrenceLocal = formatInTimeZone(occurrence, candidate.timeZone);
+    if (cadence) {
+      return {
+        ...cadenceConflictResponse(cadence),
+        occurrence: { scheduledTime: occurrence.toISOString(), scheduledTimeLocal: occurrenceLocal }
+      };
+    }
+    scheduled.push({ ...candidate, scheduledTime: occurrence, id: 'occurrence', name: `${name} (${occurrenceLocal})` });
+  }
+  
+  return null;
+}
+
+/**
+ * Why an imported entry was skipped for breaking cadence rules, with times that would fit
+ */
+function cadenceSkipReason(result: NonNullable<ReturnType<typeof evaluateCadence>>) {
+  return {
+    reason: `Breaks cadence rules: ${result.conflicts.map(conflict => conflict.message).join('; ')}`,
+    suggestedTimes: result.suggestedTimes
+  };
+}
+
+/**
+ * Validate event metadata against the platform registry
+ * Returns the normalized metadata, or throws a ZodError whose paths start with "metadata"
+ */
+function validateEventMetadata(platform: Platform, metadata?: Record<string, any>): Record<string, any> {
+  const result = parsePlatformMetadata(platform, metadata);
+  if (!result.success) {
+    throw new z.ZodError(result.error.issues.map(issue => ({ ...issue, path: ['metadata', ...issue.path] })));
+  }
+  return result.data;
+}
+
 // Enhanced parameter schemas with better validation
 const addScheduledEventParams = z.object({
   trackName: z.string().min(1, 'Track name cannot be empty').max(100, 'Track name too long'),
   eventName: z.string().min(1, 'Event name cannot be empty').max(200, 'Event name too long'),
   prompt: z.string().min(1, 'Prompt cannot be empty').max(5000, 'Prompt too long'),
-  scheduledTime: isoDateTimeSchema,
+  scheduledTime: isoDateTimeSchema.describe('ISO 8601 datetime. Without an offset (e.g. "2025-10-14T10:00") it is read as wall-clock time in the event timezone.'),
+  timezone: timezoneSchema.optional().describe('IANA timezone for scheduledTime. Defaults to the track timezone, then the workspace timezone.'),
   platform: platformSchema.default('x'),
   agent: agentSchema.optional().default('claude-sonnet-4-5-20250929'),
   approvalVia: z.string().optional().default('manual'),
   mcpTools: z.array(z.string()).optional().default(['timeline', 'fal', 'sqlite', 'playwright']),
-  metadata: z.record(z.any()).optional().describe('Platform-specific metadata (e.g., { targetSubreddit: "subredditname" } for Reddit posts)')
+  metadata: z.record(z.any()).optional().describe('Platform-specific metadata, validated against the platform (see timeline_list_platforms), e.g. { targetSubreddit: "subredditname" } for Reddit posts'),
+  recurrence: recurrenceSchema.optional().describe('Make this a recurring series starting at scheduledTime. Events are created for occurrences within the next 60 days and extended automatically.'),
+  overrideCadence: z.boolean().optional().default(false).describe('Schedule even if the time breaks cadence rules (spacing, daily limit, quiet hours, blackout dates)')
 });
 
 
-// Tool: Add scheduled event
-mcp.addTool({
-  name: 'timeline_add_scheduled_event',
-  description: 'Add a scheduled event to a track. IMPORTANT: 1) Use the terminal MCP tool to get the current date/time (execute_command("date")) before scheduling events to ensure correct dates. 2) ALWAYS use timeline_list_tracks first to check existing tracks - if a track with a similar name or purpose already exists, use that instead of creating a new one. If unsure whether an existing track matches your needs, ask the user for clarification before proceeding.',
-  parameters: addScheduledEventParams,
-  execute: async (params) => {
-    console.error('[Timeline MCP] Add scheduled event called with params:', JSON.stringify(params, null, 2));
+/**
+ * Schedule an event (or a recurring series) as timeline_add_scheduled_event does, returning the tool response
+ */
+async function addScheduledEvent(params: z.input<typeof addScheduledEventParams>) {
+  console.error('[Timeline MCP] Add scheduled event called with params:', JSON.stringify(params, null, 2));
+  
+  const db = await getDb();
+  
+  try {
+    // Validate params
+    const validatedParams = addScheduledEventParams.parse(params);
+    const metadata = validateEventMetadata(validatedParams.platform, validatedParams.metadata);
+    console.error('[Timeline MCP] Validated params:', JSON.stringify(validatedParams, null, 2));
     
-    const db = await getDb();
+    // The track is only created once the event passes the cadence checks
+    const existingTrack = await findPlannedTrack(validatedParams.trackName);
     
-    try {
-      // Validate params
-      const validatedParams = addScheduledEventParams.parse(params);
-      console.error('[Timeline MCP] Validated params:', JSON.stringify(validatedParams, null, 2));
-      
-      // Find or create track
-      let track = await db.select().from(tracks)
-        .where(and(eq(tracks.name, validatedParams.trackName), eq(tracks.type, 'planned')))
-        .limit(1);
-      
-      if (track.length === 0) {
-        const maxOrder = await db.select({ maxOrder: tracks.order })
-          .from(tracks)
-          .orderBy(desc(tracks.order))
-          .limit(1);
-        
-        const newOrder = (maxOrder[0]?.maxOrder || 0) + 1;
-        
-        const trackId = uuidv4();
-        const postyAccountId = await getDefaultPostyAccountId();
-        await db.insert(tracks).values({
-          id: trackId,
-          postyAccountId,
-          name: validatedParams.trackName,
-          type: 'planned',
-          order: newOrder
-        });
-        
-        const [newTrack] = await db.select().from(tracks).where(eq(tracks.id, trackId));
-        
-        track = [newTrack];
+    // Offset-less times are wall-clock times in the event timezone
+    const timeZone = resolveTimeZone(validatedParams.timezone, existingTrack?.timezone);
+    const scheduledTime = parseDateTimeInZone(validatedParams.scheduledTime, timeZone);
+    
+    const rule = validatedParams.recurrence ? parseRRule(validatedParams.recurrence.rrule) : null;
+    const exdates = (validatedParams.recurrence?.exdates || []).map(date => parseDateTimeInZone(date, timeZone));
+    
+    // Cadence rules apply to the event, or to every occurrence a new series creates now
+    if (!validatedParams.overrideCadence) {
+      const candidate = { trackId: existingTrack?.id ?? '', platform: validatedParams.platform, timeZone };
+      if (rule) {
+        const occurrences = expandRecurrence(rule, scheduledTime, getSeriesHorizon(), exdates, timeZone);
+        const conflict = await checkSeriesCadence(occurrences, candidate, validatedParams.eventName);
+        if (conflict) {
+          return conflict;
+        }
+      } else {
+        const cadence = await checkCadence({ ...candidate, scheduledTime });
+        if (cadence) {
+          return cadenceConflictResponse(cadence);
+        }
       }
+    }
+    
+    const track = existingTrack ?? await findOrCreatePlannedTrack(validatedParams.trackName);
+    
+    // Recurring series: store the template and materialize occurrences
+    if (rule) {
+      const seriesId = uuidv4();
+      const postyAccountId = currentAccountId();
       
-      // Generate event ID first
-      const eventId = uuidv4();
-      
-      // Create media folder path
-      const mediaPath = await createMediaPath(validatedParams.trackName, validatedParams.eventName);
-      
-      // Create the actual folder on disk
-      const workspacePath = getWorkspacePath();
-      const fullMediaPath = path.join(workspacePath, mediaPath);
-      console.error('[Timeline MCP] Creating media folder:', fullMediaPath);
-      
-      try {
-        await fs.mkdir(fullMediaPath, { recursive: true });
-        
-        // Create an info.json file with event metadata
-        const infoFile = path.join(fullMediaPath, 'info.json');
-        const info = {
-          eventId: eventId,
-          eventName: validatedParams.eventName,
-          trackId: track[0].id,
-          createdAt: new Date().toISOString()
-        };
-        await fs.writeFile(infoFile, JSON.stringify(info, null, 2));
-        
-        console.error('[Timeline MCP] Media folder created successfully with info.json');
-      } catch (error) {
-        console.error('[Timeline MCP] Error creating media folder:', error);
-        // Continue even if folder creation fails
-      }
-      
-      // Create event
-      const scheduledTime = new Date(validatedParams.scheduledTime);
-      const generationTime = calculateGenerationTime(scheduledTime);
-      const postyAccountId = await getDefaultPostyAccountId();
-
-      const eventData = prepareEventForDb({
-        id: eventId,
+      await db.insert(eventSeries).values({
+        id: seriesId,
         postyAccountId,
-        trackId: track[0].id,
+        trackId: track.id,
         name: validatedParams.eventName,
         platform: validatedParams.platform,
-        scheduledTime: scheduledTime,
-        generationTime: generationTime,
-        prompt: validatedParams.prompt, // Store prompt string directly
+        prompt: validatedParams.prompt,
         agent: validatedParams.agent,
-        eventType: 'scheduled',
-        mediaPath: mediaPath,
-        mcpTools: JSON.stringify(validatedParams.mcpTools),
         approvalVia: validatedParams.approvalVia,
-        metadata: JSON.stringify(validatedParams.metadata || {}), // Platform-specific metadata
-        contentGenerated: false,
-        approved: false,
-        posted: false
+        mcpTools: JSON.stringify(validatedParams.mcpTools),
+        metadata: JSON.stringify(metadata),
+        rrule: formatRRule(rule),
+        dtstart: scheduledTime.toISOString(),
+        timezone: timeZone,
+        exdates: JSON.stringify(exdates.map(date => date.toISOString()))
       });
       
-      await db.insert(events).values(eventData);
+      const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, seriesId));
+      const created = await materializeSeries(series);
+      const [materialized] = await db.select().from(eventSeries).where(eq(eventSeries.id, seriesId));
       
-      const [newEvent] = await db.select().from(events).where(eq(events.id, eventId));
+      console.error('[Timeline MCP] Series created:', seriesId, validatedParams.eventName, created.length, 'events');
       
-      const response = {
+      return {
         success: true,
-        event: {
-          id: newEvent.id,
-          trackId: newEvent.trackId,
-          name: newEvent.name,
-          scheduledTime: newEvent.scheduledTime,
-          generationTime: newEvent.generationTime,
-          mediaPath: newEvent.mediaPath,
-          platform: newEvent.platform,
-          metadata: newEvent.metadata ? JSON.parse(newEvent.metadata) : undefined
-        }
+        series: formatSeries(materialized),
+        events: created
       };
-      
-      // Log event creation
-      console.log('[MCP Timeline] Event created:', newEvent.id, newEvent.name);
-      
-      return JSON.stringify(response, null, 2);
-    } catch (error) {
-      console.error('[Timeline MCP] Error in add_scheduled_event:', error);
-      
-      if (error instanceof z.ZodError) {
-        return JSON.stringify({
-          success: false,
-          error: 'Validation error',
-          details: error.errors
-        }, null, 2);
+    }
+    
+    const newEvent = await insertScheduledEvent(track, {
+      name: validatedParams.eventName,
+      prompt: validatedParams.prompt,
+      platform: validatedParams.platform,
+      scheduledTime,
+      agent: validatedParams.agent,
+      approvalVia: validatedParams.approvalVia,
+      mcpTools: validatedParams.mcpTools,
+      metadata
+    });
+    
+    const response = {
+      success: true,
+      event: {
+        id: newEvent.id,
+        trackId: newEvent.trackId,
+        name: newEvent.name,
+        scheduledTime: newEvent.scheduledTime,
+        scheduledTimeLocal: formatInTimeZone(scheduledTime, timeZone),
+        timezone: timeZone,
+        generationTime: newEvent.generationTime,
+        mediaPath: newEvent.mediaPath,
+        platform: newEvent.platform,
+        metadata: newEvent.metadata ? JSON.parse(newEvent.metadata) : undefined
       }
-      
-      return JSON.stringify({
+    };
+    
+    // Log event creation
+    console.error('[Timeline MCP] Event created:', newEvent.id, newEvent.name);
+    
+    return response;
+  } catch (error) {
+    console.error('[Timeline MCP] Error in add_scheduled_event:', error);
+    
+    if (error instanceof z.ZodError) {
+      return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-        stack: error instanceof Error ? error.stack : undefined
-      }, null, 2);
+        error: 'Validation error',
+        details: error.errors
+      };
     }
+    
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      stack: error instanceof Error ? error.stack : undefined
+    };
   }
+}
+
+// Tool: Add scheduled event
+addAccountTool({
+  name: 'timeline_add_scheduled_event',
+  description: 'Add a scheduled event to a track. IMPORTANT: 1) Use the terminal MCP tool to get the current date/time (execute_command("date")) before scheduling events to ensure correct dates. 2) ALWAYS use timeline_list_tracks first to check existing tracks - if a track with a similar name or purpose already exists, use that instead of creating a new one. If unsure whether an existing track matches your needs, ask the user for clarification before proceeding.',
+  parameters: addScheduledEventParams,
+  execute: async (params) => JSON.stringify(await addScheduledEvent(params), null, 2)
 });
 
 
 // Tool: List tracks with enhanced filtering
-mcp.addTool({
+addAccountTool({
   name: 'timeline_list_tracks',
-  description: 'List all tracks',
+  description: 'List all tracks. Defaults to planned (scheduled post) tracks; pass type "automation" to list automation tracks.',
   parameters: z.object({
+    type: z.enum(['planned', 'automation', 'all']).optional().default('planned').describe('Filter by track type'),
     limit: z.number().int().positive().max(100).optional().default(50),
     offset: z.number().int().nonnegative().optional().default(0)
   }),
@@ -285,26 +1206,25 @@ mcp.addTool({
     try {
       const db = await getDb();
       
+      const where = and(inAccount(tracks), params.type === 'all' ? undefined : eq(tracks.type, params.type));
+      
+      // Creation time and ID keep tracks with the same order on the same page
       const results = await db.select().from(tracks)
-        .where(eq(tracks.type, 'planned'))
-        .orderBy(asc(tracks.order))
+        .where(where)
+        .orderBy(asc(tracks.order), asc(tracks.createdAt), asc(tracks.id))
         .limit(params.limit)
         .offset(params.offset);
       
+      const [{ total }] = await db.select({ total: sql<number>`count(*)`.mapWith(Number) }).from(tracks).where(where);
+      
       console.error('[Timeline MCP] Found tracks:', results.length);
       
       const response = {
-        tracks: results.map(track => trackResponseSchema.parse({
-          id: track.id,
-          name: track.name,
-          type: 'schedule',
-          order: track.order,
-          createdAt: track.createdAt
-        })),
+        tracks: results.map(formatTrack),
         pagination: {
           limit: params.limit,
           offset: params.offset,
-          total: results.length
+          total
         }
       };
       
@@ -321,14 +1241,42 @@ mcp.addTool({
   }
 });
 
-// Tool: Add a new track
+// Tool: List platforms
 mcp.addTool({
+  name: 'timeline_list_platforms',
+  description: 'List the supported platforms and what each needs: required and optional metadata (validated when events are added or updated), content limits, media requirements and thread support. Check this before scheduling for an unfamiliar platform.',
+  parameters: z.object({
+    platform: platformSchema.optional().describe('Only describe this platform')
+  }),
+  execute: async (params) => {
+    const ids = params.platform ? [params.platform] : (Object.keys(PLATFORMS) as Platform[]);
+    
+    return JSON.stringify({
+      platforms: ids.map(id => {
+        const definition = PLATFORMS[id];
+        return {
+          id,
+          name: definition.name,
+          metadata: describePlatformMetadata(id),
+          limits: definition.limits,
+          media: definition.media,
+          supportsThreads: definition.supportsThreads,
+          notes: definition.notes
+        };
+      })
+    }, null, 2);
+  }
+});
+
+// Tool: Add a new track
+addAccountTool({
   name: 'timeline_add_track',
   description: 'Create a new track for organizing timeline events. Check existing tracks with timeline_list_tracks first to avoid duplicates.',
   parameters: z.object({
     name: z.string().min(1, 'Track name cannot be empty').max(100, 'Track name too long'),
     type: z.enum(['planned', 'automation']).optional().default('planned'),
-    order: z.number().int().optional().describe('Optional order position. If not provided, will be added at the end.')
+    order: z.number().int().optional().describe('Optional order position. If not provided, will be added at the end.'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for events in this track (e.g. "America/New_York"). Defaults to the workspace timezone.')
   }),
   execute: async (params) => {
     console.error('[Timeline MCP] Add track called with params:', params);
@@ -339,6 +1287,7 @@ mcp.addTool({
       // Check if track with same name already exists
       const existingTrack = await db.select().from(tracks)
         .where(and(
+          inAccount(tracks),
           eq(tracks.name, params.name),
           eq(tracks.type, params.type)
         ))
@@ -353,6 +1302,7 @@ mcp.addTool({
             name: existingTrack[0].name,
             type: params.type === 'automation' ? 'automation' : 'schedule',
             order: existingTrack[0].order,
+            timezone: existingTrack[0].timezone,
             createdAt: existingTrack[0].createdAt
           })
         }, null, 2);
@@ -364,6 +1314,7 @@ mcp.addTool({
         // Get the maximum order and add 1
         const maxOrder = await db.select({ maxOrder: tracks.order })
           .from(tracks)
+          .where(inAccount(tracks))
           .orderBy(desc(tracks.order))
           .limit(1);
         
@@ -373,7 +1324,7 @@ mcp.addTool({
       // Create new track
       const trackId = uuidv4();
       const now = new Date().toISOString();
-      const postyAccountId = await getDefaultPostyAccountId();
+      const postyAccountId = currentAccountId();
 
       await db.insert(tracks).values({
         id: trackId,
@@ -381,9 +1332,11 @@ mcp.addTool({
         name: params.name,
         type: params.type,
         order: order,
+        timezone: params.timezone,
         createdAt: now,
         updatedAt: now
       });
+      notifyTracksChanged();
       
       // Fetch the created track
       const [newTrack] = await db.select().from(tracks).where(eq(tracks.id, trackId));
@@ -393,25 +1346,8 @@ mcp.addTool({
       }
       
       // Create track folder on disk
-      const workspacePath = getWorkspacePath();
-      const trackFolderName = sanitizeFileName(params.name);
-      const trackFolderPath = path.join(workspacePath, 'tracks', trackFolderName);
-      
       try {
-        await fs.mkdir(trackFolderPath, { recursive: true });
-        console.error('[Timeline MCP] Created track folder:', trackFolderPath);
-        
-        // Create a track info file
-        const trackInfoFile = path.join(trackFolderPath, '.track-info.json');
-        const trackInfo = {
-          id: trackId,
-          name: params.name,
-          type: params.type,
-          order: order,
-          createdAt: now,
-          folderName: trackFolderName
-        };
-        await fs.writeFile(trackInfoFile, JSON.stringify(trackInfo, null, 2));
+        await writeTrackFolder(newTrack);
       } catch (folderError) {
         console.error('[Timeline MCP] Warning: Could not create track folder:', folderError);
         // Continue anyway - folder creation is not critical
@@ -424,6 +1360,7 @@ mcp.addTool({
           name: newTrack.name,
           type: params.type === 'automation' ? 'automation' : 'schedule',
           order: newTrack.order,
+          timezone: newTrack.timezone,
           createdAt: newTrack.createdAt
         }),
         message: `Track "${params.name}" created successfully`
@@ -444,283 +1381,4960 @@ mcp.addTool({
   }
 });
 
-// Tool: List scheduled events with enhanced filtering
-mcp.addTool({
-  name: 'timeline_list_scheduled_events',
-  description: `List scheduled events with optional filtering by track, status, platform, and date range.
-
-STATUS FILTERING:
-- 'all': Returns all events regardless of status
-- 'pending': Returns events that haven't been generated yet (contentGenerated = false)
-- 'generated': Returns events that have been generated but not posted yet (contentGenerated = true, posted = false)
-- 'posted': Returns events that have been posted (posted = true)
-
-DATE FILTERING:
-- startDate/endDate use DATE ONLY comparison (time is ignored)
-- Format: YYYY-MM-DD or ISO 8601 datetime string
-- Example: startDate="2025-10-14" matches ALL events scheduled on Oct 14, regardless of time
-- To get events for a single day, use the same date for both startDate and endDate
+function pathExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
 
-EXAMPLES:
-- Get all posted events from today: { "startDate": "2025-10-14", "endDate": "2025-10-14", "status": "posted" }
-- Get all Reddit events this week: { "platform": "reddit", "startDate": "2025-10-14", "endDate": "2025-10-20" }
-- Get pending events in a specific track: { "trackId": "track-uuid", "status": "pending" }`,
-  parameters: z.object({
-    trackId: z.string().uuid().optional().describe('Filter by track ID'),
-    status: z.enum(['all', 'pending', 'generated', 'posted']).optional().default('all').describe('Filter by event status'),
-    platform: platformSchema.optional().describe('Filter by platform (x, reddit, linkedin, instagram, tiktok, youtube)'),
-    startDate: isoDateTimeSchema.optional().describe('Start date for filtering (YYYY-MM-DD). Date-only comparison - time is ignored.'),
-    endDate: isoDateTimeSchema.optional().describe('End date for filtering (YYYY-MM-DD). Date-only comparison - time is ignored.'),
-    limit: z.number().int().positive().max(100).optional().default(50).describe('Maximum number of events to return'),
-    offset: z.number().int().nonnegative().optional().default(0).describe('Offset for pagination')
-  }),
-  execute: async (params) => {
-    const db = await getDb();
-    
-    let whereConditions = [eq(events.eventType, 'scheduled')];
-    
-    if (params.trackId) {
-      whereConditions.push(eq(events.trackId, params.trackId));
-    }
-    
-    if (params.platform) {
-      whereConditions.push(eq(events.platform, params.platform));
-    }
-    
-    const results = await db.select({
-      event: events,
-      track: tracks
-    })
-    .from(events)
-    .innerJoin(tracks, eq(events.trackId, tracks.id))
-    .where(and(...whereConditions))
-    .orderBy(asc(events.scheduledTime))
-    .limit(params.limit)
-    .offset(params.offset);
+/**
+ * Move events' media folders into a track's folder and note the track in their info.json
+ * Returns each moved event's new mediaPath; a folder whose name is taken there gets the event ID appended
+ */
+async function relocateEventMedia(eventRows: Event[], track: Track): Promise<Map<string, string>> {
+  const workspacePath = getWorkspacePath();
+  const trackFolder = getTrackFolder(track.name);
+  const relocated = new Map<string, string>(); // Old mediaPath → new, for events sharing a folder
+  const mediaPaths = new Map<string, string>();
+  
+  for (const event of eventRows) {
+    if (!event.mediaPath || path.dirname(event.mediaPath) === trackFolder) continue;
     
-    // Apply additional filters
-    const filtered = results.filter(({ event }) => {
-      // Status filter
-      if (params.status !== 'all') {
-        if (params.status === 'posted' && !event.posted) return false;
-        if (params.status === 'generated' && (!event.contentGenerated || event.posted)) return false;
-        if (params.status === 'pending' && event.contentGenerated) return false;
+    let target = relocated.get(event.mediaPath);
+    if (!target) {
+      target = path.join(trackFolder, path.basename(event.mediaPath));
+      if (await pathExists(path.join(workspacePath, target))) {
+        target = `${target}-${event.id.slice(0, 8)}`;
       }
-
-      // Date filters - compare dates only, not times
-      if (params.startDate) {
-        const eventDate = new Date(event.scheduledTime);
-        eventDate.setHours(0, 0, 0, 0);
-
-        // Parse the filter date in local timezone by extracting YYYY-MM-DD
-        const dateMatch = params.startDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
-        if (!dateMatch) return false;
-        const startDate = new Date(parseInt(dateMatch[1]), parseInt(dateMatch[2]) - 1, parseInt(dateMatch[3]), 0, 0, 0, 0);
-
-        if (eventDate < startDate) return false;
+      
+      const source = path.join(workspacePath, event.mediaPath);
+      if (await pathExists(source)) {
+        await fs.mkdir(path.join(workspacePath, trackFolder), { recursive: true });
+        await fs.rename(source, path.join(workspacePath, target));
+        
+        const infoFile = path.join(workspacePath, target, 'info.json');
+        if (await pathExists(infoFile)) {
+          const info = JSON.parse(await fs.readFile(infoFile, 'utf8'));
+          await fs.writeFile(infoFile, JSON.stringify({ ...info, trackId: track.id }, null, 2));
+        }
       }
+      relocated.set(event.mediaPath, target);
+    }
+    mediaPaths.set(event.id, target);
+  }
+  
+  return mediaPaths;
+}
 
-      if (params.endDate) {
-        const eventDate = new Date(event.scheduledTime);
-        eventDate.setHours(0, 0, 0, 0);
-
-        // Parse the filter date in local timezone by extracting YYYY-MM-DD
-        const dateMatch = params.endDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
-        if (!dateMatch) return false;
-        const endDate = new Date(parseInt(dateMatch[1]), parseInt(dateMatch[2]) - 1, parseInt(dateMatch[3]), 0, 0, 0, 0);
+/**
+ * Put events (and their media folders) on a track
+ */
+async function moveEventsToTrack(eventRows: Event[], track: Track): Promise<Map<string, string>> {
+  if (eventRows.length === 0) return new Map();
+  
+  const db = await getDb();
+  const mediaPaths = await relocateEventMedia(eventRows, track);
+  const now = new Date().toISOString();
+  
+  await trackEventChanges(inArray(events.id, eventRows.map(event => event.id)), async () => {
+    for (const event of eventRows) {
+      await db.update(events)
+        .set({ trackId: track.id, mediaPath: mediaPaths.get(event.id) ?? event.mediaPath, updatedAt: now })
+        .where(eq(events.id, event.id));
+    }
+  });
+  
+  for (const event of eventRows) {
+    notifyEventsChanged(event.trackId, [event.id]);
+  }
+  notifyEventsChanged(track.id, eventRows.map(event => event.id));
+  
+  return mediaPaths;
+}
 
-        if (eventDate > endDate) return false;
-      }
+/**
+ * Remove the folder of a track that was renamed or merged away, unless something still lives there
+ */
+async function removeTrackFolder(trackName: string) {
+  const folder = getTrackFolder(trackName);
+  if (await isMediaFolderInUse(folder)) return;
+  
+  const folderPath = path.join(getWorkspacePath(), folder);
+  await fs.rm(path.join(folderPath, '.track-info.json'), { force: true });
+  // Folders of trashed events keep it in place until the trash is emptied
+  await fs.rmdir(folderPath).catch(() => undefined);
+}
 
-      return true;
-    });
-    
-    const response = {
-      events: filtered.map(({ event, track }) => {
-        const parsedEvent = parseEventFromDb(event);
-        return eventResponseSchema.parse({
-          id: parsedEvent.id,
-          trackId: parsedEvent.trackId,
-          trackName: track.name,
-          name: parsedEvent.name,
-          prompt: parsedEvent.prompt, // Now using prompt field
-          platform: parsedEvent.platform,
-          scheduledTime: parsedEvent.scheduledTime?.toISOString(),
-          generationTime: parsedEvent.generationTime?.toISOString(),
-          status: parsedEvent.posted ? 'posted' : (parsedEvent.contentGenerated ? 'generated' : 'pending'),
-          mediaPath: parsedEvent.mediaPath,
-          metadata: parsedEvent.metadata ? JSON.parse(parsedEvent.metadata) : undefined,
-          generationSessionId: parsedEvent.generationSessionId,
-          postingSessionId: parsedEvent.postingSessionId,
-          generationStartedAt: parsedEvent.generationStartedAt?.toISOString(),
-          approvalRequestedAt: parsedEvent.approvalRequestedAt?.toISOString(),
-          error: parsedEvent.error,
-          postedUrl: parsedEvent.postedUrl
-        });
-      }),
-      pagination: {
-        limit: params.limit,
-        offset: params.offset,
-        total: filtered.length
-      }
-    };
-    
-    return JSON.stringify(response, null, 2);
-  }
-});
+/**
+ * Events a worker is generating or posting; their media folders must not move under them
+ */
+function busyEvents(eventRows: Event[]) {
+  return eventRows
+    .filter(event => ['generating', 'posting'].includes(getEventStatus(event)))
+    .map(event => ({ id: event.id, name: event.name, status: getEventStatus(event) }));
+}
 
-// Tool: Update scheduled event with validation
-mcp.addTool({
-  name: 'timeline_update_scheduled_event',
-  description: 'Update an existing scheduled event',
+// Tool: Update track
+addAccountTool({
+  name: 'timeline_update_track',
+  description: 'Rename a track or change its order or timezone. Renaming moves the track folder\'s event media folders to the new name and updates mediaPath and .track-info.json.',
   parameters: z.object({
-    eventId: z.string().uuid(),
-    updates: z.object({
-      name: z.string().min(1).max(200).optional(),
-      prompt: z.string().min(1).max(5000).optional(),
-      scheduledTime: isoDateTimeSchema.optional(),
-      approved: z.boolean().optional(),
-      platform: platformSchema.optional(),
-      metadata: z.record(z.any()).optional().describe('Platform-specific metadata')
-    }).refine(data => Object.keys(data).length > 0, {
-      message: 'At least one update field must be provided'
-    })
+    trackId: z.string().uuid(),
+    name: z.string().min(1, 'Track name cannot be empty').max(100, 'Track name too long').optional(),
+    order: z.number().int().optional(),
+    timezone: timezoneSchema.nullable().optional().describe('IANA timezone for events in this track; null falls back to the workspace timezone')
+  }).refine(data => data.name !== undefined || data.order !== undefined || data.timezone !== undefined, {
+    message: 'At least one of name, order or timezone must be provided'
   }),
   execute: async (params) => {
-    const db = await getDb();
-    
     try {
-      const updates: any = { updatedAt: new Date() };
-      
-      if (params.updates.name) updates.name = params.updates.name;
-      if (params.updates.prompt) {
-        updates.prompt = params.updates.prompt; // Store prompt string directly
-        updates.contentGenerated = false; // Reset generation status if prompt changes
-      }
-      if (params.updates.scheduledTime) {
-        const newScheduledTime = new Date(params.updates.scheduledTime);
-        if (newScheduledTime <= new Date()) {
-          throw new Error('Scheduled time must be in the future');
-        }
-        updates.scheduledTime = newScheduledTime;
-        updates.generationTime = calculateGenerationTime(newScheduledTime);
-      }
-      if (params.updates.approved !== undefined) updates.approved = params.updates.approved;
-      if (params.updates.platform) updates.platform = params.updates.platform;
-      if (params.updates.metadata) updates.metadata = JSON.stringify(params.updates.metadata);
-
-      // Convert dates and booleans for SQLite
-      const dbUpdates = prepareEventForDb(updates);
+      const db = await getDb();
       
-      await db.update(events)
-        .set(dbUpdates)
-        .where(eq(events.id, params.eventId));
-        
-      const [updated] = await db.select().from(events).where(eq(events.id, params.eventId));
+      const [track] = await db.select().from(tracks)
+        .where(and(eq(tracks.id, params.trackId), inAccount(tracks)));
       
-      if (!updated) {
+      if (!track) {
         return JSON.stringify({
           success: false,
-          error: 'Event not found'
+          error: `Track ${params.trackId} not found`
         }, null, 2);
       }
       
+      const renamed = params.name !== undefined && params.name !== track.name;
+      let trackEvents: Event[] = [];
+      
+      if (renamed) {
+        const [clash] = await db.select({ id: tracks.id }).from(tracks)
+          .where(and(inAccount(tracks), eq(tracks.name, params.name!), eq(tracks.type, track.type)));
+        if (clash) {
+          return JSON.stringify({
+            success: false,
+            error: `Track "${params.name}" with type "${track.type}" already exists. Use timeline_merge_tracks to combine them.`
+          }, null, 2);
+        }
+        
+        trackEvents = await db.select().from(events).where(eq(events.trackId, track.id));
+        const busy = busyEvents(trackEvents);
+        if (busy.length > 0) {
+          return JSON.stringify({
+            success: false,
+            error: 'Events of this track are being generated or posted; rename it once they finish',
+            events: busy
+          }, null, 2);
+        }
+      }
+      
+      const updates: Partial<Track> = { updatedAt: new Date().toISOString() };
+      if (params.name !== undefined) updates.name = params.name;
+      if (params.order !== undefined) updates.order = params.order;
+      if (params.timezone !== undefined) updates.timezone = params.timezone;
+      
+      await db.update(tracks).set(updates).where(eq(tracks.id, track.id));
+      const [updated] = await db.select().from(tracks).where(eq(tracks.id, track.id));
+      
+      let movedFolders = 0;
+      if (renamed) {
+        const mediaPaths = await moveEventsToTrack(trackEvents, updated);
+        movedFolders = new Set(mediaPaths.values()).size;
+      }
+      
+      try {
+        await writeTrackFolder(updated);
+        if (renamed) {
+          await removeTrackFolder(track.name);
+        }
+      } catch (folderError) {
+        console.error('[Timeline MCP] Warning: Could not update track folder:', folderError);
+      }
+      notifyTracksChanged([track.id]);
+      
       return JSON.stringify({
         success: true,
-        event: {
-          id: updated.id,
-          name: updated.name,
-          scheduledTime: updated.scheduledTime,
-          approved: updated.approved,
-          platform: updated.platform
-        }
+        track: formatTrack(updated),
+        previousName: renamed ? track.name : undefined,
+        movedMediaFolders: renamed ? movedFolders : undefined
       }, null, 2);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return JSON.stringify({
-          success: false,
-          error: 'Validation error',
-          details: error.errors
-        }, null, 2);
-      }
-      throw error;
+      console.error('[Timeline MCP] Error in update_track:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
     }
   }
 });
 
-// Tool: Remove scheduled event
-mcp.addTool({
-  name: 'timeline_remove_scheduled_event',
-  description: 'Remove a scheduled event',
+// Tool: Reorder tracks
+addAccountTool({
+  name: 'timeline_reorder_tracks',
+  description: 'Set the order of tracks: the listed tracks come first, in the given order, followed by the others in their current order',
   parameters: z.object({
-    eventId: z.string().uuid()
+    trackIds: z.array(z.string().uuid()).min(1).describe('Track IDs in their new order')
   }),
   execute: async (params) => {
     const db = await getDb();
     
-    await db.delete(events).where(eq(events.id, params.eventId));
-    
-    return JSON.stringify({
-      success: true,
-      message: `Event ${params.eventId} removed successfully`
-    }, null, 2);
-  }
-});
-
-// Tool: Remove track
-mcp.addTool({
-  name: 'timeline_remove_track',
-  description: 'Remove a track and all its associated events. WARNING: This will delete all events in the track.',
-  parameters: z.object({
-    trackId: z.string().uuid()
-  }),
-  execute: async (params) => {
-    const db = await getDb();
+    if (new Set(params.trackIds).size !== params.trackIds.length) {
+      return JSON.stringify({
+        success: false,
+        error: 'trackIds contains duplicates'
+      }, null, 2);
+    }
     
-    // Get track details before deletion
-    const [track] = await db.select()
-      .from(tracks)
-      .where(eq(tracks.id, params.trackId))
-      .limit(1);
+    const accountTracks = await db.select().from(tracks)
+      .where(inAccount(tracks))
+      .orderBy(asc(tracks.order), asc(tracks.createdAt));
+    const byId = new Map(accountTracks.map(track => [track.id, track]));
     
-    if (!track) {
+    const unknown = params.trackIds.filter(id => !byId.has(id));
+    if (unknown.length > 0) {
       return JSON.stringify({
         success: false,
-        message: `Track ${params.trackId} not found`
+        error: `Tracks not found: ${unknown.join(', ')}`
       }, null, 2);
     }
     
-    // Get count of events that will be deleted
-    const eventsInTrack = await db.select()
-      .from(events)
-      .where(eq(events.trackId, params.trackId));
+    const ordered = [
+      ...params.trackIds.map(id => byId.get(id)!),
+      ...accountTracks.filter(track => !params.trackIds.includes(track.id))
+    ];
+    const now = new Date().toISOString();
+    const reordered: Track[] = [];
     
-    // Delete the track (cascade will handle events)
-    await db.delete(tracks).where(eq(tracks.id, params.trackId));
+    for (const [index, track] of ordered.entries()) {
+      const order = index + 1;
+      if (track.order === order) {
+        reordered.push(track);
+        continue;
+      }
+      
+      await db.update(tracks).set({ order, updatedAt: now }).where(eq(tracks.id, track.id));
+      const updated = { ...track, order, updatedAt: now };
+      reordered.push(updated);
+      
+      try {
+        await writeTrackFolder(updated);
+      } catch (folderError) {
+        console.error('[Timeline MCP] Warning: Could not update track folder:', folderError);
+      }
+    }
+    notifyTracksChanged();
     
     return JSON.stringify({
       success: true,
-      message: `Track "${track.name}" removed successfully`,
-      deletedEvents: eventsInTrack.length,
-      trackType: track.type
+      tracks: reordered.map(formatTrack)
     }, null, 2);
   }
 });
 
-// Cleanup function
-process.on('SIGINT', () => {
-  if (sqliteDb) {
-    sqliteDb.close();
-  }
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
-  if (sqliteDb) {
-    sqliteDb.close();
+// Tool: Merge tracks
+addAccountTool({
+  name: 'timeline_merge_tracks',
+  description: 'Merge one track into another of the same type, e.g. a duplicate created by a typo: its events (with their media folders), series, automations and track cadence rules move to the target, and the emptied source track is removed',
+  parameters: z.object({
+    sourceTrackId: z.string().uuid().describe('Track to merge away'),
+    targetTrackId: z.string().uuid().describe('Track that receives everything')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      if (params.sourceTrackId === params.targetTrackId) {
+        return JSON.stringify({
+          success: false,
+          error: 'Source and target must be different tracks'
+        }, null, 2);
+      }
+      
+      const [source] = await db.select().from(tracks).where(and(eq(tracks.id, params.sourceTrackId), inAccount(tracks)));
+      const [target] = await db.select().from(tracks).where(and(eq(tracks.id, params.targetTrackId), inAccount(tracks)));
+      
+      if (!source || !target) {
+        return JSON.stringify({
+          success: false,
+          error: `Track ${!source ? params.sourceTrackId : params.targetTrackId} not found`
+        }, null, 2);
+      }
+      if (source.type !== target.type) {
+        return JSON.stringify({
+          success: false,
+          error: `Cannot merge a ${source.type} track into a ${target.type} track`
+        }, null, 2);
+      }
+      
+      const sourceEvents = await db.select().from(events).where(eq(events.trackId, source.id));
+      const busy = busyEvents(sourceEvents);
+      if (busy.length > 0) {
+        return JSON.stringify({
+          success: false,
+          error: 'Events of the source track are being generated or posted; merge once they finish',
+          events: busy
+        }, null, 2);
+      }
+      
+      const now = new Date().toISOString();
+      await moveEventsToTrack(sourceEvents, target);
+      
+      const movedSeries = await db.update(eventSeries)
+        .set({ trackId: target.id, updatedAt: now })
+        .where(eq(eventSeries.trackId, source.id))
+        .returning({ id: eventSeries.id });
+      const movedAutomations = await db.update(automations)
+        .set({ trackId: target.id, updatedAt: now })
+        .where(eq(automations.trackId, source.id))
+        .returning({ id: automations.id });
+      const movedRules = await db.update(cadenceRules)
+        .set({ trackId: target.id, updatedAt: now })
+        .where(eq(cadenceRules.trackId, source.id))
+        .returning({ id: cadenceRules.id });
+      
+      // Nothing is left on the source track for the cascade to delete
+      await db.delete(tracks).where(eq(tracks.id, source.id));
+      
+      try {
+        await removeTrackFolder(source.name);
+      } catch (folderError) {
+        console.error('[Timeline MCP] Warning: Could not remove track folder:', folderError);
+      }
+      notifyTracksChanged([source.id, target.id]);
+      
+      return JSON.stringify({
+        success: true,
+        message: `Merged track "${source.name}" into "${target.name}"`,
+        track: formatTrack(target),
+        moved: {
+          events: sourceEvents.length,
+          series: movedSeries.length,
+          automations: movedAutomations.length,
+          cadenceRules: movedRules.length
+        }
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in merge_tracks:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Move events
+addAccountTool({
+  name: 'timeline_move_events',
+  description: 'Move events to another planned track, moving their media folders into its folder. Occurrences of a recurring series move together with their whole series.',
+  parameters: z.object({
+    eventIds: z.array(z.string().uuid()).min(1).max(200),
+    targetTrackId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const [target] = await db.select().from(tracks).where(and(eq(tracks.id, params.targetTrackId), inAccount(tracks)));
+      if (!target) {
+        return JSON.stringify({
+          success: false,
+          error: `Track ${params.targetTrackId} not found`
+        }, null, 2);
+      }
+      if (target.type !== 'planned') {
+        return JSON.stringify({
+          success: false,
+          error: `Track "${target.name}" is an automation track; events can only move to planned tracks`
+        }, null, 2);
+      }
+      
+      const selected = await db.select().from(events)
+        .where(and(inArray(events.id, params.eventIds), inAccount(events)));
+      const missing = params.eventIds.filter(id => !selected.some(event => event.id === id));
+      if (missing.length > 0) {
+        return JSON.stringify({
+          success: false,
+          error: `Events not found: ${missing.join(', ')}`
+        }, null, 2);
+      }
+      
+      // A series belongs to one track, so its other occurrences come along
+      const seriesIds = [...new Set(selected.map(event => event.seriesId).filter((seriesId): seriesId is string => !!seriesId))];
+      const occurrences = seriesIds.length > 0
+        ? await db.select().from(events).where(inArray(events.seriesId, seriesIds))
+        : [];
+      const toMove = [...new Map([...selected, ...occurrences].map(event => [event.id, event])).values()]
+        .filter(event => event.trackId !== target.id);
+      
+      const busy = busyEvents(toMove);
+      if (busy.length > 0) {
+        return JSON.stringify({
+          success: false,
+          error: 'Some events are being generated or posted; move them once they finish',
+          events: busy
+        }, null, 2);
+      }
+      
+      await moveEventsToTrack(toMove, target);
+      if (seriesIds.length > 0) {
+        await db.update(eventSeries)
+          .set({ trackId: target.id, updatedAt: new Date().toISOString() })
+          .where(inArray(eventSeries.id, seriesIds));
+      }
+      
+      const moved = toMove.length > 0
+        ? await db.select().from(events).where(inArray(events.id, toMove.map(event => event.id)))
+        : [];
+      
+      return JSON.stringify({
+        success: true,
+        track: formatTrack(target),
+        moved: moved.map(event => ({ id: event.id, name: event.name, mediaPath: event.mediaPath, seriesId: event.seriesId ?? undefined })),
+        movedSeries: seriesIds
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in move_events:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+const eventStatusFilterSchema = z.enum(['all', 'pending', 'generated', 'posted'])
+  .or(eventStatusSchema.exclude(['generated', 'posted']));
+
+/**
+ * SQL condition for a status filter of the event listing tools
+ * 'pending', 'generated' and 'posted' go by the content flags; lifecycle statuses match getEventStatus,
+ * which derives the status from the flags for rows written before the status column
+ */
+function eventStatusCondition(status: z.infer<typeof eventStatusFilterSchema>): SQL | undefined {
+  switch (status) {
+    case 'all':
+      return undefined;
+    case 'posted':
+      return eq(events.posted, 1);
+    case 'generated':
+      return and(eq(events.contentGenerated, 1), eq(events.posted, 0));
+    case 'pending':
+      return eq(events.contentGenerated, 0);
+  }
+  
+  const derived = or(
+    isNull(events.status),
+    eq(events.status, 'scheduled'),
+    notInArray(events.status, Object.keys(EVENT_TRANSITIONS))
+  );
+  const flags = (posted: number, approved: number, contentGenerated: number) =>
+    and(eq(events.posted, posted), eq(events.approved, approved), eq(events.contentGenerated, contentGenerated));
+  const generationStarted = eq(events.generationStarted, 1);
+  
+  switch (status) {
+    case 'scheduled':
+      return and(derived, flags(0, 0, 0), or(isNull(events.generationStarted), not(generationStarted)));
+    case 'generating':
+      return or(eq(events.status, 'generating'), and(derived, flags(0, 0, 0), generationStarted));
+    case 'approved':
+      return or(eq(events.status, 'approved'), and(derived, eq(events.posted, 0), eq(events.approved, 1)));
+    default:
+      return eq(events.status, status);
+  }
+}
+
+/**
+ * SQL condition for startDate/endDate filters: whole days in `timeZone`, else in each event's track timezone
+ * The query must join events with their tracks
+ */
+async function scheduledDayCondition(startDate?: string, endDate?: string, timeZone?: string): Promise<SQL | undefined> {
+  if (!startDate && !endDate) {
+    return undefined;
+  }
+  
+  const inDays = (zone: string) => and(
+    startDate ? gte(events.scheduledTime, getDayBoundsInZone(startDate, zone).start.toISOString()) : undefined,
+    endDate ? lt(events.scheduledTime, getDayBoundsInZone(endDate, zone).end.toISOString()) : undefined
+  );
+  if (timeZone) {
+    return inDays(timeZone);
+  }
+  
+  // One range per distinct track timezone, so day boundaries follow each track
+  const db = await getDb();
+  const zones = await db.selectDistinct({ timezone: tracks.timezone }).from(tracks).where(inAccount(tracks));
+  return or(...zones.map(({ timezone }) => and(
+    timezone ? eq(tracks.timezone, timezone) : isNull(tracks.timezone),
+    inDays(resolveTimeZone(timezone))
+  )));
+}
+
+interface ListCursor {
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  values: unknown[]; // Sort key values of the last row returned
+}
+
+function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeListCursor(value: string): ListCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return Array.isArray(cursor?.values) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keyset pagination: rows that come after `values` in the order of `keys`
+ * The last key must be unique so that rows with equal sort values are neither skipped nor repeated
+ */
+function keysetCondition(keys: SQL[], values: unknown[], sortOrder: 'asc' | 'desc'): SQL {
+  const [key, ...restKeys] = keys;
+  const [value, ...restValues] = values;
+  const beyond = sortOrder === 'asc' ? gt(key, value) : lt(key, value);
+  
+  return restKeys.length === 0 ? beyond : or(beyond, and(eq(key, value), keysetCondition(restKeys, restValues, sortOrder)))!;
+}
+
+/**
+ * Sort keys of timeline_list_scheduled_events, each ending with the event ID as tie-breaker
+ * Built per call, since the tables only point at the selected backend once storage is open
+ */
+function getEventSortKeys(): Record<'scheduledTime' | 'createdAt' | 'platform', { sql: SQL; value: (event: Event) => unknown }[]> {
+  return {
+    scheduledTime: [
+      { sql: sql`${events.scheduledTime}`, value: event => event.scheduledTime },
+      { sql: sql`${events.id}`, value: event => event.id }
+    ],
+    createdAt: [
+      { sql: sql`${events.createdAt}`, value: event => event.createdAt },
+      { sql: sql`${events.id}`, value: event => event.id }
+    ],
+    platform: [
+      { sql: sql`coalesce(${events.platform}, '')`, value: event => event.platform ?? '' },
+      { sql: sql`${events.scheduledTime}`, value: event => event.scheduledTime },
+      { sql: sql`${events.id}`, value: event => event.id }
+    ]
+  };
+}
+
+// Tool: List scheduled events with enhanced filtering
+addAccountTool({
+  name: 'timeline_list_scheduled_events',
+  description: `List scheduled events with optional filtering by track, status, platform, and date range.
+
+STATUS FILTERING:
+- 'all': Returns all events regardless of status
+- 'pending': Returns events that haven't been generated yet (contentGenerated = false)
+- 'generated': Returns events that have been generated but not posted yet (contentGenerated = true, posted = false)
+- 'posted': Returns events that have been posted (posted = true)
+- Any other lifecycle status ('scheduled', 'generating', 'awaiting_approval', 'rejected', 'approved', 'posting', 'failed', 'cancelled') matches exactly
+- 'rejected' lists events sent back by a reviewer that need rework
+- awaitingApprovalBy="name" lists events awaiting that reviewer's approval
+
+Each event's status is its lifecycle state: scheduled → generating → generated → awaiting_approval → approved → posting → posted (or failed / cancelled).
+
+SORTING AND PAGINATION:
+- sortBy: 'scheduledTime' (default), 'createdAt' or 'platform' (then scheduled time); sortOrder 'asc' (default) or 'desc'
+- Pass pagination.nextCursor back as cursor for the next page; it stays correct while events are added or removed, unlike offset
+- pagination.total counts every event matching the filters
+
+DATE FILTERING:
+- startDate/endDate use DATE ONLY comparison (time is ignored)
+- Format: YYYY-MM-DD or ISO 8601 datetime string
+- Example: startDate="2025-10-14" matches ALL events scheduled on Oct 14, regardless of time
+- To get events for a single day, use the same date for both startDate and endDate
+- Days start and end at midnight in the timezone parameter, else the event's track timezone, else the workspace timezone
+
+EXAMPLES:
+- Get all posted events from today: { "startDate": "2025-10-14", "endDate": "2025-10-14", "status": "posted" }
+- Get all Reddit events this week: { "platform": "reddit", "startDate": "2025-10-14", "endDate": "2025-10-20" }
+- Get pending events in a specific track: { "trackId": "track-uuid", "status": "pending" }`,
+  parameters: z.object({
+    trackId: z.string().uuid().optional().describe('Filter by track ID'),
+    status: eventStatusFilterSchema
+      .optional()
+      .default('all')
+      .describe('Filter by event status'),
+    platform: platformSchema.optional().describe('Filter by platform (x, reddit, linkedin, instagram, tiktok, youtube)'),
+    startDate: isoDateTimeSchema.optional().describe('Start date for filtering (YYYY-MM-DD). Date-only comparison - time is ignored.'),
+    endDate: isoDateTimeSchema.optional().describe('End date for filtering (YYYY-MM-DD). Date-only comparison - time is ignored.'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for day boundaries and local times in the response'),
+    awaitingApprovalBy: z.string().optional().describe('Only events awaiting approval that this reviewer was asked for (or that have no specific reviewers)'),
+    sortBy: z.enum(['scheduledTime', 'createdAt', 'platform']).optional().default('scheduledTime').describe('Sort field'),
+    sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+    limit: z.number().int().positive().max(100).optional().default(50).describe('Maximum number of events to return'),
+    cursor: z.string().optional().describe('pagination.nextCursor of the previous page'),
+    offset: z.number().int().nonnegative().optional().default(0).describe('Offset for pagination; ignored when a cursor is given')
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    let after: unknown[] | undefined;
+    if (params.cursor) {
+      const cursor = decodeListCursor(params.cursor);
+      if (!cursor || cursor.sortBy !== params.sortBy || cursor.sortOrder !== params.sortOrder) {
+        return JSON.stringify({
+          success: false,
+          error: 'Invalid cursor for this sort; start again without a cursor'
+        }, null, 2);
+      }
+      after = cursor.values;
+    }
+    
+    // Make sure recurring series have events up to the horizon
+    await extendSeriesHorizons();
+    
+    const where = and(
+      inAccount(events),
+      eq(events.eventType, 'scheduled'),
+      params.trackId ? eq(events.trackId, params.trackId) : undefined,
+      params.platform ? eq(events.platform, params.platform) : undefined,
+      eventStatusCondition(params.status),
+      params.awaitingApprovalBy
+        ? and(eventStatusCondition('awaiting_approval'), jsonArrayEmptyOrContains(events.approvalReviewers, params.awaitingApprovalBy))
+        : undefined,
+      await scheduledDayCondition(params.startDate, params.endDate, params.timezone)
+    );
+    
+    const sortKeys = getEventSortKeys()[params.sortBy];
+    const direction = params.sortOrder === 'asc' ? asc : desc;
+    
+    // One extra row tells whether there is a next page
+    const rows = await db.select({
+      event: events,
+      track: tracks
+    })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .where(and(where, after ? keysetCondition(sortKeys.map(key => key.sql), after, params.sortOrder) : undefined))
+    .orderBy(...sortKeys.map(key => direction(key.sql)))
+    .limit(params.limit + 1)
+    .offset(after ? 0 : params.offset);
+    
+    const [{ total }] = await db.select({ total: sql<number>`count(*)`.mapWith(Number) })
+      .from(events)
+      .innerJoin(tracks, eq(events.trackId, tracks.id))
+      .where(where);
+    
+    const results = rows.slice(0, params.limit);
+    const last = results[results.length - 1];
+    const nextCursor = rows.length > params.limit
+      ? encodeListCursor({ sortBy: params.sortBy, sortOrder: params.sortOrder, values: sortKeys.map(key => key.value(last.event)) })
+      : undefined;
+    
+    const response = {
+      events: results.map(({ event, track }) => formatEvent(event, track, resolveTimeZone(params.timezone, track.timezone))),
+      pagination: {
+        limit: params.limit,
+        offset: after ? undefined : params.offset,
+        total,
+        nextCursor
+      }
+    };
+    
+    return JSON.stringify(response, null, 2);
+  }
+});
+
+// Tool: Search events
+addAccountTool({
+  name: 'timeline_search_events',
+  description: `Full-text search over event names, prompts and metadata, best matches first.
+
+Every word must match (the last one also as a prefix, so "aqui" finds "Aquilo"); "quoted phrases" match words in order. Matches in the name rank above the prompt, which ranks above metadata. Each result has highlights with the matches wrapped in **.
+
+Combine with the same trackId, platform, status and startDate/endDate filters as timeline_list_scheduled_events, e.g. { "query": "aquilo chat", "platform": "x", "status": "posted" }`,
+  parameters: z.object({
+    query: z.string().min(1).max(200).describe('Words or "quoted phrases" to find'),
+    trackId: z.string().uuid().optional().describe('Filter by track ID'),
+    status: eventStatusFilterSchema.optional().default('all').describe('Filter by event status'),
+    platform: platformSchema.optional().describe('Filter by platform'),
+    startDate: isoDateTimeSchema.optional().describe('Start date for filtering (YYYY-MM-DD), whole days'),
+    endDate: isoDateTimeSchema.optional().describe('End date for filtering (YYYY-MM-DD), whole days'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for day boundaries and local times in the response'),
+    limit: z.number().int().positive().max(100).optional().default(20),
+    offset: z.number().int().nonnegative().optional().default(0)
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const terms = parseSearchTerms(params.query);
+    if (terms.length === 0) {
+      return JSON.stringify({
+        success: false,
+        error: 'Query has no words to search for'
+      }, null, 2);
+    }
+    
+    // Make sure recurring series have events up to the horizon
+    await extendSeriesHorizons();
+    
+    const search = eventSearch(terms);
+    const where = and(
+      inAccount(events),
+      eq(events.eventType, 'scheduled'),
+      params.trackId ? eq(events.trackId, params.trackId) : undefined,
+      params.platform ? eq(events.platform, params.platform) : undefined,
+      eventStatusCondition(params.status),
+      await scheduledDayCondition(params.startDate, params.endDate, params.timezone)
+    );
+    
+    const results = await db.select({
+      event: events,
+      track: tracks,
+      rank: search.rank,
+      name: search.name,
+      prompt: search.prompt,
+      metadata: search.metadata
+    })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .innerJoin(search.source, search.on)
+    .where(where)
+    .orderBy(desc(search.rank), asc(events.scheduledTime))
+    .limit(params.limit)
+    .offset(params.offset);
+    
+    const [{ total }] = await db.select({ total: sql<number>`count(*)`.mapWith(Number) })
+      .from(events)
+      .innerJoin(tracks, eq(events.trackId, tracks.id))
+      .innerJoin(search.source, search.on)
+      .where(where);
+    
+    // Only fields that matched are highlighted
+    const highlighted = (text: string | null) => text && text.includes('**') ? text : undefined;
+    
+    return JSON.stringify({
+      query: params.query,
+      results: results.map(({ event, track, rank, name, prompt, metadata }) => ({
+        ...formatEvent(event, track, resolveTimeZone(params.timezone, track.timezone)),
+        score: Math.round(rank * 1000) / 1000,
+        highlights: {
+          name: highlighted(name),
+          prompt: highlighted(prompt),
+          metadata: highlighted(metadata)
+        }
+      })),
+      pagination: {
+        limit: params.limit,
+        offset: params.offset,
+        total
+      }
+    }, null, 2);
+  }
+});
+
+// Tool: Timeline statistics
+addAccountTool({
+  name: 'timeline_get_stats',
+  description: `Summarize the calendar for a date range: event counts by track, platform and status, scheduled and posted events per day and week, upcoming gaps with nothing scheduled, failure rates, average lead time from generation start to posting, and overdue events (scheduled time passed but not posted).
+
+Defaults to the 30 days before and after today. Days and weeks (starting Monday) are counted in the timezone parameter, else the workspace timezone.`,
+  parameters: z.object({
+    startDate: isoDateTimeSchema.optional().describe('First day of the range (YYYY-MM-DD)'),
+    endDate: isoDateTimeSchema.optional().describe('Last day of the range (YYYY-MM-DD)'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for day boundaries'),
+    trackId: z.string().uuid().optional().describe('Only events of this track'),
+    platform: platformSchema.optional().describe('Only events for this platform'),
+    gapHours: z.number().positive().optional().default(48).describe('Report upcoming stretches at least this many hours long with nothing scheduled')
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    const timeZone = resolveTimeZone(params.timezone);
+    const now = new Date();
+    
+    const startDate = params.startDate ?? localDate(new Date(now.getTime() - 30 * 86400000), timeZone);
+    const endDate = params.endDate ?? localDate(new Date(now.getTime() + 30 * 86400000), timeZone);
+    const from = getDayBoundsInZone(startDate, timeZone).start;
+    const to = getDayBoundsInZone(endDate, timeZone).end;
+    
+    if (from >= to) {
+      return JSON.stringify({
+        success: false,
+        error: 'endDate must not be before startDate'
+      }, null, 2);
+    }
+    
+    // Make sure recurring series have events up to the horizon
+    await extendSeriesHorizons();
+    
+    const rows = await db.select({
+      id: events.id,
+      name: events.name,
+      trackId: events.trackId,
+      platform: events.platform,
+      scheduledTime: events.scheduledTime,
+      status: events.status,
+      contentGenerated: events.contentGenerated,
+      approved: events.approved,
+      posted: events.posted,
+      generationStarted: events.generationStarted,
+      generationStartedAt: events.generationStartedAt,
+      postTime: events.postTime,
+      error: events.error
+    })
+    .from(events)
+    .where(and(
+      inAccount(events),
+      eq(events.eventType, 'scheduled'),
+      params.trackId ? eq(events.trackId, params.trackId) : undefined,
+      params.platform ? eq(events.platform, params.platform) : undefined,
+      gte(events.scheduledTime, from.toISOString()),
+      lt(events.scheduledTime, to.toISOString())
+    ))
+    .orderBy(asc(events.scheduledTime));
+    
+    const statsEvents: StatsEvent[] = rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      trackId: row.trackId,
+      platform: row.platform,
+      status: getEventStatus(row),
+      scheduledTime: new Date(row.scheduledTime),
+      generationStartedAt: row.generationStartedAt ? new Date(row.generationStartedAt) : null,
+      postTime: row.postTime ? new Date(row.postTime) : null,
+      error: row.error
+    }));
+    
+    const accountTracks = await db.select().from(tracks).where(inAccount(tracks));
+    const trackNames = new Map(accountTracks.map(track => [track.id, track.name]));
+    
+    const overdue = statsEvents.filter(event =>
+      event.scheduledTime < now && !['posted', 'cancelled'].includes(event.status)
+    );
+    const upcoming = statsEvents.filter(event =>
+      event.scheduledTime >= now && !['posted', 'cancelled', 'failed'].includes(event.status)
+    );
+    const platforms = [...new Set(statsEvents.map(event => event.platform ?? 'none'))];
+    
+    return JSON.stringify({
+      accountId: currentAccountId(),
+      range: {
+        startDate: localDate(from, timeZone),
+        endDate: localDate(new Date(to.getTime() - 1), timeZone),
+        timezone: timeZone
+      },
+      totals: {
+        events: statsEvents.length,
+        posted: statsEvents.filter(event => event.status === 'posted').length,
+        upcoming: upcoming.length,
+        overdue: overdue.length
+      },
+      byTrack: Object.entries(countBy(statsEvents, event => event.trackId ?? 'none'))
+        .map(([trackId, count]) => ({ trackId, trackName: trackNames.get(trackId) ?? null, count })),
+      byPlatform: countBy(statsEvents, event => event.platform ?? 'none'),
+      byStatus: countBy(statsEvents, event => event.status),
+      perDay: countPerPeriod(statsEvents, 'day', timeZone),
+      perWeek: countPerPeriod(statsEvents, 'week', timeZone),
+      gaps: {
+        minHours: params.gapHours,
+        gaps: to > now ? findGaps(upcoming.map(event => event.scheduledTime), from > now ? from : now, to, params.gapHours) : []
+      },
+      failures: {
+        ...failureRate(statsEvents),
+        byPlatform: Object.fromEntries(platforms.map(platform => [
+          platform,
+          failureRate(statsEvents.filter(event => (event.platform ?? 'none') === platform))
+        ]))
+      },
+      leadTime: averageLeadTimeHours(statsEvents),
+      overdue: overdue.slice(0, 20).map(event => ({
+        id: event.id,
+        name: event.name,
+        trackName: event.trackId ? trackNames.get(event.trackId) ?? null : null,
+        platform: event.platform,
+        status: event.status,
+        scheduledTime: event.scheduledTime.toISOString(),
+        localScheduledTime: formatInTimeZone(event.scheduledTime, timeZone),
+        error: event.error
+      }))
+    }, null, 2);
+  }
+});
+
+// Tool: Agenda
+addAccountTool({
+  name: 'timeline_get_agenda',
+  description: `Show the timeline as a Markdown agenda a chat client can display directly, plus the same data structured.
+
+- mode "day" or "week" (Monday to Sunday): a heading per day, events grouped by track with local time, platform, status and approval state
+- mode "month": a Monday-to-Sunday grid with each day's events
+
+Days are taken in the timezone parameter, else the workspace timezone. Defaults to this week.`,
+  parameters: z.object({
+    mode: z.enum(['day', 'week', 'month']).optional().default('week'),
+    date: isoDateTimeSchema.optional().describe('Any day in the period to show (YYYY-MM-DD); defaults to today'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for days and times'),
+    trackId: z.string().uuid().optional().describe('Only events of this track'),
+    platform: platformSchema.optional().describe('Only events for this platform'),
+    includeCancelled: z.boolean().optional().default(false)
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    const timeZone = resolveTimeZone(params.timezone);
+    
+    const days = getAgendaDays(params.mode, params.date ?? localDate(new Date(), timeZone));
+    const from = getDayBoundsInZone(days[0], timeZone).start;
+    const to = getDayBoundsInZone(days[days.length - 1], timeZone).end;
+    
+    // Make sure recurring series have events up to the horizon
+    await extendSeriesHorizons();
+    
+    const rows = await db.select({
+      event: events,
+      track: tracks
+    })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .where(and(
+      inAccount(events),
+      eq(events.eventType, 'scheduled'),
+      params.trackId ? eq(events.trackId, params.trackId) : undefined,
+      params.platform ? eq(events.platform, params.platform) : undefined,
+      params.includeCancelled ? undefined : or(isNull(events.status), not(eq(events.status, 'cancelled'))),
+      gte(events.scheduledTime, from.toISOString()),
+      lt(events.scheduledTime, to.toISOString())
+    ))
+    .orderBy(asc(tracks.order), asc(tracks.name), asc(events.scheduledTime));
+    
+    const agenda: AgendaDay[] = days.map(date => ({ date, tracks: [] }));
+    const byDate = new Map(agenda.map(day => [day.date, day]));
+    
+    for (const { event, track } of rows) {
+      const scheduledTime = new Date(event.scheduledTime);
+      const day = byDate.get(localDate(scheduledTime, timeZone));
+      if (!day) continue;
+      
+      let agendaTrack = day.tracks.find(entry => entry.trackId === track.id);
+      if (!agendaTrack) {
+        agendaTrack = { trackId: track.id, trackName: track.name, events: [] };
+        day.tracks.push(agendaTrack);
+      }
+      
+      const status = getEventStatus(event);
+      agendaTrack.events.push({
+        id: event.id,
+        name: event.name,
+        platform: event.platform,
+        status,
+        approval: getApprovalState(status, event.approved === 1),
+        reviewers: event.approvalReviewers ? JSON.parse(event.approvalReviewers) : [],
+        scheduledTime: scheduledTime.toISOString(),
+        localTime: formatInTimeZone(scheduledTime, timeZone).slice(11, 16)
+      });
+    }
+    
+    const title = formatAgendaTitle(params.mode, days);
+    
+    return JSON.stringify({
+      mode: params.mode,
+      timezone: timeZone,
+      startDate: days[0],
+      endDate: days[days.length - 1],
+      eventCount: rows.length,
+      markdown: params.mode === 'month' ? formatMonthGrid(title, agenda) : formatAgendaMarkdown(title, agenda),
+      days: agenda
+    }, null, 2);
+  }
+});
+
+const eventUpdatesSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  prompt: z.string().min(1).max(5000).optional(),
+  scheduledTime: isoDateTimeSchema.optional(),
+  approved: z.boolean().optional().describe('Prefer timeline_approve_event, which records who approved'),
+  platform: platformSchema.optional(),
+  metadata: z.record(z.any()).optional().describe('Platform-specific metadata'),
+  recurrence: recurrenceSchema.optional().describe('New recurrence rule for the series (scope "following" or "series" only)')
+});
+
+type EventUpdates = z.infer<typeof eventUpdatesSchema>;
+
+type EventDateField = 'scheduledTime' | 'generationTime' | 'postTime' | 'generationStartedAt' | 'approvalRequestedAt' | 'leaseExpiresAt' | 'createdAt' | 'updatedAt';
+type EventFlagField = 'contentGenerated' | 'approved' | 'posted' | 'generationStarted';
+
+/**
+ * Event columns as the tools set them: dates and flags stay Date and boolean until prepareEventForDb
+ */
+type EventFields = Partial<
+  Omit<Event, EventDateField | EventFlagField | 'status'>
+  & Record<EventDateField, Date | null>
+  & Record<EventFlagField, boolean>
+  & { status: EventStatus }
+>;
+
+/**
+ * Convert tool updates into event column updates (scheduledTime is handled by the caller for series)
+ * Offset-less scheduled times are read in `timeZone`. Approval goes through the lifecycle instead.
+ */
+function buildEventUpdates(fields: EventUpdates, timeZone: string): EventFields {
+  const updates: EventFields = { updatedAt: new Date() };
+  
+  if (fields.name) updates.name = fields.name;
+  if (fields.prompt) {
+    updates.prompt = fields.prompt; // Store prompt string directly
+    // Content must be regenerated (and re-approved) when the prompt changes
+    Object.assign(updates, getStatusFlags('scheduled'), { status: 'scheduled' });
+  }
+  if (fields.scheduledTime) {
+    const newScheduledTime = parseDateTimeInZone(fields.scheduledTime, timeZone);
+    if (newScheduledTime <= new Date()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+    updates.scheduledTime = newScheduledTime;
+    updates.generationTime = calculateGenerationTime(newScheduledTime);
+  }
+  if (fields.platform) updates.platform = fields.platform;
+  if (fields.metadata) updates.metadata = JSON.stringify(fields.metadata);
+  
+  return updates;
+}
+
+/**
+ * Occurrences of a series that edits and removals may change: not posted, and not being generated or posted by a worker
+ */
+function editableOccurrences(seriesId: string) {
+  return and(
+    eq(events.seriesId, seriesId),
+    eq(events.posted, 0),
+    or(isNull(events.status), notInArray(events.status, ['generating', 'posting', 'posted']))
+  );
+}
+
+/**
+ * The other occurrences of a series, which stay as they are: posted ones and ones a worker is generating or posting
+ */
+function lockedOccurrences(seriesId: string) {
+  return and(
+    eq(events.seriesId, seriesId),
+    or(eq(events.posted, 1), inArray(events.status, ['generating', 'posting', 'posted']))
+  );
+}
+
+/**
+ * Approve (or withdraw approval of) every occurrence of a series whose content is ready for it
+ */
+async function setSeriesApproval(seriesId: string, approved: boolean) {
+  const db = await getDb();
+  const to: EventStatus = approved ? 'approved' : 'generated';
+  const from: EventStatus[] = approved ? ['generated', 'awaiting_approval'] : ['awaiting_approval', 'approved'];
+  
+  const where = and(eq(events.seriesId, seriesId), inArray(events.status, from));
+  await trackEventChanges(where, () => db.update(events)
+    .set(prepareEventForDb({ ...getStatusFlags(to), status: to, updatedAt: new Date() }))
+    .where(where));
+}
+
+/**
+ * Apply updates to the "following" occurrences or the whole series an event belongs to
+ * Occurrences created from new timing, or moved to another platform, are checked against the cadence rules
+ */
+async function updateSeriesEvents(
+  eventId: string,
+  scope: 'following' | 'series',
+  fields: EventUpdates,
+  timeZoneParam?: string,
+  overrideCadence = false
+) {
+  const db = await getDb();
+  
+  const [event] = await db.select().from(events).where(and(eq(events.id, eventId), inAccount(events)));
+  if (!event) {
+    return { success: false, error: 'Event not found' };
+  }
+  if (!event.seriesId) {
+    return { success: false, error: 'Event is not part of a recurring series. Use scope "this".' };
+  }
+  
+  const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, event.seriesId));
+  const [track] = await db.select().from(tracks).where(eq(tracks.id, series.trackId!));
+  const timeZone = resolveTimeZone(timeZoneParam, series.timezone, track?.timezone);
+  const cut = new Date(event.recurrenceId ?? event.scheduledTime);
+  const dtstart = new Date(series.dtstart);
+  
+  let newTime: Date | null = null;
+  if (fields.scheduledTime) {
+    newTime = parseDateTimeInZone(fields.scheduledTime, timeZone);
+    if (newTime <= new Date()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+  }
+  const delta = newTime ? newTime.getTime() - cut.getTime() : 0;
+  
+  const template: Partial<EventSeries> = {};
+  if (fields.name) template.name = fields.name;
+  if (fields.prompt) template.prompt = fields.prompt;
+  if (fields.platform) template.platform = fields.platform;
+  if (fields.metadata) template.metadata = JSON.stringify(fields.metadata);
+  
+  const { scheduledTime, recurrence, approved, ...eventFields } = fields;
+  const eventUpdates = prepareEventForDb(buildEventUpdates(eventFields, timeZone));
+  const existingExdates = (series.exdates ? JSON.parse(series.exdates) as string[] : []);
+  const cadenceCandidate = { trackId: series.trackId ?? '', platform: fields.platform ?? series.platform ?? 'x', timeZone };
+  
+  // Splitting at the first occurrence is the same as editing the whole series
+  if (scope === 'following' && cut > dtstart) {
+    const { before, after } = splitRecurrence(parseRRule(series.rrule), dtstart, cut, series.timezone ?? undefined);
+    const newRule = recurrence ? parseRRule(recurrence.rrule) : after;
+    if (!newRule) {
+      return { success: false, error: 'No occurrences remain from this event on' };
+    }
+    
+    const following = and(editableOccurrences(series.id), gte(events.recurrenceId, cut.toISOString()));
+    
+    // Occurrences from here on that were already posted (or are being generated or posted) stay with
+    // the original series; exclude them (moved with the series) so the new series does not post them again
+    const locked = await db.select({ recurrenceId: events.recurrenceId })
+      .from(events)
+      .where(and(lockedOccurrences(series.id), gte(events.recurrenceId, cut.toISOString())));
+    const lockedExdates = locked.map(({ recurrenceId }) => new Date(new Date(recurrenceId!).getTime() + delta).toISOString());
+    
+    const followingExdates = [
+      ...(recurrence?.exdates?.map(date => parseDateTimeInZone(date, timeZone).toISOString())
+        ?? existingExdates.filter(date => new Date(date) >= cut).map(date => new Date(new Date(date).getTime() + delta).toISOString())),
+      ...lockedExdates
+    ];
+    
+    if (!overrideCadence && (newTime || recurrence || fields.platform)) {
+      const replaced = await db.select({ id: events.id }).from(events).where(following);
+      const occurrences = expandRecurrence(
+        newRule,
+        newTime ?? cut,
+        getSeriesHorizon(),
+        followingExdates.map(date => new Date(date)),
+        series.timezone ?? undefined
+      );
+      const conflict = await checkSeriesCadence(occurrences, cadenceCandidate, fields.name ?? series.name, replaced.map(({ id }) => id));
+      if (conflict) {
+        return conflict;
+      }
+    }
+    
+    // End the original series just before this occurrence
+    await db.update(eventSeries)
+      .set({
+        rrule: formatRRule(before),
+        exdates: JSON.stringify(existingExdates.filter(date => new Date(date) < cut)),
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(eventSeries.id, series.id));
+    
+    const removed = await trackEventChanges(following, () => db.delete(events)
+      .where(following)
+      .returning({ id: events.id }));
+    notifyEventsChanged(event.trackId, removed.map(removedEvent => removedEvent.id));
+    
+    // Start a new series from this occurrence with the updated template
+    const newSeriesId = uuidv4();
+    
+    await db.insert(eventSeries).values({
+      id: newSeriesId,
+      postyAccountId: series.postyAccountId,
+      trackId: series.trackId,
+      name: series.name,
+      platform: series.platform,
+      prompt: series.prompt,
+      agent: series.agent,
+      approvalVia: series.approvalVia,
+      mcpTools: series.mcpTools,
+      metadata: series.metadata,
+      ...template,
+      rrule: formatRRule(newRule),
+      dtstart: (newTime ?? cut).toISOString(),
+      timezone: series.timezone,
+      exdates: JSON.stringify(followingExdates.map(date => new Date(date).toISOString()))
+    });
+    
+    const [newSeries] = await db.select().from(eventSeries).where(eq(eventSeries.id, newSeriesId));
+    const created = await materializeSeries(newSeries);
+    
+    const [materialized] = await db.select().from(eventSeries).where(eq(eventSeries.id, newSeriesId));
+    
+    return {
+      success: true,
+      scope,
+      previousSeriesId: series.id,
+      series: formatSeries(materialized),
+      removedEvents: removed.length,
+      events: created
+    };
+  }
+  
+  // Whole series: update the template and every occurrence that has not been posted
+  const seriesUpdates: Partial<EventSeries> = { ...template, updatedAt: new Date().toISOString() };
+  const reschedule = newTime !== null || recurrence !== undefined;
+  const now = new Date();
+  
+  if (newTime) {
+    seriesUpdates.dtstart = new Date(dtstart.getTime() + delta).toISOString();
+  }
+  if (recurrence) {
+    seriesUpdates.rrule = formatRRule(parseRRule(recurrence.rrule));
+  }
+  if (reschedule) {
+    const exdates = recurrence
+      ? recurrence.exdates?.map(date => parseDateTimeInZone(date, timeZone).toISOString()) ?? existingExdates
+      : existingExdates.map(date => new Date(new Date(date).getTime() + delta).toISOString());
+    
+    // Occurrences that are not replaced (posted, or being generated or posted) must not come back at their new time
+    const locked = await db.select({ recurrenceId: events.recurrenceId })
+      .from(events)
+      .where(lockedOccurrences(series.id));
+    const lockedExdates = locked
+      .map(({ recurrenceId }) => new Date(new Date(recurrenceId!).getTime() + delta))
+      .filter(date => date > now)
+      .map(date => date.toISOString());
+    
+    seriesUpdates.exdates = JSON.stringify([...exdates, ...lockedExdates]);
+  }
+  
+  if (!overrideCadence && (reschedule || fields.platform)) {
+    // Upcoming occurrences are replaced by the new timing, or keep their times on the new platform
+    const upcoming = await db.select({ id: events.id, scheduledTime: events.scheduledTime })
+      .from(events)
+      .where(and(editableOccurrences(series.id), gte(events.scheduledTime, now.toISOString())));
+    const occurrences = reschedule
+      ? expandRecurrence(
+        parseRRule(seriesUpdates.rrule ?? series.rrule),
+        new Date(seriesUpdates.dtstart ?? series.dtstart),
+        getSeriesHorizon(),
+        (JSON.parse(seriesUpdates.exdates!) as string[]).map(date => new Date(date)),
+        series.timezone ?? undefined
+      ).filter(occurrence => occurrence > now)
+      : upcoming.map(occurrence => new Date(occurrence.scheduledTime));
+    const conflict = await checkSeriesCadence(occurrences, cadenceCandidate, fields.name ?? series.name, upcoming.map(({ id }) => id));
+    if (conflict) {
+      return conflict;
+    }
+  }
+  
+  await db.update(eventSeries)
+    .set(seriesUpdates)
+    .where(eq(eventSeries.id, series.id));
+  
+  let removed: { id: string }[] = [];
+  let created: { id: string; scheduledTime: string; scheduledTimeLocal: string }[] = [];
+  
+  if (reschedule) {
+    // Replace upcoming occurrences with ones generated from the new timing
+    const upcoming = and(editableOccurrences(series.id), gte(events.scheduledTime, now.toISOString()));
+    removed = await trackEventChanges(upcoming, () => db.delete(events)
+      .where(upcoming)
+      .returning({ id: events.id }));
+  }
+  
+  // Occurrences being generated or posted right now are left alone
+  const editable = editableOccurrences(series.id);
+  const updated = await trackEventChanges(editable, () => db.update(events)
+    .set(eventUpdates)
+    .where(editable)
+    .returning({ id: events.id }));
+  
+  if (reschedule) {
+    await db.update(eventSeries)
+      .set({ materializedUntil: now.toISOString() })
+      .where(eq(eventSeries.id, series.id));
+    
+    const [rescheduled] = await db.select().from(eventSeries).where(eq(eventSeries.id, series.id));
+    created = await materializeSeries(rescheduled);
+  }
+  
+  if (approved !== undefined) {
+    await setSeriesApproval(series.id, approved);
+  }
+  
+  notifyEventsChanged(event.trackId, [...updated, ...removed].map(changed => changed.id));
+  
+  const [materialized] = await db.select().from(eventSeries).where(eq(eventSeries.id, series.id));
+  
+  return {
+    success: true,
+    scope: 'series',
+    series: formatSeries(materialized),
+    updatedEvents: updated.length,
+    removedEvents: removed.length,
+    events: created
+  };
+}
+
+// Tool: Update scheduled event with validation
+addAccountTool({
+  name: 'timeline_update_scheduled_event',
+  description: 'Update an existing scheduled event. For events in a recurring series, scope selects "this" occurrence only (default), "this and following" occurrences (splits the series) or the whole "series".',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    scope: seriesScopeSchema.optional().default('this').describe('For recurring events: "this", "following" or "series"'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for an offset-less scheduledTime. Defaults to the track timezone, then the workspace timezone.'),
+    updates: eventUpdatesSchema.refine(data => Object.keys(data).length > 0, {
+      message: 'At least one update field must be provided'
+    }),
+    overrideCadence: z.boolean().optional().default(false).describe('Apply a new time or platform even if it breaks cadence rules. For "following" and "series", every occurrence created or moved is checked.')
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    try {
+      // A new platform or metadata must satisfy the platform registry
+      if (params.updates.platform || params.updates.metadata) {
+        const [event] = await db.select().from(events).where(and(eq(events.id, params.eventId), inAccount(events)));
+        if (event) {
+          const metadata = validateEventMetadata(
+            params.updates.platform ?? (event.platform || 'x') as Platform,
+            params.updates.metadata ?? (event.metadata ? JSON.parse(event.metadata) : {})
+          );
+          if (params.updates.metadata) {
+            params.updates.metadata = metadata;
+          }
+        }
+      }
+      
+      if (params.scope !== 'this') {
+        return JSON.stringify(await updateSeriesEvents(params.eventId, params.scope, params.updates, params.timezone, params.overrideCadence), null, 2);
+      }
+      
+      if (params.updates.recurrence) {
+        throw new Error('Recurrence can only be changed with scope "following" or "series"');
+      }
+      
+      const [current] = await db.select({ event: events, timezone: tracks.timezone })
+        .from(events)
+        .innerJoin(tracks, eq(events.trackId, tracks.id))
+        .where(and(eq(events.id, params.eventId), inAccount(events)));
+      
+      if (!current) {
+        return JSON.stringify({
+          success: false,
+          error: 'Event not found'
+        }, null, 2);
+      }
+      
+      const timeZone = resolveTimeZone(params.timezone, current.timezone);
+      const status = getEventStatus(current.event);
+      
+      if (params.updates.prompt && ['generating', 'posting', 'posted'].includes(status)) {
+        throw new Error(`Cannot change the prompt of an event that is ${status}`);
+      }
+      
+      const updates = buildEventUpdates(params.updates, timeZone);
+      
+      // Approval moves the event through the lifecycle so status and booleans stay in step
+      let approvedNow = false;
+      if (params.updates.approved !== undefined) {
+        const from: EventStatus = updates.status ?? status;
+        const to: EventStatus = params.updates.approved ? 'approved' : 'generated';
+        if (from !== to) {
+          if (!canTransition(from, to)) {
+            throw new Error(`Cannot ${params.updates.approved ? 'approve' : 'withdraw approval of'} an event that is ${from}`);
+          }
+          Object.assign(updates, getStatusFlags(to), { status: to });
+          approvedNow = params.updates.approved;
+        }
+      }
+      
+      // Cadence rules apply when the event moves to another time or platform
+      if (!params.overrideCadence && (updates.scheduledTime || updates.platform)) {
+        const cadence = await checkCadence({
+          trackId: current.event.trackId || '',
+          platform: updates.platform ?? current.event.platform ?? 'x',
+          scheduledTime: updates.scheduledTime ?? new Date(current.event.scheduledTime),
+          timeZone
+        }, [params.eventId]);
+        if (cadence) {
+          return JSON.stringify(cadenceConflictResponse(cadence), null, 2);
+        }
+      }
+      
+      // Convert dates and booleans for SQLite
+      const dbUpdates = prepareEventForDb(updates);
+      
+      await trackEventChanges(eq(events.id, params.eventId), () => db.update(events)
+        .set(dbUpdates)
+        .where(eq(events.id, params.eventId)));
+      
+      if (approvedNow) {
+        await recordApproval(params.eventId, 'approved', { via: current.event.approvalVia });
+      }
+      
+      notifyEventsChanged(current.event.trackId, [params.eventId]);
+        
+      const [updated] = await db.select().from(events).where(eq(events.id, params.eventId));
+      
+      return JSON.stringify({
+        success: true,
+        event: {
+          id: updated.id,
+          name: updated.name,
+          scheduledTime: updated.scheduledTime,
+          scheduledTimeLocal: formatInTimeZone(new Date(updated.scheduledTime), timeZone),
+          timezone: timeZone,
+          status: getEventStatus(updated),
+          approved: updated.approved,
+          platform: updated.platform,
+          seriesId: updated.seriesId ?? undefined
+        }
+      }, null, 2);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return JSON.stringify({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        }, null, 2);
+      }
+      throw error;
+    }
+  }
+});
+
+// Trash
+// Removed tracks, series and events are kept in the trash with the rows removed along with them,
+// and their media folders stay on disk, until the trash is emptied; timeline_restore puts them back
+
+interface TrashContents {
+  tracks: Track[];
+  series: EventSeries[];
+  events: Event[];
+  automations: Automation[];
+  cadenceRules: CadenceRule[];
+  approvals: EventApproval[];
+}
+
+const dryRunSchema = z.boolean().optional().default(false)
+  .describe('List the events and media folders that would be removed, without removing anything');
+
+async function selectApprovals(removed: Event[]): Promise<EventApproval[]> {
+  if (removed.length === 0) return [];
+  
+  const db = await getDb();
+  return db.select().from(eventApprovals).where(inArray(eventApprovals.eventId, removed.map(event => event.id)));
+}
+
+/**
+ * Rows removed along with a track: its events, series, automations and track cadence rules
+ */
+async function collectTrackContents(track: Track): Promise<TrashContents> {
+  const db = await getDb();
+  const trackEvents = await db.select().from(events).where(eq(events.trackId, track.id));
+  
+  return {
+    tracks: [track],
+    series: await db.select().from(eventSeries).where(eq(eventSeries.trackId, track.id)),
+    events: trackEvents,
+    automations: await db.select().from(automations).where(eq(automations.trackId, track.id)),
+    cadenceRules: await db.select().from(cadenceRules).where(eq(cadenceRules.trackId, track.id)),
+    approvals: await selectApprovals(trackEvents)
+  };
+}
+
+/**
+ * Rows removed along with events, and the series they end (or shorten) as it was before
+ */
+async function collectEventContents(removed: Event[], series: EventSeries[] = []): Promise<TrashContents> {
+  return {
+    tracks: [],
+    series,
+    events: removed,
+    automations: [],
+    cadenceRules: [],
+    approvals: await selectApprovals(removed)
+  };
+}
+
+/**
+ * Workspace folders holding media of removed rows: track folders, and event folders outside them
+ */
+function trashMediaPaths(contents: TrashContents): string[] {
+  const trackFolders = contents.tracks.map(track => getTrackFolder(track.name));
+  const eventFolders = contents.events
+    .map(event => event.mediaPath)
+    .filter((mediaPath): mediaPath is string => !!mediaPath)
+    .filter(mediaPath => !trackFolders.some(folder => mediaPath.startsWith(folder + path.sep)));
+  
+  return [...new Set([...trackFolders, ...eventFolders])];
+}
+
+/**
+ * What a removal affects, listed for dry runs and after removing
+ */
+function describeRemoval(contents: TrashContents) {
+  return {
+    tracks: contents.tracks.map(track => ({ id: track.id, name: track.name, type: track.type })),
+    series: contents.series.map(series => ({ id: series.id, name: series.name, rrule: series.rrule })),
+    events: contents.events.map(event => ({
+      id: event.id,
+      name: event.name,
+      scheduledTime: event.scheduledTime,
+      status: getEventStatus(event)
+    })),
+    automations: contents.automations.map(automation => ({ id: automation.id, name: automation.name })),
+    cadenceRules: contents.cadenceRules.length,
+    mediaFolders: trashMediaPaths(contents)
+  };
+}
+
+/**
+ * Keep rows about to be removed in the trash; the caller deletes them afterwards
+ */
+async function moveToTrash(kind: TrashItem['kind'], name: string, trackId: string | null, contents: TrashContents): Promise<string> {
+  const db = await getDb();
+  const trashId = uuidv4();
+  
+  await db.insert(trashItems).values({
+    id: trashId,
+    postyAccountId: currentAccountId(),
+    kind,
+    name,
+    trackId,
+    contents: JSON.stringify(contents),
+    mediaPaths: JSON.stringify(trashMediaPaths(contents)),
+    eventCount: contents.events.length,
+    deletedAt: new Date().toISOString()
+  });
+  return trashId;
+}
+
+function dryRunResponse(contents: TrashContents): string {
+  return JSON.stringify({
+    success: true,
+    dryRun: true,
+    wouldRemove: describeRemoval(contents)
+  }, null, 2);
+}
+
+// Tool: Remove scheduled event
+addAccountTool({
+  name: 'timeline_remove_scheduled_event',
+  description: 'Move a scheduled event to the trash (restore it with timeline_restore). For events in a recurring series, scope selects "this" occurrence only (default), "this and following" occurrences or the whole "series"; occurrences that are posted or being generated or posted are kept. Use dryRun to see which events would be removed.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    scope: seriesScopeSchema.optional().default('this').describe('For recurring events: "this", "following" or "series"'),
+    dryRun: dryRunSchema
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const [event] = await db.select().from(events).where(and(eq(events.id, params.eventId), inAccount(events)));
+    
+    if (params.scope === 'this' || !event?.seriesId) {
+      if (!event) {
+        return JSON.stringify({
+          success: false,
+          error: 'Event not found'
+        }, null, 2);
+      }
+      if (params.scope !== 'this') {
+        return JSON.stringify({
+          success: false,
+          error: 'Event is not part of a recurring series. Use scope "this".'
+        }, null, 2);
+      }
+      
+      const contents = await collectEventContents([event]);
+      if (params.dryRun) {
+        return dryRunResponse(contents);
+      }
+      const trashId = await moveToTrash('event', event.name, event.trackId, contents);
+      
+      const where = and(eq(events.id, params.eventId), inAccount(events));
+      await trackEventChanges(where, () => db.delete(events).where(where));
+      notifyEventsChanged(event.trackId, [params.eventId]);
+      
+      // Exclude the occurrence so the series does not recreate it
+      if (event.seriesId && event.recurrenceId) {
+        const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, event.seriesId));
+        const exdates = series?.exdates ? JSON.parse(series.exdates) as string[] : [];
+        await db.update(eventSeries)
+          .set({ exdates: JSON.stringify([...exdates, event.recurrenceId]), updatedAt: new Date().toISOString() })
+          .where(eq(eventSeries.id, event.seriesId));
+      }
+      
+      return JSON.stringify({
+        success: true,
+        message: `Event ${params.eventId} moved to the trash`,
+        trashId,
+        removed: describeRemoval(contents)
+      }, null, 2);
+    }
+    
+    const [series] = await db.select().from(eventSeries).where(eq(eventSeries.id, event.seriesId));
+    const cut = new Date(event.recurrenceId ?? event.scheduledTime);
+    const dtstart = new Date(series.dtstart);
+    
+    // Posted occurrences are history and ones being generated or posted belong to a worker:
+    // they stay on the timeline instead of going to the trash
+    const removable = editableOccurrences(series.id);
+    
+    if (params.scope === 'series' || cut <= dtstart) {
+      const contents = await collectEventContents(await db.select().from(events).where(removable), [series]);
+      if (params.dryRun) {
+        return dryRunResponse(contents);
+      }
+      const trashId = await moveToTrash('series', series.name, series.trackId, contents);
+      
+      const removed = await trackEventChanges(removable, () => db.delete(events)
+        .where(removable)
+        .returning({ id: events.id }));
+      
+      // Detach what is left (posted and in-progress occurrences) so deleting the series does not cascade to them
+      const kept = await trackEventChanges(eq(events.seriesId, series.id), () => db.update(events)
+        .set({ seriesId: null, updatedAt: new Date().toISOString() })
+        .where(eq(events.seriesId, series.id))
+        .returning({ id: events.id }));
+      await db.delete(eventSeries).where(eq(eventSeries.id, series.id));
+      notifyEventsChanged(event.trackId, [...removed, ...kept].map(changed => changed.id));
+      
+      return JSON.stringify({
+        success: true,
+        message: `Series "${series.name}" moved to the trash`,
+        deletedEvents: removed.length,
+        keptEvents: kept.length,
+        trashId,
+        removed: describeRemoval(contents)
+      }, null, 2);
+    }
+    
+    const following = and(removable, gte(events.recurrenceId, cut.toISOString()));
+    const contents = await collectEventContents(await db.select().from(events).where(following), [series]);
+    if (params.dryRun) {
+      return dryRunResponse(contents);
+    }
+    const trashId = await moveToTrash('series', `${series.name} (from ${cut.toISOString()})`, series.trackId, contents);
+    
+    // End the series just before this occurrence
+    const { before } = splitRecurrence(parseRRule(series.rrule), dtstart, cut, series.timezone ?? undefined);
+    const exdates = series.exdates ? JSON.parse(series.exdates) as string[] : [];
+    
+    await db.update(eventSeries)
+      .set({
+        rrule: formatRRule(before),
+        exdates: JSON.stringify(exdates.filter(date => new Date(date) < cut)),
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(eventSeries.id, series.id));
+    
+    const removed = await trackEventChanges(following, () => db.delete(events)
+      .where(following)
+      .returning({ id: events.id }));
+    notifyEventsChanged(event.trackId, removed.map(removedEvent => removedEvent.id));
+    
+    return JSON.stringify({
+      success: true,
+      message: `Moved "${series.name}" occurrences from ${cut.toISOString()} on to the trash`,
+      deletedEvents: removed.length,
+      trashId,
+      removed: describeRemoval(contents)
+    }, null, 2);
+  }
+});
+
+// Tool: Remove track
+addAccountTool({
+  name: 'timeline_remove_track',
+  description: 'Move a track to the trash together with all its events, series, automations and track cadence rules (restore them with timeline_restore). Media folders stay on disk until the trash is emptied. Use dryRun to see exactly what would be removed.',
+  parameters: z.object({
+    trackId: z.string().uuid(),
+    dryRun: dryRunSchema
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    // Get track details before deletion
+    const [track] = await db.select()
+      .from(tracks)
+      .where(and(eq(tracks.id, params.trackId), inAccount(tracks)))
+      .limit(1);
+    
+    if (!track) {
+      return JSON.stringify({
+        success: false,
+        message: `Track ${params.trackId} not found`
+      }, null, 2);
+    }
+    
+    // Everything the cascade is about to delete
+    const contents = await collectTrackContents(track);
+    if (params.dryRun) {
+      return dryRunResponse(contents);
+    }
+    const trashId = await moveToTrash('track', track.name, track.id, contents);
+    
+    // Delete the track (cascade will handle events)
+    await trackEventChanges(eq(events.trackId, params.trackId), () => db.delete(tracks).where(eq(tracks.id, params.trackId)));
+    notifyTracksChanged([params.trackId]);
+    notifyEventsChanged(null, contents.events.map(event => event.id));
+    
+    return JSON.stringify({
+      success: true,
+      message: `Track "${track.name}" moved to the trash`,
+      deletedEvents: contents.events.length,
+      trackType: track.type,
+      trashId,
+      removed: describeRemoval(contents)
+    }, null, 2);
+  }
+});
+
+function formatTrashItem(item: TrashItem) {
+  return {
+    id: item.id,
+    kind: item.kind,
+    name: item.name,
+    trackId: item.trackId,
+    eventCount: item.eventCount,
+    mediaFolders: item.mediaPaths ? JSON.parse(item.mediaPaths) as string[] : [],
+    deletedAt: item.deletedAt
+  };
+}
+
+// Tool: List trash
+addAccountTool({
+  name: 'timeline_list_trash',
+  description: 'List removed tracks, series and events waiting in the trash, newest first, with the media folders they left on disk',
+  parameters: z.object({
+    kind: z.enum(['track', 'series', 'event']).optional().describe('Filter by what was removed'),
+    limit: z.number().int().positive().max(100).optional().default(50),
+    offset: z.number().int().nonnegative().optional().default(0)
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const where = and(inAccount(trashItems), params.kind ? eq(trashItems.kind, params.kind) : undefined);
+    
+    const items = await db.select().from(trashItems)
+      .where(where)
+      .orderBy(desc(trashItems.deletedAt))
+      .limit(params.limit)
+      .offset(params.offset);
+    const [{ total }] = await db.select({ total: sql<number>`count(*)`.mapWith(Number) }).from(trashItems).where(where);
+    
+    return JSON.stringify({
+      items: items.map(formatTrashItem),
+      pagination: {
+        limit: params.limit,
+        offset: params.offset,
+        total
+      }
+    }, null, 2);
+  }
+});
+
+// Tool: Restore from trash
+addAccountTool({
+  name: 'timeline_restore',
+  description: 'Put a trashed track, series or event back, with everything removed along with it (events, series, automations, cadence rules and approval history). Events that are already back, e.g. through timeline_undo_last_change, are skipped.',
+  parameters: z.object({
+    trashId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const [item] = await db.select().from(trashItems)
+      .where(and(eq(trashItems.id, params.trashId), inAccount(trashItems)));
+    
+    if (!item) {
+      return JSON.stringify({
+        success: false,
+        error: `Trash item ${params.trashId} not found`
+      }, null, 2);
+    }
+    
+    const contents: TrashContents = JSON.parse(item.contents);
+    
+    // Track names are unique per type within an account
+    for (const track of contents.tracks) {
+      const [clash] = await db.select({ id: tracks.id }).from(tracks)
+        .where(and(eq(tracks.name, track.name), eq(tracks.type, track.type), inAccount(tracks)));
+      if (clash) {
+        return JSON.stringify({
+          success: false,
+          error: `A ${track.type} track named "${track.name}" already exists. Rename or remove it before restoring.`
+        }, null, 2);
+      }
+    }
+    
+    // Series and events go back on their own track, which must exist or come back with them
+    const restoredTrackIds = new Set(contents.tracks.map(track => track.id));
+    const neededTrackIds = [...new Set([...contents.series, ...contents.events]
+      .map(row => row.trackId)
+      .filter((trackId): trackId is string => !!trackId && !restoredTrackIds.has(trackId)))];
+    const liveTracks = neededTrackIds.length > 0
+      ? await db.select({ id: tracks.id }).from(tracks).where(and(inArray(tracks.id, neededTrackIds), inAccount(tracks)))
+      : [];
+    if (liveTracks.length < neededTrackIds.length) {
+      return JSON.stringify({
+        success: false,
+        error: `The track of this ${item.kind} no longer exists. Restore the track from the trash first.`
+      }, null, 2);
+    }
+    
+    const eventIds = contents.events.map(event => event.id);
+    const existingEvents = eventIds.length > 0
+      ? await db.select({ id: events.id }).from(events).where(inArray(events.id, eventIds))
+      : [];
+    const existingEventIds = new Set(existingEvents.map(event => event.id));
+    const restoredEvents = contents.events.filter(event => !existingEventIds.has(event.id));
+    
+    const seriesIds = [...new Set([
+      ...contents.series.map(series => series.id),
+      ...restoredEvents.map(event => event.seriesId).filter((seriesId): seriesId is string => !!seriesId)
+    ])];
+    const liveSeries = seriesIds.length > 0
+      ? await db.select().from(eventSeries).where(inArray(eventSeries.id, seriesIds))
+      : [];
+    const liveSeriesIds = new Set(liveSeries.map(series => series.id));
+    const restoredSeriesIds = new Set(contents.series.map(series => series.id));
+    
+    // Occurrences removed one by one were excluded from their series; take them off its exdates again
+    const exdateUpdates = liveSeries
+      .filter(series => !restoredSeriesIds.has(series.id))
+      .map(series => {
+        const recurrenceIds = new Set(restoredEvents
+          .filter(event => event.seriesId === series.id && event.recurrenceId)
+          .map(event => new Date(event.recurrenceId!).getTime()));
+        const exdates = series.exdates ? JSON.parse(series.exdates) as string[] : [];
+        return { id: series.id, exdates: exdates.filter(date => !recurrenceIds.has(new Date(date).getTime())) };
+      });
+    
+    const store = await openStorage();
+    await store.transaction((tx) => [
+      ...contents.tracks.map(track => tx.insert(tracks).values(track)),
+      // A shortened series gets its earlier rule back; a removed one is re-created
+      ...contents.series.map(series => liveSeriesIds.has(series.id)
+        ? tx.update(eventSeries).set(series).where(eq(eventSeries.id, series.id))
+        : tx.insert(eventSeries).values(series)),
+      ...exdateUpdates.map(({ id, exdates }) => tx.update(eventSeries)
+        .set({ exdates: JSON.stringify(exdates), updatedAt: new Date().toISOString() })
+        .where(eq(eventSeries.id, id))),
+      ...restoredEvents.map(event => {
+        const keepsSeries = !!event.seriesId && (liveSeriesIds.has(event.seriesId) || restoredSeriesIds.has(event.seriesId));
+        return tx.insert(events).values({
+          ...resumedEventRow(event),
+          seriesId: keepsSeries ? event.seriesId : null,
+          recurrenceId: keepsSeries ? event.recurrenceId : null
+        });
+      }),
+      ...contents.automations.map(automation => tx.insert(automations).values(automation)),
+      ...contents.cadenceRules.map(rule => tx.insert(cadenceRules).values(rule)),
+      ...contents.approvals
+        .filter(approval => !existingEventIds.has(approval.eventId))
+        .map(approval => tx.insert(eventApprovals).values(approval)),
+      tx.delete(trashItems).where(eq(trashItems.id, item.id))
+    ]);
+    
+    await recordEventsCreated(restoredEvents.map(event => event.id));
+    
+    if (contents.tracks.length > 0) {
+      notifyTracksChanged(contents.tracks.map(track => track.id));
+    }
+    for (const event of restoredEvents) {
+      notifyEventsChanged(event.trackId, [event.id]);
+    }
+    
+    return JSON.stringify({
+      success: true,
+      message: `Restored ${item.kind} "${item.name}"`,
+      restored: describeRemoval({ ...contents, events: restoredEvents }),
+      skippedEvents: [...existingEventIds]
+    }, null, 2);
+  }
+});
+
+/**
+ * Whether a live track or event (of any account: media folders are shared by the workspace) still uses a folder
+ */
+async function isMediaFolderInUse(folder: string): Promise<boolean> {
+  const db = await getDb();
+  
+  const [event] = await db.select({ id: events.id }).from(events)
+    .where(or(eq(events.mediaPath, folder), like(events.mediaPath, `${folder}${path.sep}%`)))
+    .limit(1);
+  if (event) return true;
+  
+  const liveTracks = await db.select({ name: tracks.name }).from(tracks);
+  return liveTracks.some(track => getTrackFolder(track.name) === folder);
+}
+
+// Tool: Empty trash
+addAccountTool({
+  name: 'timeline_empty_trash',
+  description: 'Permanently delete items from the trash and deal with the media folders they left: move them to the workspace "archive" folder (default), delete them, or keep them. Folders a live track or event still uses are kept. Empties the whole trash unless trashIds or olderThanDays select items.',
+  parameters: z.object({
+    trashIds: z.array(z.string().uuid()).min(1).optional().describe('Trash items to empty'),
+    olderThanDays: z.number().int().nonnegative().optional().describe('Only items removed at least this many days ago'),
+    media: z.enum(['archive', 'delete', 'keep']).optional().default('archive').describe('What to do with the media folders'),
+    dryRun: z.boolean().optional().default(false).describe('List the items and folders that would be affected, without changing anything')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const whereConditions = [inAccount(trashItems)];
+      if (params.trashIds) {
+        whereConditions.push(inArray(trashItems.id, params.trashIds));
+      }
+      if (params.olderThanDays !== undefined) {
+        const cutoff = new Date(Date.now() - params.olderThanDays * 24 * 60 * 60 * 1000);
+        whereConditions.push(lte(trashItems.deletedAt, cutoff.toISOString()));
+      }
+      
+      const items = await db.select().from(trashItems)
+        .where(and(...whereConditions))
+        .orderBy(asc(trashItems.deletedAt));
+      
+      const folders: { path: string; action: 'archived' | 'deleted' | 'kept' | 'in use' | 'missing'; archivedTo?: string }[] = [];
+      const handled = new Set<string>();
+      
+      for (const item of items) {
+        const mediaPaths: string[] = item.mediaPaths ? JSON.parse(item.mediaPaths) : [];
+        
+        for (const folder of mediaPaths) {
+          if (handled.has(folder)) continue;
+          handled.add(folder);
+          
+          const fullPath = resolveInsideWorkspace(folder);
+          const exists = await fs.stat(fullPath).then(() => true, () => false);
+          
+          if (!exists) {
+            folders.push({ path: folder, action: 'missing' });
+          } else if (params.media === 'keep') {
+            folders.push({ path: folder, action: 'kept' });
+          } else if (await isMediaFolderInUse(folder)) {
+            folders.push({ path: folder, action: 'in use' });
+          } else if (params.media === 'delete') {
+            if (!params.dryRun) {
+              await fs.rm(fullPath, { recursive: true, force: true });
+            }
+            folders.push({ path: folder, action: 'deleted' });
+          } else {
+            // Keep the folder's place under archive/, next to any earlier archive of the same folder
+            let archivedTo = path.join('archive', folder);
+            if (await fs.stat(resolveInsideWorkspace(archivedTo)).then(() => true, () => false)) {
+              archivedTo = `${archivedTo}-${item.id.slice(0, 8)}`;
+            }
+            if (!params.dryRun) {
+              await fs.mkdir(path.dirname(resolveInsideWorkspace(archivedTo)), { recursive: true });
+              await fs.rename(fullPath, resolveInsideWorkspace(archivedTo));
+            }
+            folders.push({ path: folder, action: 'archived', archivedTo });
+          }
+        }
+      }
+      
+      if (!params.dryRun && items.length > 0) {
+        await db.delete(trashItems).where(inArray(trashItems.id, items.map(item => item.id)));
+      }
+      
+      return JSON.stringify({
+        success: true,
+        dryRun: params.dryRun || undefined,
+        emptied: items.map(formatTrashItem),
+        media: params.media,
+        folders
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in empty_trash:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+/**
+ * Move an event to a new lifecycle status, keeping the boolean columns in step
+ * The write only applies if the event has not changed since it was read
+ */
+async function transitionEvent(eventId: string, to: EventStatus, fields: EventFields = {}) {
+  const db = await getDb();
+  
+  const [current] = await db.select({ event: events, track: tracks })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .where(and(eq(events.id, eventId), inAccount(events)));
+  
+  if (!current) {
+    return { success: false, error: 'Event not found' };
+  }
+  
+  const from = getEventStatus(current.event);
+  if (!canTransition(from, to)) {
+    return {
+      success: false,
+      error: `Cannot move event from "${from}" to "${to}"`,
+      status: from,
+      allowedTransitions: EVENT_TRANSITIONS[from]
+    };
+  }
+  
+  // Leases only apply while a worker is generating or posting
+  const leaseUpdate = to === 'generating' || to === 'posting' ? {} : { leaseExpiresAt: null };
+  
+  const updates = prepareEventForDb({
+    ...fields,
+    ...leaseUpdate,
+    ...getStatusFlags(to),
+    status: to,
+    updatedAt: new Date()
+  });
+  
+  const written = await db.update(events)
+    .set(updates)
+    .where(and(eq(events.id, eventId), eq(events.updatedAt, current.event.updatedAt)))
+    .returning({ id: events.id });
+  
+  if (written.length === 0) {
+    return { success: false, error: 'Event was modified by another caller, read it again and retry' };
+  }
+  
+  notifyEventsChanged(current.event.trackId, [eventId]);
+  
+  const [updated] = await db.select().from(events).where(eq(events.id, eventId));
+  await recordEventRevisions([{ before: current.event, after: updated }]);
+  
+  return {
+    success: true,
+    previousStatus: from,
+    event: formatEvent(updated, current.track)
+  };
+}
+
+// Tool: Mark generation started
+addAccountTool({
+  name: 'timeline_mark_generation_started',
+  description: 'Mark that content generation has started for an event (scheduled → generating). Also used to regenerate generated or approved content.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    sessionId: z.string().optional().describe('Session ID of the agent generating the content')
+  }),
+  execute: async (params) => JSON.stringify(await transitionEvent(params.eventId, 'generating', {
+    generationStartedAt: new Date(),
+    generationSessionId: params.sessionId,
+    error: null
+  }), null, 2)
+});
+
+// Tool: Mark generated
+addAccountTool({
+  name: 'timeline_mark_generated',
+  description: 'Mark that content generation finished for an event (generating → generated)',
+  parameters: z.object({
+    eventId: z.string().uuid()
+  }),
+  execute: async (params) => JSON.stringify(await transitionEvent(params.eventId, 'generated', {
+    error: null
+  }), null, 2)
+});
+
+// Tool: Mark posting started
+addAccountTool({
+  name: 'timeline_mark_posting_started',
+  description: 'Mark that an approved event is being posted (approved → posting)',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    sessionId: z.string().optional().describe('Session ID of the agent posting the content')
+  }),
+  execute: async (params) => JSON.stringify(await transitionEvent(params.eventId, 'posting', {
+    postingSessionId: params.sessionId,
+    error: null
+  }), null, 2)
+});
+
+// Tool: Mark posted
+addAccountTool({
+  name: 'timeline_mark_posted',
+  description: 'Mark that an event was posted (posting → posted), recording the URL of the published post',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    postedUrl: z.string().url().optional().describe('URL of the published post'),
+    postedAt: isoDateTimeSchema.optional().describe('When the post went out. Defaults to now.')
+  }),
+  execute: async (params) => JSON.stringify(await transitionEvent(params.eventId, 'posted', {
+    postedUrl: params.postedUrl,
+    postTime: params.postedAt ? new Date(params.postedAt) : new Date(),
+    error: null
+  }), null, 2)
+});
+
+// Tool: Mark failed
+addAccountTool({
+  name: 'timeline_mark_failed',
+  description: 'Mark that an event failed at any active step (generation, approval or posting), recording the error. Use timeline_retry_event to try again.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    error: z.string().min(1, 'Error message cannot be empty').max(5000, 'Error message too long')
+  }),
+  execute: async (params) => JSON.stringify(await transitionEvent(params.eventId, 'failed', {
+    error: params.error
+  }), null, 2)
+});
+
+// Tool: Cancel event
+addAccountTool({
+  name: 'timeline_cancel_event',
+  description: 'Cancel an event without deleting it. Cancelled events are not generated or posted; use timeline_retry_event to restore one.',
+  parameters: z.object({
+    eventId: z.string().uuid()
+  }),
+  execute: async (params) => JSON.stringify(await transitionEvent(params.eventId, 'cancelled'), null, 2)
+});
+
+// Tool: Retry event
+addAccountTool({
+  name: 'timeline_retry_event',
+  description: 'Return a failed or cancelled event to the lifecycle, resuming from the furthest step it completed (scheduled, generated or approved)',
+  parameters: z.object({
+    eventId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const [event] = await db.select().from(events).where(and(eq(events.id, params.eventId), inAccount(events)));
+    
+    if (!event) {
+      return JSON.stringify({
+        success: false,
+        error: 'Event not found'
+      }, null, 2);
+    }
+    
+    const status = getEventStatus(event);
+    if (status !== 'failed' && status !== 'cancelled') {
+      return JSON.stringify({
+        success: false,
+        error: `Only failed or cancelled events can be retried (event is ${status})`
+      }, null, 2);
+    }
+    
+    return JSON.stringify(await transitionEvent(params.eventId, getRetryStatus(event), {
+      error: null
+    }), null, 2);
+  }
+});
+
+async function recordApproval(
+  eventId: string,
+  action: ApprovalAction,
+  details: { actor?: string; via?: string | null; comment?: string }
+) {
+  const db = await getDb();
+  const postyAccountId = currentAccountId();
+  
+  await db.insert(eventApprovals).values({
+    id: uuidv4(),
+    postyAccountId,
+    eventId,
+    action,
+    actor: details.actor,
+    via: details.via,
+    comment: details.comment,
+    createdAt: new Date().toISOString()
+  });
+}
+
+/**
+ * Check that a reviewer may decide on an event that asked specific reviewers
+ */
+async function checkReviewer(eventId: string, reviewer: string): Promise<string | null> {
+  const db = await getDb();
+  
+  const [event] = await db.select({ approvalReviewers: events.approvalReviewers })
+    .from(events)
+    .where(and(eq(events.id, eventId), inAccount(events)));
+  
+  const reviewers: string[] = event?.approvalReviewers ? JSON.parse(event.approvalReviewers) : [];
+  if (reviewers.length > 0 && !reviewers.includes(reviewer)) {
+    return `${reviewer} is not a reviewer for this event (reviewers: ${reviewers.join(', ')})`;
+  }
+  return null;
+}
+
+// Tool: Request approval
+addAccountTool({
+  name: 'timeline_request_approval',
+  description: 'Ask for approval of generated content (generated → awaiting_approval). Optionally name the reviewers who may decide.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    reviewers: z.array(z.string().min(1)).optional().describe('Who may approve or reject. Anyone may if omitted.'),
+    via: z.string().optional().describe('Channel the request was sent through (e.g. "discord", "slack"). Defaults to the event approvalVia.'),
+    requestedBy: z.string().optional().describe('Who requested the approval'),
+    comment: z.string().max(2000).optional()
+  }),
+  execute: async (params) => {
+    const fields: EventFields = { approvalRequestedAt: new Date() };
+    if (params.reviewers) fields.approvalReviewers = JSON.stringify(params.reviewers);
+    if (params.via) fields.approvalVia = params.via;
+    
+    const transition = () => transitionEvent(params.eventId, 'awaiting_approval', fields);
+    const result = params.requestedBy ? await asActor(params.requestedBy, transition) : await transition();
+    
+    if (result.success) {
+      await recordApproval(params.eventId, 'requested', {
+        actor: params.requestedBy,
+        via: result.event?.approvalVia,
+        comment: params.comment
+      });
+    }
+    
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+// Tool: Approve event
+addAccountTool({
+  name: 'timeline_approve_event',
+  description: 'Approve an event\'s content for posting (awaiting_approval → approved), recording who approved it and how',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    reviewer: z.string().min(1, 'Reviewer cannot be empty').describe('Who approved'),
+    via: z.string().optional().describe('Channel the decision came through (e.g. "discord", "slack", "manual")'),
+    comment: z.string().max(2000).optional()
+  }),
+  execute: async (params) => {
+    const reviewerError = await checkReviewer(params.eventId, params.reviewer);
+    if (reviewerError) {
+      return JSON.stringify({ success: false, error: reviewerError }, null, 2);
+    }
+    
+    const result = await asActor(params.reviewer, () => transitionEvent(params.eventId, 'approved', { error: null }));
+    
+    if (result.success) {
+      await recordApproval(params.eventId, 'approved', {
+        actor: params.reviewer,
+        via: params.via ?? result.event?.approvalVia,
+        comment: params.comment
+      });
+    }
+    
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+// Tool: Reject event
+addAccountTool({
+  name: 'timeline_reject_event',
+  description: 'Reject an event\'s content (awaiting_approval → rejected) with a reason. Rejected events need rework: regenerate with timeline_mark_generation_started or change the prompt.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    reviewer: z.string().min(1, 'Reviewer cannot be empty').describe('Who rejected'),
+    reason: z.string().min(1, 'Rejection reason cannot be empty').max(2000, 'Rejection reason too long'),
+    via: z.string().optional().describe('Channel the decision came through (e.g. "discord", "slack", "manual")')
+  }),
+  execute: async (params) => {
+    const reviewerError = await checkReviewer(params.eventId, params.reviewer);
+    if (reviewerError) {
+      return JSON.stringify({ success: false, error: reviewerError }, null, 2);
+    }
+    
+    const result = await asActor(params.reviewer, () => transitionEvent(params.eventId, 'rejected'));
+    
+    if (result.success) {
+      await recordApproval(params.eventId, 'rejected', {
+        actor: params.reviewer,
+        via: params.via ?? result.event?.approvalVia,
+        comment: params.reason
+      });
+    }
+    
+    return JSON.stringify(result, null, 2);
+  }
+});
+
+// Tool: Get approval history
+addAccountTool({
+  name: 'timeline_get_approval_history',
+  description: 'List approval requests and decisions for an event, oldest first',
+  parameters: z.object({
+    eventId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const history = await db.select().from(eventApprovals)
+      .where(and(eq(eventApprovals.eventId, params.eventId), inAccount(eventApprovals)))
+      .orderBy(asc(eventApprovals.createdAt));
+    
+    return JSON.stringify({
+      eventId: params.eventId,
+      history: history.map(entry => approvalHistoryResponseSchema.parse({
+        id: entry.id,
+        eventId: entry.eventId,
+        action: entry.action,
+        actor: entry.actor,
+        via: entry.via,
+        comment: entry.comment,
+        createdAt: entry.createdAt
+      }))
+    }, null, 2);
+  }
+});
+
+// Content and timing of an event; reverts and undo restore these and leave the lifecycle status alone
+const REVERTIBLE_EVENT_FIELDS = [
+  'name',
+  'prompt',
+  'agent',
+  'platform',
+  'scheduledTime',
+  'generationTime',
+  'metadata',
+  'approvalVia',
+  'approvalReviewers',
+  'mcpTools'
+] as const;
+
+const UNDO_SCAN_BATCH_SIZE = 100;
+
+function formatRevision(revision: EventRevision) {
+  return eventRevisionResponseSchema.parse({
+    id: revision.id,
+    eventId: revision.eventId,
+    action: revision.action,
+    tool: revision.tool,
+    actor: revision.actor,
+    changes: JSON.parse(revision.changes),
+    undoOf: revision.undoOf,
+    createdAt: revision.createdAt
+  });
+}
+
+/**
+ * An event row coming back from history or the trash
+ * Work that was in progress when it was removed is not resumed: the event returns to the furthest step it completed
+ */
+function resumedEventRow(event: Event): Event {
+  const status = getEventStatus(event);
+  if (status !== 'generating' && status !== 'posting') {
+    return { ...event, leaseExpiresAt: null };
+  }
+  
+  const resumed = getRetryStatus(event);
+  return { ...event, ...prepareEventForDb(getStatusFlags(resumed)), status: resumed, leaseExpiresAt: null };
+}
+
+/**
+ * Put the content and timing of an earlier version back on an event, or re-create the event if it was deleted
+ */
+async function restoreEventVersion(eventId: string, version: Event) {
+  const db = await getDb();
+  
+  const [track] = await db.select().from(tracks).where(and(eq(tracks.id, version.trackId!), inAccount(tracks)));
+  if (!track) {
+    return { success: false, error: 'The event\'s track no longer exists. Restore it from the trash with timeline_restore (see timeline_list_trash).' };
+  }
+  
+  const [current] = await db.select().from(events).where(and(eq(events.id, eventId), inAccount(events)));
+  
+  if (!current) {
+    const [series] = version.seriesId
+      ? await db.select({ id: eventSeries.id }).from(eventSeries).where(eq(eventSeries.id, version.seriesId))
+      : [];
+    
+    await db.insert(events).values({
+      ...resumedEventRow(version),
+      seriesId: series ? version.seriesId : null,
+      recurrenceId: series ? version.recurrenceId : null,
+      updatedAt: new Date().toISOString()
+    });
+    await recordEventsCreated([eventId]);
+    notifyEventsChanged(track.id, [eventId]);
+    
+    const [restored] = await db.select().from(events).where(eq(events.id, eventId));
+    return { success: true, recreated: true, changed: [], event: formatEvent(restored, track) };
+  }
+  
+  const status = getEventStatus(current);
+  if (['generating', 'posting', 'posted'].includes(status)) {
+    return { success: false, error: `Cannot revert an event that is ${status}` };
+  }
+  
+  const updates: Record<string, unknown> = {};
+  for (const field of REVERTIBLE_EVENT_FIELDS) {
+    if (current[field] !== version[field]) {
+      updates[field] = version[field];
+    }
+  }
+  
+  if (Object.keys(updates).length > 0) {
+    await trackEventChanges(eq(events.id, eventId), () => db.update(events)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(events.id, eventId)));
+    notifyEventsChanged(track.id, [eventId]);
+  }
+  
+  const [restored] = await db.select().from(events).where(eq(events.id, eventId));
+  return { success: true, recreated: false, changed: Object.keys(updates), event: formatEvent(restored, track) };
+}
+
+// Tool: Get event history
+addAccountTool({
+  name: 'timeline_get_event_history',
+  description: 'List the recorded changes to an event, newest first: what changed (field by field), which tool made the change and who made it. Deleted events keep their history.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    limit: z.number().int().positive().max(200).optional().default(50)
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const history = await db.select().from(eventRevisions)
+      .where(and(eq(eventRevisions.eventId, params.eventId), inAccount(eventRevisions)))
+      .orderBy(desc(eventRevisions.createdAt))
+      .limit(params.limit);
+    
+    return JSON.stringify({
+      eventId: params.eventId,
+      revisions: history.map(formatRevision)
+    }, null, 2);
+  }
+});
+
+// Tool: Revert event
+addAccountTool({
+  name: 'timeline_revert_event',
+  description: 'Return an event to how it was right after a revision from timeline_get_event_history (for a deletion, right before it), re-creating the event if it was deleted. Restores content and timing (name, prompt, platform, times, metadata, approval settings, tools); the lifecycle status is left alone.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    revisionId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const [revision] = await db.select().from(eventRevisions)
+      .where(and(
+        eq(eventRevisions.id, params.revisionId),
+        eq(eventRevisions.eventId, params.eventId),
+        inAccount(eventRevisions)
+      ));
+    
+    if (!revision) {
+      return JSON.stringify({
+        success: false,
+        error: `Revision ${params.revisionId} not found for event ${params.eventId}`
+      }, null, 2);
+    }
+    
+    const version: Event = JSON.parse((revision.action === 'deleted' ? revision.before : revision.after)!);
+    const result = await restoreEventVersion(params.eventId, version);
+    
+    return JSON.stringify({ ...result, revertedTo: revision.id }, null, 2);
+  }
+});
+
+// Tool: Undo last change
+addAccountTool({
+  name: 'timeline_undo_last_change',
+  description: 'Undo the most recent change to an event, or to any event in the account if no eventId is given. A created event is removed, an edit is rolled back and a deleted event is restored. Calling it again undoes the change before that. Lifecycle status changes are not undone; use the lifecycle tools (e.g. timeline_retry_event) for those.',
+  parameters: z.object({
+    eventId: z.string().uuid().optional().describe('Event to undo the last change of. Defaults to the latest change in the account.')
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    // Revisions made by undo, and revisions already undone, are skipped so repeated calls step further back
+    const undone = await db.select({ id: eventRevisions.undoOf })
+      .from(eventRevisions)
+      .where(and(inAccount(eventRevisions), isNotNull(eventRevisions.undoOf)));
+    
+    const candidates = and(
+      inAccount(eventRevisions),
+      isNull(eventRevisions.undoOf),
+      params.eventId ? eq(eventRevisions.eventId, params.eventId) : undefined,
+      undone.length > 0 ? notInArray(eventRevisions.id, undone.map(revision => revision.id!)) : undefined
+    );
+    
+    // Lifecycle-only updates are passed over: undo leaves the status alone
+    let revision: EventRevision | undefined;
+    for (let offset = 0; !revision; offset += UNDO_SCAN_BATCH_SIZE) {
+      const page = await db.select().from(eventRevisions)
+        .where(candidates)
+        .orderBy(desc(eventRevisions.createdAt))
+        .limit(UNDO_SCAN_BATCH_SIZE)
+        .offset(offset);
+      
+      revision = page.find(candidate => candidate.action !== 'updated'
+        || REVERTIBLE_EVENT_FIELDS.some(field => field in JSON.parse(candidate.changes)));
+      if (page.length < UNDO_SCAN_BATCH_SIZE) break;
+    }
+    
+    if (!revision) {
+      return JSON.stringify({
+        success: false,
+        error: params.eventId ? `No changes to undo for event ${params.eventId}` : 'No changes to undo'
+      }, null, 2);
+    }
+    
+    const target = revision;
+    const context = { ...callContext.getStore()!, undoOf: target.id };
+    const result = await callContext.run(context, async () => {
+      if (target.action !== 'created') {
+        return restoreEventVersion(target.eventId, JSON.parse(target.before!));
+      }
+      
+      const [event] = await db.select().from(events)
+        .where(and(eq(events.id, target.eventId), inAccount(events)));
+      if (!event) {
+        return { success: false, error: 'The created event no longer exists' };
+      }
+      const status = getEventStatus(event);
+      if (['generating', 'posting', 'posted'].includes(status)) {
+        return { success: false, error: `Cannot remove an event that is ${status}` };
+      }
+      
+      await trackEventChanges(eq(events.id, event.id), () => db.delete(events).where(eq(events.id, event.id)));
+      notifyEventsChanged(event.trackId, [event.id]);
+      return { success: true, removed: true };
+    });
+    
+    return JSON.stringify({
+      ...result,
+      undone: formatRevision(revision)
+    }, null, 2);
+  }
+});
+
+const DEFAULT_LEASE_SECONDS = 600;
+
+const leasePhaseSchema = z.enum(['generation', 'posting']);
+
+type LeasePhase = z.infer<typeof leasePhaseSchema>;
+
+/**
+ * What a phase works on: the current account's events still needing it, ready once due or in its working status while leased
+ * Statuses go through eventStatusCondition, so rows whose status is derived from the content flags match too
+ */
+function getPhaseConditions(phase: LeasePhase) {
+  const [readyStatus, workingStatus]: EventStatus[] = phase === 'generation'
+    ? ['scheduled', 'generating']
+    : ['approved', 'posting'];
+  
+  return {
+    workingStatus,
+    dueColumn: phase === 'generation' ? events.generationTime : events.scheduledTime,
+    claimable: and(
+      inAccount(events),
+      eq(events.eventType, 'scheduled'),
+      phase === 'generation' ? eq(events.contentGenerated, 0) : eq(events.posted, 0)
+    ),
+    ready: eventStatusCondition(readyStatus),
+    working: eventStatusCondition(workingStatus)
+  };
+}
+
+/**
+ * Lease up to `limit` events due in a phase to a worker
+ * Ready events whose due time has arrived and working events whose lease expired are both eligible
+ */
+async function claimDueEvents(workerId: string, phase: LeasePhase, limit: number, leaseSeconds: number) {
+  const db = await getDb();
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000);
+  
+  const { workingStatus, dueColumn, claimable, ready, working } = getPhaseConditions(phase);
+  
+  const candidates = await db.select({ event: events, track: tracks })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .where(and(
+      claimable,
+      or(
+        and(ready, lte(dueColumn, nowIso)),
+        and(working, lt(events.leaseExpiresAt, nowIso))
+      )
+    ))
+    .orderBy(asc(dueColumn))
+    .limit(limit * 3);
+  
+  const claimed = [];
+  
+  for (const { event, track } of candidates) {
+    if (claimed.length >= limit) break;
+    
+    const sessionFields = phase === 'generation'
+      ? { generationSessionId: workerId, generationStartedAt: now }
+      : { postingSessionId: workerId };
+    
+    // Compare-and-set: only one worker can win an event it read in this state
+    const written = await db.update(events)
+      .set(prepareEventForDb({
+        ...sessionFields,
+        ...getStatusFlags(workingStatus),
+        status: workingStatus,
+        leaseExpiresAt,
+        error: null,
+        updatedAt: now
+      }))
+      .where(and(eq(events.id, event.id), eq(events.updatedAt, event.updatedAt)))
+      .returning({ id: events.id });
+    
+    if (written.length === 0) continue;
+    notifyEventsChanged(track.id, [event.id]);
+    
+    const [updated] = await db.select().from(events).where(eq(events.id, event.id));
+    await recordEventRevisions([{ before: event, after: updated }]);
+    claimed.push({
+      ...formatEvent(updated, track),
+      reclaimed: getEventStatus(event) === workingStatus
+    });
+  }
+  
+  return { leaseExpiresAt, events: claimed };
+}
+
+// Tool: Claim due events
+addAccountTool({
+  name: 'timeline_claim_due_events',
+  description: `Atomically claim events that are due for work, so several workers never pick up the same event.
+
+PHASES:
+- 'generation': scheduled events whose generationTime has arrived (scheduled → generating)
+- 'posting': approved events whose scheduledTime has arrived (approved → posting)
+
+Each claim holds a lease. Renew it with timeline_heartbeat_lease while working, finish with timeline_mark_generated / timeline_mark_posted (or timeline_mark_failed), or hand the event back with timeline_release_lease. Events whose lease expires (e.g. the worker crashed) can be claimed again.`,
+  parameters: z.object({
+    workerId: z.string().min(1, 'Worker ID cannot be empty').describe('Unique ID of the claiming worker (stored as the generation/posting session ID)'),
+    phase: leasePhaseSchema,
+    limit: z.number().int().positive().max(50).optional().default(1),
+    leaseSeconds: z.number().int().positive().max(86400).optional().default(DEFAULT_LEASE_SECONDS)
+  }),
+  execute: async (params) => {
+    try {
+      const result = await asActor(params.workerId, () =>
+        claimDueEvents(params.workerId, params.phase, params.limit, params.leaseSeconds));
+      
+      return JSON.stringify({
+        success: true,
+        phase: params.phase,
+        workerId: params.workerId,
+        leaseExpiresAt: result.leaseExpiresAt.toISOString(),
+        events: result.events
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in claim_due_events:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+/**
+ * Condition matching an event currently leased by a worker, in either phase
+ */
+function leasedBy(eventId: string, workerId: string) {
+  return and(
+    eq(events.id, eventId),
+    inAccount(events),
+    or(
+      and(eq(events.status, 'generating'), eq(events.generationSessionId, workerId)),
+      and(eq(events.status, 'posting'), eq(events.postingSessionId, workerId))
+    )
+  );
+}
+
+// Tool: Heartbeat lease
+addAccountTool({
+  name: 'timeline_heartbeat_lease',
+  description: 'Extend a worker\'s lease on a claimed event. Fails if the lease was lost (expired and claimed by another worker).',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    workerId: z.string().min(1),
+    leaseSeconds: z.number().int().positive().max(86400).optional().default(DEFAULT_LEASE_SECONDS)
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + params.leaseSeconds * 1000);
+    
+    const written = await db.update(events)
+      .set({ leaseExpiresAt: leaseExpiresAt.toISOString(), updatedAt: now.toISOString() })
+      .where(leasedBy(params.eventId, params.workerId))
+      .returning({ id: events.id, trackId: events.trackId });
+    
+    if (written.length === 0) {
+      return JSON.stringify({
+        success: false,
+        error: `Worker ${params.workerId} does not hold a lease on event ${params.eventId}`
+      }, null, 2);
+    }
+    
+    notifyEventsChanged(written[0].trackId, [params.eventId]);
+    
+    return JSON.stringify({
+      success: true,
+      eventId: params.eventId,
+      leaseExpiresAt: leaseExpiresAt.toISOString()
+    }, null, 2);
+  }
+});
+
+// Tool: Release lease
+addAccountTool({
+  name: 'timeline_release_lease',
+  description: 'Hand a claimed event back without finishing it, so another worker can claim it. Generating events return to scheduled and posting events return to approved.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    workerId: z.string().min(1),
+    reason: z.string().max(2000).optional().describe('Why the work was abandoned, stored as the event error')
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const [event] = await db.select().from(events).where(leasedBy(params.eventId, params.workerId));
+    
+    if (!event) {
+      return JSON.stringify({
+        success: false,
+        error: `Worker ${params.workerId} does not hold a lease on event ${params.eventId}`
+      }, null, 2);
+    }
+    
+    const to: EventStatus = event.status === 'generating' ? 'scheduled' : 'approved';
+    
+    // Compare-and-set: the lease may expire and be claimed by another worker between the read and the write
+    const unchanged = and(eq(events.id, event.id), eq(events.updatedAt, event.updatedAt));
+    const written = await asActor(params.workerId, () => trackEventChanges(unchanged, () => db.update(events)
+      .set(prepareEventForDb({
+        ...getStatusFlags(to),
+        status: to,
+        leaseExpiresAt: null,
+        error: params.reason ?? null,
+        updatedAt: new Date()
+      }))
+      .where(unchanged)
+      .returning({ id: events.id })));
+    
+    if (written.length === 0) {
+      return JSON.stringify({
+        success: false,
+        error: `Event ${params.eventId} changed while releasing the lease; worker ${params.workerId} may no longer hold it`
+      }, null, 2);
+    }
+    
+    notifyEventsChanged(event.trackId, [event.id]);
+    
+    return JSON.stringify({
+      success: true,
+      eventId: params.eventId,
+      status: to,
+      message: `Lease released, event returned to ${to}`
+    }, null, 2);
+  }
+});
+
+interface ExportFilters {
+  trackId?: string;
+  platform?: Platform;
+  startDate?: string;
+  endDate?: string;
+  timezone?: string;
+}
+
+/**
+ * Events (with their tracks) matching export filters, in schedule order
+ * Date filters compare whole days in the timezone parameter, else the event's track timezone
+ */
+async function selectEventsForExport(filters: ExportFilters) {
+  const db = await getDb();
+  
+  // Make sure recurring series have events up to the horizon
+  await extendSeriesHorizons();
+  
+  const whereConditions = [inAccount(events), eq(events.eventType, 'scheduled')];
+  
+  if (filters.trackId) {
+    whereConditions.push(eq(events.trackId, filters.trackId));
+  }
+  
+  if (filters.platform) {
+    whereConditions.push(eq(events.platform, filters.platform));
+  }
+  
+  const results = await db.select({ event: events, track: tracks })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .where(and(...whereConditions))
+    .orderBy(asc(events.scheduledTime));
+  
+  return results.filter(({ event, track }) => {
+    const timeZone = resolveTimeZone(filters.timezone, track.timezone);
+    const eventTime = new Date(event.scheduledTime);
+    if (filters.startDate && eventTime < getDayBoundsInZone(filters.startDate, timeZone).start) return false;
+    if (filters.endDate && eventTime >= getDayBoundsInZone(filters.endDate, timeZone).end) return false;
+    return true;
+  });
+}
+
+/**
+ * Write an export into the workspace "exports" folder, returning its workspace-relative path
+ * Without a file name the export is named after `defaultName` and today's date
+ */
+async function writeExportFile(fileName: string | undefined, defaultName: string, extension: string, content: string): Promise<string> {
+  const baseName = sanitizeFileName(fileName
+    ? fileName.replace(new RegExp(`\\.${extension}$`, 'i'), '')
+    : `${defaultName}-${new Date().toISOString().split('T')[0]}`);
+  const filePath = path.join('exports', `${baseName}.${extension}`);
+  
+  await fs.mkdir(path.join(getWorkspacePath(), 'exports'), { recursive: true });
+  await fs.writeFile(path.join(getWorkspacePath(), filePath), content);
+  
+  return filePath;
+}
+
+const ICS_UID_SUFFIX = '@timeline-mcp';
+
+// Tool: Export events as iCalendar
+addAccountTool({
+  name: 'timeline_export_ics',
+  description: 'Export scheduled events to an iCalendar (.ics) file in the workspace "exports" folder, for calendar apps. Filter by track, platform or date range. UIDs are derived from event IDs, so re-importing an updated export changes the existing calendar entries instead of duplicating them.',
+  parameters: z.object({
+    trackId: z.string().uuid().optional().describe('Only export this track'),
+    platform: platformSchema.optional().describe('Only export events for this platform'),
+    startDate: isoDateTimeSchema.optional().describe('First day to export (YYYY-MM-DD)'),
+    endDate: isoDateTimeSchema.optional().describe('Last day to export (YYYY-MM-DD)'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for day boundaries. Defaults to each event\'s track timezone, then the workspace timezone.'),
+    fileName: z.string().min(1).max(100).optional().describe('File name for the export (e.g. "launch.ics"). Defaults to the track name (or "Timeline") and today\'s date.')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      let calendarName = 'Timeline';
+      if (params.trackId) {
+        const [track] = await db.select().from(tracks).where(and(eq(tracks.id, params.trackId), inAccount(tracks)));
+        if (!track) {
+          return JSON.stringify({
+            success: false,
+            error: 'Track not found'
+          }, null, 2);
+        }
+        calendarName = track.name;
+      }
+      
+      const exported = await selectEventsForExport(params);
+      
+      const now = new Date();
+      const content = formatIcs(calendarName, exported.map(({ event, track }) => {
+        const status = getEventStatus(event);
+        return {
+          uid: `${event.id}${ICS_UID_SUFFIX}`,
+          summary: event.name,
+          description: event.prompt,
+          start: new Date(event.scheduledTime),
+          dtstamp: now,
+          lastModified: event.updatedAt ? new Date(event.updatedAt) : undefined,
+          status: status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+          categories: [track.name, event.platform || 'x'],
+          url: event.postedUrl,
+          extra: {
+            'X-TIMELINE-STATUS': status,
+            'X-TIMELINE-PLATFORM': event.platform || 'x',
+            'X-TIMELINE-TRACK': track.name
+          }
+        };
+      }));
+      
+      const filePath = await writeExportFile(params.fileName, calendarName, 'ics', content);
+      
+      return JSON.stringify({
+        success: true,
+        filePath,
+        eventCount: exported.length
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in export_ics:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Import events from iCalendar
+addAccountTool({
+  name: 'timeline_import_ics',
+  description: `Create or update scheduled events in a track from an iCalendar (.ics) file.
+
+MAPPING:
+- SUMMARY → name, DESCRIPTION → prompt (falls back to SUMMARY), DTSTART → scheduledTime
+- Floating and all-day DTSTARTs are read in the TZID, else the timezone parameter, else the track timezone
+
+UPDATES:
+- Events exported by timeline_export_ics are matched by UID and updated in place; imported UIDs are remembered in metadata.icsUid so importing the same file again updates rather than duplicates
+- STATUS:CANCELLED cancels a matching event
+- Past, recurring (RRULE) and already-posted entries are skipped and listed in the response, as are changes to events being generated or posted, moves into the past and new or moved events that break cadence rules (unless overrideCadence is set)`,
+  parameters: z.object({
+    filePath: z.string().min(1).describe('Path to the .ics file, relative to the workspace (or an absolute path inside it)'),
+    trackName: addScheduledEventParams.shape.trackName.describe('Track to import into. Created if it does not exist.'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for floating times. Defaults to the track timezone, then the workspace timezone.'),
+    platform: addScheduledEventParams.shape.platform.describe('Platform for newly created events'),
+    agent: addScheduledEventParams.shape.agent,
+    approvalVia: addScheduledEventParams.shape.approvalVia,
+    mcpTools: addScheduledEventParams.shape.mcpTools,
+    metadata: addScheduledEventParams.shape.metadata.describe('Platform-specific metadata for newly created events, e.g. { targetSubreddit: "subredditname" } for Reddit'),
+    overrideCadence: addScheduledEventParams.shape.overrideCadence.describe('Import entries even if their times break cadence rules')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      // Every created event shares the platform and metadata, so check them once
+      const metadata = validateEventMetadata(params.platform, params.metadata);
+      
+      const entries = parseIcs(await fs.readFile(resolveInsideWorkspace(params.filePath), 'utf8'));
+      
+      const track = await findOrCreatePlannedTrack(params.trackName);
+      const trackTimeZone = resolveTimeZone(params.timezone, track.timezone);
+      
+      // Index the track's events by ID and by remembered external UID
+      const trackEvents = await db.select().from(events).where(eq(events.trackId, track.id));
+      const byUid = new Map<string, Event>();
+      for (const event of trackEvents) {
+        byUid.set(`${event.id}${ICS_UID_SUFFIX}`, event);
+        const metadata = event.metadata ? JSON.parse(event.metadata) : {};
+        if (metadata.icsUid) byUid.set(metadata.icsUid, event);
+      }
+      
+      const created = [];
+      const updated = [];
+      const skipped = [];
+      let unchanged = 0;
+      
+      for (const entry of entries) {
+        const label = { uid: entry.uid, summary: entry.summary };
+        
+        if (!entry.summary || !entry.start) {
+          skipped.push({ ...label, reason: 'Missing SUMMARY or DTSTART' });
+          continue;
+        }
+        if (entry.rrule) {
+          skipped.push({ ...label, reason: 'Recurring calendar entries are not imported; use timeline_add_scheduled_event with a recurrence' });
+          continue;
+        }
+        
+        try {
+          const timeZone = entry.start.tzid && isValidTimeZone(entry.start.tzid) ? entry.start.tzid : trackTimeZone;
+          const scheduledTime = parseDateTimeInZone(icsDateToIso(entry.start), timeZone);
+          const prompt = entry.description?.trim() || entry.summary;
+          const existing = entry.uid ? byUid.get(entry.uid) : undefined;
+          
+          if (existing) {
+            const status = getEventStatus(existing);
+            
+            if (entry.status === 'CANCELLED') {
+              if (status === 'cancelled') {
+                unchanged++;
+                continue;
+              }
+              const result = await transitionEvent(existing.id, 'cancelled');
+              if (!result.success) {
+                skipped.push({ ...label, eventId: existing.id, reason: result.error });
+                continue;
+              }
+              updated.push({ id: existing.id, name: existing.name, cancelled: true });
+              continue;
+            }
+            
+            const fields: EventUpdates = {};
+            if (entry.summary !== existing.name) fields.name = entry.summary;
+            if (prompt !== existing.prompt) fields.prompt = prompt;
+            if (scheduledTime.getTime() !== new Date(existing.scheduledTime).getTime()) {
+              fields.scheduledTime = scheduledTime.toISOString();
+            }
+            
+            if (Object.keys(fields).length === 0) {
+              unchanged++;
+              continue;
+            }
+            // Same checks as timeline_import_events: events a worker holds or has posted stay as they are
+            if (['generating', 'posting', 'posted'].includes(status)) {
+              skipped.push({ ...label, eventId: existing.id, reason: `Cannot change an event that is ${status}` });
+              continue;
+            }
+            if (fields.scheduledTime && scheduledTime <= new Date()) {
+              skipped.push({ ...label, eventId: existing.id, reason: 'Scheduled time is in the past' });
+              continue;
+            }
+            if (fields.scheduledTime && !params.overrideCadence) {
+              const cadence = await checkCadence({
+                trackId: track.id,
+                platform: existing.platform ?? 'x',
+                scheduledTime,
+                timeZone
+              }, [existing.id]);
+              if (cadence) {
+                skipped.push({ ...label, eventId: existing.id, ...cadenceSkipReason(cadence) });
+                continue;
+              }
+            }
+            
+            await trackEventChanges(eq(events.id, existing.id), () => db.update(events)
+              .set(prepareEventForDb(buildEventUpdates(fields, timeZone)))
+              .where(eq(events.id, existing.id)));
+            notifyEventsChanged(existing.trackId, [existing.id]);
+            
+            updated.push({ id: existing.id, name: entry.summary, scheduledTime: scheduledTime.toISOString(), changed: Object.keys(fields) });
+            continue;
+          }
+          
+          if (entry.status === 'CANCELLED') {
+            skipped.push({ ...label, reason: 'Cancelled in the calendar' });
+            continue;
+          }
+          if (scheduledTime <= new Date()) {
+            skipped.push({ ...label, reason: 'Scheduled time is in the past' });
+            continue;
+          }
+          if (!params.overrideCadence) {
+            const cadence = await checkCadence({ trackId: track.id, platform: params.platform, scheduledTime, timeZone });
+            if (cadence) {
+              skipped.push({ ...label, ...cadenceSkipReason(cadence) });
+              continue;
+            }
+          }
+          
+          const newEvent = await insertScheduledEvent(track, {
+            name: entry.summary.slice(0, 200),
+            prompt: prompt.slice(0, 5000),
+            platform: params.platform,
+            scheduledTime,
+            agent: params.agent,
+            approvalVia: params.approvalVia,
+            mcpTools: params.mcpTools,
+            metadata: entry.uid ? { ...metadata, icsUid: entry.uid } : metadata
+          });
+          
+          if (entry.uid) byUid.set(entry.uid, newEvent);
+          created.push({ id: newEvent.id, name: newEvent.name, scheduledTime: newEvent.scheduledTime });
+        } catch (error) {
+          skipped.push({ ...label, reason: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+      
+      return JSON.stringify({
+        success: true,
+        trackId: track.id,
+        trackName: track.name,
+        created,
+        updated,
+        unchanged,
+        skipped
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in import_ics:', error);
+      
+      if (error instanceof z.ZodError) {
+        return JSON.stringify({
+          success: false,
+          error: 'Validation error',
+          details: error.errors
+        }, null, 2);
+      }
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+type AddScheduledEventParams = z.infer<typeof addScheduledEventParams>;
+
+// Spreadsheet column names (lowercased, without spaces, dashes or underscores) → event fields
+const BULK_COLUMN_FIELDS: Record<string, string> = {
+  id: 'id',
+  track: 'trackName',
+  trackname: 'trackName',
+  name: 'eventName',
+  eventname: 'eventName',
+  prompt: 'prompt',
+  scheduledtime: 'scheduledTime',
+  timezone: 'timezone',
+  platform: 'platform',
+  metadata: 'metadata',
+  agent: 'agent',
+  approvalvia: 'approvalVia',
+  mcptools: 'mcpTools'
+};
+
+const BULK_EXPORT_COLUMNS = ['id', 'track', 'name', 'prompt', 'scheduledTime', 'timezone', 'platform', 'status', 'metadata'];
+
+/**
+ * Map a CSV record or JSON object onto event fields
+ * Unknown columns (e.g. the exported status) are ignored and structured columns hold JSON in CSV
+ */
+function normalizeBulkRow(raw: Record<string, any>): Record<string, any> {
+  const row: Record<string, any> = {};
+  
+  for (const [column, value] of Object.entries(raw)) {
+    const field = BULK_COLUMN_FIELDS[column.trim().toLowerCase().replace(/[\s_-]/g, '')];
+    if (!field || value === '' || value === null || value === undefined) continue;
+    
+    if (typeof value === 'string' && (field === 'metadata' || field === 'mcpTools')) {
+      try {
+        row[field] = JSON.parse(value);
+      } catch {
+        throw new Error(`${field}: must be valid JSON`);
+      }
+    } else {
+      row[field] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+  
+  return row;
+}
+
+// Tool: Import events in bulk
+addAccountTool({
+  name: 'timeline_import_events',
+  description: `Create or update many scheduled events at once from a CSV or JSON file in the workspace, e.g. a campaign planned in a spreadsheet.
+
+COLUMNS (CSV header or JSON keys):
+- track, name, prompt, scheduledTime (required), timezone, platform, metadata (JSON), agent, approvalVia
+- id: update that existing event instead of creating one (as written by timeline_export_events). Empty cells leave the event's platform and metadata unchanged.
+
+Every row is validated like timeline_add_scheduled_event, including the cadence rules (each row also counts against the rows before it). Invalid rows are reported with their errors; all valid rows are written in a single transaction. Missing tracks are created.`,
+  parameters: z.object({
+    filePath: z.string().min(1).describe('Path to the .csv or .json file, relative to the workspace (or an absolute path inside it)'),
+    format: z.enum(['csv', 'json']).optional().describe('File format. Defaults to the file extension.'),
+    overrideCadence: addScheduledEventParams.shape.overrideCadence.describe('Import rows even if their times break cadence rules')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const format = params.format ?? (params.filePath.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      const text = await fs.readFile(resolveInsideWorkspace(params.filePath), 'utf8');
+      
+      let rawRows: Record<string, any>[];
+      if (format === 'json') {
+        const parsed = JSON.parse(text);
+        rawRows = Array.isArray(parsed) ? parsed : parsed.events;
+        if (!Array.isArray(rawRows)) {
+          throw new Error('JSON file must contain an array of events (or an object with an "events" array)');
+        }
+      } else {
+        rawRows = parseCsvRecords(text);
+      }
+      
+      // Validate every row before touching the database
+      const errors: { row: number; errors: string[] }[] = [];
+      const valid: { row: number; id?: string; fields: AddScheduledEventParams; hasPlatform: boolean }[] = [];
+      
+      rawRows.forEach((raw, index) => {
+        const row = index + 1;
+        try {
+          const { id, ...fields } = normalizeBulkRow(raw);
+          const result = addScheduledEventParams.safeParse(fields);
+          const metadataResult = result.success
+            ? parsePlatformMetadata(result.data.platform, result.data.metadata)
+            : undefined;
+          
+          if (!result.success) {
+            errors.push({ row, errors: result.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`) });
+          } else if (metadataResult && !metadataResult.success) {
+            errors.push({ row, errors: metadataResult.error.errors.map(issue => `metadata.${issue.path.join('.')}: ${issue.message}`) });
+          } else if (result.data.recurrence) {
+            errors.push({ row, errors: ['recurrence: recurring series cannot be bulk imported, use timeline_add_scheduled_event'] });
+          } else if (id !== undefined && !z.string().uuid().safeParse(id).success) {
+            errors.push({ row, errors: ['id: must be an event ID'] });
+          } else {
+            valid.push({
+              row,
+              id,
+              fields: { ...result.data, metadata: result.data.metadata && metadataResult?.data },
+              hasPlatform: fields.platform !== undefined
+            });
+          }
+        } catch (error) {
+          errors.push({ row, errors: [error instanceof Error ? error.message : 'Invalid row'] });
+        }
+      });
+      
+      // Resolve tracks, planning any that need creating
+      const trackNames = [...new Set(valid.map(({ fields }) => fields.trackName))];
+      const existingTracks = trackNames.length > 0
+        ? await db.select().from(tracks).where(and(inAccount(tracks), eq(tracks.type, 'planned'), inArray(tracks.name, trackNames)))
+        : [];
+      const trackByName = new Map<string, Track>(existingTracks.map(track => [track.name, track]));
+      
+      const [maxOrder] = await db.select({ maxOrder: tracks.order })
+        .from(tracks)
+        .where(inAccount(tracks))
+        .orderBy(desc(tracks.order))
+        .limit(1);
+      let nextOrder = (maxOrder?.maxOrder || 0) + 1;
+      
+      const postyAccountId = currentAccountId();
+      const newTracks: (NewTrack & { id: string })[] = [];
+      
+      for (const name of trackNames) {
+        if (trackByName.has(name)) continue;
+        const track = {
+          id: uuidv4(),
+          postyAccountId,
+          name,
+          type: 'planned' as const,
+          order: nextOrder++,
+          timezone: null
+        };
+        newTracks.push(track);
+        trackByName.set(name, track as Track);
+      }
+      
+      // Events referenced by ID
+      const ids = valid.filter(({ id }) => id).map(({ id }) => id!);
+      const existingEvents = ids.length > 0
+        ? await db.select().from(events).where(and(inArray(events.id, ids), inAccount(events)))
+        : [];
+      const eventById = new Map<string, Event>(existingEvents.map(event => [event.id, event]));
+      
+      // Build every insert and update up front, so the transaction itself only writes
+      let inserts: (NewEvent & { id: string; trackId: string; mediaPath: string })[] = [];
+      let updates: { id: string; values: Partial<Event> }[] = [];
+      let created = [];
+      let updated = [];
+      let unchanged = 0;
+      
+      // New and moved events, checked against the cadence rules once every row is built
+      const cadenceChecks: { row: number; id: string; name: string; candidate: CadenceCandidate }[] = [];
+      
+      for (const { row, id, fields, hasPlatform } of valid) {
+        try {
+          const track = trackByName.get(fields.trackName)!;
+          const timeZone = resolveTimeZone(fields.timezone, track.timezone);
+          const scheduledTime = parseDateTimeInZone(fields.scheduledTime, timeZone);
+          
+          if (id) {
+            const existing = eventById.get(id);
+            if (!existing) {
+              throw new Error('id: event not found');
+            }
+            if (existing.trackId !== track.id) {
+              throw new Error('track: does not match the event\'s track');
+            }
+            
+            const changes: EventUpdates = {};
+            if (fields.eventName !== existing.name) changes.name = fields.eventName;
+            if (fields.prompt !== existing.prompt) changes.prompt = fields.prompt;
+            if (scheduledTime.getTime() !== new Date(existing.scheduledTime).getTime()) {
+              changes.scheduledTime = scheduledTime.toISOString();
+            }
+            // An empty platform cell keeps the event's platform (exported events may have none)
+            if (hasPlatform && fields.platform !== existing.platform) changes.platform = fields.platform;
+            if (fields.metadata && JSON.stringify(fields.metadata) !== (existing.metadata || '{}')) {
+              changes.metadata = fields.metadata;
+            }
+            
+            if (Object.keys(changes).length === 0) {
+              unchanged++;
+              continue;
+            }
+            
+            const status = getEventStatus(existing);
+            if (['generating', 'posting', 'posted'].includes(status)) {
+              throw new Error(`Cannot change an event that is ${status}`);
+            }
+            
+            updates.push({ id, values: prepareEventForDb(buildEventUpdates(changes, timeZone)) });
+            updated.push({ row, id, name: fields.eventName, changed: Object.keys(changes) });
+            if (changes.scheduledTime || changes.platform) {
+              cadenceChecks.push({
+                row,
+                id,
+                name: fields.eventName,
+                candidate: { trackId: track.id, platform: changes.platform ?? existing.platform ?? 'x', scheduledTime, timeZone }
+              });
+            }
+            continue;
+          }
+          
+          const eventId = uuidv4();
+          const mediaPath = await createMediaPath(track.name, fields.eventName);
+          
+          inserts.push(prepareEventForDb({
+            id: eventId,
+            postyAccountId,
+            trackId: track.id,
+            name: fields.eventName,
+            platform: fields.platform,
+            scheduledTime,
+            generationTime: calculateGenerationTime(scheduledTime),
+            prompt: fields.prompt,
+            agent: fields.agent,
+            eventType: 'scheduled',
+            mediaPath,
+            mcpTools: JSON.stringify(fields.mcpTools),
+            approvalVia: fields.approvalVia,
+            metadata: JSON.stringify(fields.metadata || {}),
+            contentGenerated: false,
+            approved: false,
+            posted: false
+          }));
+          created.push({
+            row,
+            id: eventId,
+            name: fields.eventName,
+            trackName: track.name,
+            scheduledTime: scheduledTime.toISOString(),
+            scheduledTimeLocal: formatInTimeZone(scheduledTime, timeZone)
+          });
+          cadenceChecks.push({
+            row,
+            id: eventId,
+            name: fields.eventName,
+            candidate: { trackId: track.id, platform: fields.platform, scheduledTime, timeZone }
+          });
+        } catch (error) {
+          errors.push({ row, errors: [error instanceof Error ? error.message : 'Invalid row'] });
+        }
+      }
+      
+      // Rows are checked in file order, each accepted row counting against the later ones
+      if (!params.overrideCadence && cadenceChecks.length > 0) {
+        const { rules, peers } = await loadCadenceContextAround(cadenceChecks.map(({ candidate }) => candidate.scheduledTime));
+        const checkedIds = new Set(cadenceChecks.map(({ id }) => id));
+        const scheduled = peers.filter(peer => !checkedIds.has(peer.id));
+        const rejected = new Set<string>();
+        
+        for (const { row, id, name, candidate } of cadenceChecks) {
+          const conflicts = findCadenceConflicts(candidate, rules, scheduled);
+          if (conflicts.length > 0) {
+            errors.push({ row, errors: conflicts.map(conflict => `cadence: ${conflict.message}`) });
+            rejected.add(id);
+            // A rejected move leaves the event at its current time
+            scheduled.push(...peers.filter(peer => peer.id === id));
+          } else {
+            scheduled.push({ ...candidate, id, name });
+          }
+        }
+        
+        inserts = inserts.filter(insert => !rejected.has(insert.id));
+        updates = updates.filter(update => !rejected.has(update.id));
+        created = created.filter(event => !rejected.has(event.id));
+        updated = updated.filter(event => !rejected.has(event.id));
+      }
+      
+      // Only create tracks that end up with new events
+      const usedTrackIds = new Set(inserts.map(insert => insert.trackId));
+      const tracksToCreate = newTracks.filter(track => usedTrackIds.has(track.id));
+      
+      const store = await openStorage();
+      const writeAll = () => store.transaction((tx) => [
+        ...tracksToCreate.map(track => tx.insert(tracks).values(track)),
+        ...inserts.map(values => tx.insert(events).values(values)),
+        ...updates.map(({ id, values }) => tx.update(events).set(values).where(eq(events.id, id)))
+      ]);
+      if (updates.length > 0) {
+        await trackEventChanges(inArray(events.id, updates.map(update => update.id)), writeAll);
+      } else {
+        await writeAll();
+      }
+      await recordEventsCreated(inserts.map(insert => insert.id));
+      
+      for (const insert of inserts) {
+        await createEventMediaFolder(insert.mediaPath, insert.id, insert.name, insert.trackId);
+      }
+      
+      if (tracksToCreate.length > 0) {
+        notifyTracksChanged();
+      }
+      for (const insert of inserts) {
+        notifyEventsChanged(insert.trackId, [insert.id]);
+      }
+      for (const { id } of updates) {
+        notifyEventsChanged(eventById.get(id)!.trackId, [id]);
+      }
+      
+      console.error('[Timeline MCP] Bulk import:', created.length, 'created,', updated.length, 'updated,', errors.length, 'rows with errors');
+      
+      return JSON.stringify({
+        success: true,
+        createdTracks: tracksToCreate.map(track => track.name),
+        created,
+        updated,
+        unchanged,
+        errors: errors.sort((a, b) => a.row - b.row)
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in import_events:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Export events in bulk
+addAccountTool({
+  name: 'timeline_export_events',
+  description: 'Export scheduled events to a CSV or JSON file in the workspace "exports" folder, e.g. to edit a campaign in a spreadsheet. Columns: id, track, name, prompt, scheduledTime (local time with offset), timezone, platform, status, metadata. Import the edited file with timeline_import_events: rows keep their id and update the existing events, rows without an id create new ones.',
+  parameters: z.object({
+    trackId: z.string().uuid().optional().describe('Only export this track'),
+    platform: platformSchema.optional().describe('Only export events for this platform'),
+    startDate: isoDateTimeSchema.optional().describe('First day to export (YYYY-MM-DD)'),
+    endDate: isoDateTimeSchema.optional().describe('Last day to export (YYYY-MM-DD)'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for day boundaries and exported times. Defaults to each event\'s track timezone, then the workspace timezone.'),
+    format: z.enum(['csv', 'json']).optional().default('csv'),
+    fileName: z.string().min(1).max(100).optional().describe('File name for the export (e.g. "launch.csv"). Defaults to "events" and today\'s date.')
+  }),
+  execute: async (params) => {
+    try {
+      const exported = await selectEventsForExport(params);
+      
+      const records = exported.map(({ event, track }) => {
+        const timeZone = resolveTimeZone(params.timezone, track.timezone);
+        return {
+          id: event.id,
+          track: track.name,
+          name: event.name,
+          prompt: event.prompt,
+          scheduledTime: formatInTimeZone(new Date(event.scheduledTime), timeZone),
+          timezone: timeZone,
+          platform: event.platform,
+          status: getEventStatus(event),
+          metadata: event.metadata ? JSON.parse(event.metadata) : {}
+        };
+      });
+      
+      const content = params.format === 'json'
+        ? JSON.stringify(records, null, 2)
+        : formatCsv(BULK_EXPORT_COLUMNS, records.map(record => ({
+          ...record,
+          metadata: JSON.stringify(record.metadata)
+        })));
+      
+      const filePath = await writeExportFile(params.fileName, 'events', params.format, content);
+      
+      return JSON.stringify({
+        success: true,
+        filePath,
+        format: params.format,
+        eventCount: records.length
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in export_events:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Set cadence rule
+addAccountTool({
+  name: 'timeline_set_cadence_rule',
+  description: `Create or update a posting cadence rule. There is at most one rule per scope target; setting it again updates the given fields (null clears one).
+
+SCOPES:
+- 'workspace': every event
+- 'platform': events for one platform (pass platform)
+- 'track': events in one track (pass trackId)
+
+RULES:
+- minSpacingMinutes: minimum gap between two posts
+- maxPerDay: maximum posts per local day
+- quietHours: { "start": "22:00", "end": "07:00" } local times no post may be scheduled in
+- blackoutDates: local dates (YYYY-MM-DD) with no posts
+
+timeline_add_scheduled_event and timeline_update_scheduled_event reject times that break a rule (unless overrideCadence is set) and suggest alternatives. Use timeline_check_schedule to audit existing events.`,
+  parameters: z.object({
+    scope: cadenceScopeSchema,
+    platform: platformSchema.optional().describe('Required for scope "platform"'),
+    trackId: z.string().uuid().optional().describe('Required for scope "track"'),
+    minSpacingMinutes: z.number().int().positive().max(10080).nullable().optional(),
+    maxPerDay: z.number().int().positive().max(1000).nullable().optional(),
+    quietHours: quietHoursSchema.nullable().optional(),
+    blackoutDates: z.array(localDateSchema).optional().describe('Replaces the existing blackout dates'),
+    timezone: timezoneSchema.nullable().optional().describe('IANA timezone for days and quiet hours. Defaults to each event\'s timezone.')
+  }).refine(data => data.scope !== 'platform' || data.platform, {
+    message: 'platform is required for scope "platform"',
+    path: ['platform']
+  }).refine(data => data.scope !== 'track' || data.trackId, {
+    message: 'trackId is required for scope "track"',
+    path: ['trackId']
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    let trackName: string | undefined;
+    if (params.scope === 'track') {
+      const [track] = await db.select().from(tracks).where(and(eq(tracks.id, params.trackId!), inAccount(tracks)));
+      if (!track) {
+        return JSON.stringify({
+          success: false,
+          error: 'Track not found'
+        }, null, 2);
+      }
+      trackName = track.name;
+    }
+    
+    const target = params.scope === 'platform'
+      ? and(inAccount(cadenceRules), eq(cadenceRules.scope, 'platform'), eq(cadenceRules.platform, params.platform!))
+      : params.scope === 'track'
+        ? and(inAccount(cadenceRules), eq(cadenceRules.scope, 'track'), eq(cadenceRules.trackId, params.trackId!))
+        : and(inAccount(cadenceRules), eq(cadenceRules.scope, 'workspace'));
+    
+    const fields: Partial<CadenceRule> = {};
+    if (params.minSpacingMinutes !== undefined) fields.minSpacingMinutes = params.minSpacingMinutes;
+    if (params.maxPerDay !== undefined) fields.maxPerDay = params.maxPerDay;
+    if (params.quietHours !== undefined) fields.quietHours = params.quietHours ? JSON.stringify(params.quietHours) : null;
+    if (params.blackoutDates !== undefined) fields.blackoutDates = JSON.stringify([...new Set(params.blackoutDates)].sort());
+    if (params.timezone !== undefined) fields.timezone = params.timezone;
+    
+    const [existing] = await db.select().from(cadenceRules).where(target);
+    let ruleId: string;
+    
+    if (existing) {
+      ruleId = existing.id;
+      await db.update(cadenceRules)
+        .set({ ...fields, updatedAt: new Date().toISOString() })
+        .where(eq(cadenceRules.id, ruleId));
+    } else {
+      ruleId = uuidv4();
+      const postyAccountId = currentAccountId();
+      await db.insert(cadenceRules).values({
+        id: ruleId,
+        postyAccountId,
+        scope: params.scope,
+        platform: params.scope === 'platform' ? params.platform : null,
+        trackId: params.scope === 'track' ? params.trackId : null,
+        blackoutDates: '[]',
+        ...fields
+      });
+    }
+    
+    const [rule] = await db.select().from(cadenceRules).where(eq(cadenceRules.id, ruleId));
+    
+    return JSON.stringify({
+      success: true,
+      created: !existing,
+      rule: formatCadenceRule(rule, trackName)
+    }, null, 2);
+  }
+});
+
+// Tool: List cadence rules
+addAccountTool({
+  name: 'timeline_list_cadence_rules',
+  description: 'List posting cadence rules (workspace, platform and track scoped)',
+  parameters: z.object({
+    scope: cadenceScopeSchema.optional().describe('Filter by scope')
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const results = await db.select({ rule: cadenceRules, trackName: tracks.name })
+      .from(cadenceRules)
+      .leftJoin(tracks, eq(cadenceRules.trackId, tracks.id))
+      .where(and(inAccount(cadenceRules), params.scope ? eq(cadenceRules.scope, params.scope) : undefined))
+      .orderBy(asc(cadenceRules.scope), asc(cadenceRules.createdAt));
+    
+    return JSON.stringify({
+      rules: results.map(({ rule, trackName }) => formatCadenceRule(rule, trackName ?? undefined)),
+      total: results.length
+    }, null, 2);
+  }
+});
+
+// Tool: Remove cadence rule
+addAccountTool({
+  name: 'timeline_remove_cadence_rule',
+  description: 'Remove a posting cadence rule',
+  parameters: z.object({
+    ruleId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    const db = await getDb();
+    
+    const removed = await db.delete(cadenceRules)
+      .where(and(eq(cadenceRules.id, params.ruleId), inAccount(cadenceRules)))
+      .returning({ id: cadenceRules.id });
+    
+    if (removed.length === 0) {
+      return JSON.stringify({
+        success: false,
+        error: 'Cadence rule not found'
+      }, null, 2);
+    }
+    
+    return JSON.stringify({
+      success: true,
+      message: 'Cadence rule removed'
+    }, null, 2);
+  }
+});
+
+// Tool: Check schedule against cadence rules
+addAccountTool({
+  name: 'timeline_check_schedule',
+  description: 'Audit upcoming events against the cadence rules, listing every event that breaks one together with suggested alternative times. Posted and cancelled events are not audited, but posted events still count toward spacing and daily limits.',
+  parameters: z.object({
+    trackId: z.string().uuid().optional().describe('Only audit this track'),
+    platform: platformSchema.optional().describe('Only audit this platform'),
+    startDate: isoDateTimeSchema.optional().describe('First day to audit (YYYY-MM-DD). Defaults to now.'),
+    endDate: isoDateTimeSchema.optional().describe('Last day to audit (YYYY-MM-DD)'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for day boundaries and local times. Defaults to each event\'s track timezone, then the workspace timezone.')
+  }),
+  execute: async (params) => {
+    try {
+      const now = new Date();
+      const audited = (await selectEventsForExport(params)).filter(({ event }) =>
+        !['posted', 'cancelled'].includes(getEventStatus(event))
+        && (params.startDate || new Date(event.scheduledTime) >= now)
+      );
+      
+      if (audited.length === 0) {
+        return JSON.stringify({
+          success: true,
+          checked: 0,
+          conflictCount: 0,
+          events: []
+        }, null, 2);
+      }
+      
+      const day = 24 * 60 * 60 * 1000;
+      const first = new Date(audited[0].event.scheduledTime);
+      const last = new Date(audited[audited.length - 1].event.scheduledTime);
+      const { rules, peers } = await loadCadenceContext(
+        new Date(first.getTime() - CADENCE_DAYS_BEFORE * day),
+        new Date(last.getTime() + CADENCE_DAYS_AFTER * day)
+      );
+      
+      const conflicting = [];
+      for (const { event, track } of audited) {
+        const timeZone = resolveTimeZone(params.timezone, track.timezone);
+        const result = evaluateCadence({
+          trackId: track.id,
+          platform: event.platform || 'x',
+          scheduledTime: new Date(event.scheduledTime),
+          timeZone
+        }, rules, peers.filter(peer => peer.id !== event.id));
+        
+        if (result) {
+          conflicting.push({
+            eventId: event.id,
+            name: event.name,
+            trackName: track.name,
+            platform: event.platform,
+            scheduledTime: event.scheduledTime,
+            scheduledTimeLocal: formatInTimeZone(new Date(event.scheduledTime), timeZone),
+            ...result
+          });
+        }
+      }
+      
+      return JSON.stringify({
+        success: true,
+        checked: audited.length,
+        rules: rules.length,
+        conflictCount: conflicting.length,
+        events: conflicting
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in check_schedule:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Find open slots
+addAccountTool({
+  name: 'timeline_find_open_slots',
+  description: `Suggest posting times for new events on a platform that avoid existing posts, e.g. to fit three more LinkedIn posts into next week.
+
+Candidates inside preferredHours (local time) must keep minSpacingMinutes from every other post on the platform and fit the cadence rules. They are ranked by how far they are from the nearest post, with a penalty per post already on that day, so suggestions spread across the range.
+
+Pass schedule (one entry per event, with trackName) to add the events at the suggested times right away, in chronological order, exactly as timeline_add_scheduled_event would.`,
+  parameters: z.object({
+    platform: platformSchema,
+    trackName: z.string().min(1).max(100).optional().describe('Track the posts are for; its cadence rules and timezone apply. Required with schedule.'),
+    startDate: isoDateTimeSchema.optional().describe('First day to search (YYYY-MM-DD). Defaults to now.'),
+    endDate: isoDateTimeSchema.optional().describe('Last day to search (YYYY-MM-DD). Defaults to 7 days from the start.'),
+    count: z.number().int().positive().max(20).optional().default(3).describe('How many slots to find; ignored with schedule'),
+    preferredHours: z.array(timeWindowSchema).optional().default([{ start: '09:00', end: '18:00' }])
+      .describe('Local time windows to post in; an empty list allows any time'),
+    minSpacingMinutes: z.number().int().nonnegative().optional().default(120).describe('Minimum distance from other posts on the platform'),
+    timezone: timezoneSchema.optional().describe('IANA timezone for days and preferred hours. Defaults to the track timezone, then the workspace timezone.'),
+    schedule: z.array(addScheduledEventParams.pick({
+      eventName: true,
+      prompt: true,
+      agent: true,
+      approvalVia: true,
+      mcpTools: true,
+      metadata: true
+    })).min(1).max(20).optional().describe('Events to schedule at the found slots')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      if (params.schedule && !params.trackName) {
+        return JSON.stringify({
+          success: false,
+          error: 'trackName is required to schedule events'
+        }, null, 2);
+      }
+      
+      const [track] = params.trackName
+        ? await db.select().from(tracks)
+          .where(and(eq(tracks.name, params.trackName), eq(tracks.type, 'planned'), inAccount(tracks)))
+          .limit(1)
+        : [];
+      const timeZone = resolveTimeZone(params.timezone, track?.timezone);
+      
+      const now = new Date();
+      const start = params.startDate ? getDayBoundsInZone(params.startDate, timeZone).start : now;
+      const from = start > now ? start : now;
+      const to = params.endDate
+        ? getDayBoundsInZone(params.endDate, timeZone).end
+        : new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+      
+      if (to <= from) {
+        return JSON.stringify({
+          success: false,
+          error: 'The date range has no future time left to search'
+        }, null, 2);
+      }
+      if (to.getTime() - from.getTime() > OPEN_SLOT_MAX_DAYS * 24 * 60 * 60 * 1000) {
+        return JSON.stringify({
+          success: false,
+          error: `Search at most ${OPEN_SLOT_MAX_DAYS} days at a time`
+        }, null, 2);
+      }
+      
+      const day = 24 * 60 * 60 * 1000;
+      const rules = (await db.select().from(cadenceRules).where(inAccount(cadenceRules))).map(toCadenceRuleConfig);
+      const peers = await loadCadencePeers(
+        new Date(from.getTime() - CADENCE_DAYS_BEFORE * day),
+        new Date(to.getTime() + CADENCE_DAYS_AFTER * day)
+      );
+      
+      const count = params.schedule?.length ?? params.count;
+      const slots = findOpenSlots({
+        trackId: track?.id ?? '',
+        platform: params.platform,
+        timeZone
+      }, rules, peers, {
+        from,
+        to,
+        count,
+        windows: params.preferredHours,
+        minSpacingMinutes: params.minSpacingMinutes
+      });
+      
+      const response = {
+        success: true,
+        platform: params.platform,
+        timezone: timeZone,
+        searched: { from: from.toISOString(), to: to.toISOString() },
+        requested: count,
+        slots: slots.map((slot, index) => ({
+          rank: index + 1,
+          scheduledTime: slot.scheduledTime.toISOString(),
+          scheduledTimeLocal: formatInTimeZone(slot.scheduledTime, timeZone),
+          score: slot.score,
+          nearestPostMinutes: slot.nearestPostMinutes,
+          postsThatDay: slot.postsThatDay
+        })),
+        hint: slots.length < count
+          ? 'Fewer open slots than requested: widen the date range or preferred hours, or lower minSpacingMinutes'
+          : undefined
+      };
+      
+      if (!params.schedule) {
+        return JSON.stringify(response, null, 2);
+      }
+      if (slots.length < count) {
+        return JSON.stringify({
+          ...response,
+          success: false,
+          error: `Only ${slots.length} of ${count} open slots found; nothing was scheduled`
+        }, null, 2);
+      }
+      
+      // Events keep their order: the first entry gets the earliest slot
+      const times = slots.map(slot => slot.scheduledTime).sort((a, b) => a.getTime() - b.getTime());
+      const scheduled = [];
+      for (const [index, entry] of params.schedule.entries()) {
+        scheduled.push(await addScheduledEvent({
+          ...entry,
+          trackName: params.trackName!,
+          platform: params.platform,
+          scheduledTime: times[index].toISOString(),
+          timezone: timeZone
+        }));
+      }
+      
+      return JSON.stringify({
+        ...response,
+        success: scheduled.every(result => result.success),
+        scheduled
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in find_open_slots:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+/**
+ * Make sure an event has a media folder, creating one for events that never got it
+ */
+async function ensureEventMediaFolder(event: Event, track: Track): Promise<string> {
+  if (event.mediaPath) {
+    await fs.mkdir(path.join(getWorkspacePath(), event.mediaPath), { recursive: true });
+    return event.mediaPath;
+  }
+  
+  const db = await getDb();
+  const mediaPath = await createMediaPath(track.name, event.name);
+  await createEventMediaFolder(mediaPath, event.id, event.name, track.id);
+  await trackEventChanges(eq(events.id, event.id), () => db.update(events)
+    .set({ mediaPath, updatedAt: new Date().toISOString() })
+    .where(eq(events.id, event.id)));
+  notifyEventsChanged(track.id, [event.id]);
+  
+  return mediaPath;
+}
+
+/**
+ * Bring the media manifest in info.json in line with the files in the folder
+ * Unchanged files (same size and modification time) keep their entry, so only new or changed files are hashed
+ */
+async function syncMediaManifest(mediaPath: string, event: Event): Promise<MediaFileInfo[]> {
+  const folder = path.join(getWorkspacePath(), mediaPath);
+  const infoFile = path.join(folder, 'info.json');
+  
+  let info: Record<string, unknown> = {};
+  try {
+    info = JSON.parse(await fs.readFile(infoFile, 'utf8'));
+  } catch {
+    // Missing or unreadable info.json is rebuilt below
+    info = { eventId: event.id, eventName: event.name, trackId: event.trackId, createdAt: new Date().toISOString() };
+  }
+  
+  const previous = new Map<string, MediaFileInfo>(
+    (Array.isArray(info.media) ? info.media : []).map((entry: MediaFileInfo) => [entry.file, entry])
+  );
+  
+  const media: MediaFileInfo[] = [];
+  for (const entry of await fs.readdir(folder, { withFileTypes: true })) {
+    if (!entry.isFile() || entry.name === 'info.json' || entry.name.startsWith('.')) continue;
+    
+    const filePath = path.join(folder, entry.name);
+    const stat = await fs.stat(filePath);
+    const known = previous.get(entry.name);
+    
+    if (known && known.size === stat.size && known.modifiedAt === stat.mtime.toISOString()) {
+      media.push(known);
+    } else {
+      media.push({ ...(await inspectMediaFile(filePath)), addedAt: known?.addedAt ?? new Date().toISOString() });
+    }
+  }
+  
+  media.sort((a, b) => a.file.localeCompare(b.file));
+  info.media = media;
+  await fs.writeFile(infoFile, JSON.stringify(info, null, 2));
+  
+  return media;
+}
+
+/**
+ * Whether an event's media satisfies its platform's requirements
+ */
+function getMediaCheck(platform: string | null, media: MediaFileInfo[]) {
+  const definition = PLATFORMS[(platform || 'x') as Platform];
+  const usable = definition ? media.filter(file => (definition.media.types as string[]).includes(file.kind)) : [];
+  const required = definition?.media.required ?? false;
+  const satisfied = !required || usable.length > 0;
+  
+  return {
+    required,
+    acceptedTypes: definition?.media.types ?? [],
+    usableFiles: usable.length,
+    satisfied,
+    message: satisfied
+      ? undefined
+      : `${definition.name} posts need ${definition.media.types.join(' or ')} media, but the event folder has none`
+  };
+}
+
+/**
+ * Resolve a path and make sure it stays inside the workspace
+ */
+function resolveInsideWorkspace(filePath: string): string {
+  const workspace = path.resolve(getWorkspacePath());
+  const resolved = path.resolve(workspace, filePath);
+  const relative = path.relative(workspace, resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error('Path must be inside the workspace');
+  }
+  return resolved;
+}
+
+async function getEventWithTrack(eventId: string) {
+  const db = await getDb();
+  const [result] = await db.select({ event: events, track: tracks })
+    .from(events)
+    .innerJoin(tracks, eq(events.trackId, tracks.id))
+    .where(and(eq(events.id, eventId), inAccount(events)));
+  return result;
+}
+
+// Tool: List event media
+addAccountTool({
+  name: 'timeline_list_event_media',
+  description: 'List the files in an event\'s media folder with type, size, SHA-256 and image dimensions / video duration, and report whether the event has the media its platform requires (e.g. an image or video for Instagram). Check this before approving an event. The manifest in the folder\'s info.json is refreshed, so files added by other tools are picked up.',
+  parameters: z.object({
+    eventId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    try {
+      const current = await getEventWithTrack(params.eventId);
+      if (!current) {
+        return JSON.stringify({
+          success: false,
+          error: 'Event not found'
+        }, null, 2);
+      }
+      
+      const mediaPath = await ensureEventMediaFolder(current.event, current.track);
+      const media = await syncMediaManifest(mediaPath, current.event);
+      
+      return JSON.stringify({
+        success: true,
+        eventId: current.event.id,
+        platform: current.event.platform,
+        mediaPath,
+        media,
+        mediaCheck: getMediaCheck(current.event.platform, media)
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in list_event_media:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Attach media
+addAccountTool({
+  name: 'timeline_attach_media',
+  description: 'Copy or move a file from the workspace into an event\'s media folder and record it in the media manifest. An existing file with the same name is kept and the new one gets a numbered name.',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    sourcePath: z.string().min(1).describe('File to attach, relative to the workspace (or an absolute path inside it)'),
+    mode: z.enum(['copy', 'move']).optional().default('copy'),
+    fileName: z.string().min(1).max(100).optional().describe('Name for the file in the media folder. Defaults to the source file name.')
+  }),
+  execute: async (params) => {
+    try {
+      const current = await getEventWithTrack(params.eventId);
+      if (!current) {
+        return JSON.stringify({
+          success: false,
+          error: 'Event not found'
+        }, null, 2);
+      }
+      
+      const source = resolveInsideWorkspace(params.sourcePath);
+      const sourceStat = await fs.stat(source);
+      if (!sourceStat.isFile()) {
+        throw new Error('Source must be a file');
+      }
+      
+      const mediaPath = await ensureEventMediaFolder(current.event, current.track);
+      const folder = path.join(getWorkspacePath(), mediaPath);
+      
+      // Pick a free name: photo.png, photo-1.png, photo-2.png, ...
+      const requested = sanitizeFileName(params.fileName || path.basename(source));
+      if (!requested || requested === 'info.json') {
+        throw new Error('Invalid file name');
+      }
+      const extension = path.extname(requested);
+      const stem = requested.slice(0, requested.length - extension.length);
+      let fileName = requested;
+      for (let n = 1; await fs.access(path.join(folder, fileName)).then(() => true, () => false); n++) {
+        fileName = `${stem}-${n}${extension}`;
+      }
+      const destination = path.join(folder, fileName);
+      
+      if (params.mode === 'move') {
+        try {
+          await fs.rename(source, destination);
+        } catch (error) {
+          // Across filesystems rename fails, so copy and delete instead
+          if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+          await fs.copyFile(source, destination);
+          await fs.unlink(source);
+        }
+      } else {
+        await fs.copyFile(source, destination);
+      }
+      
+      const media = await syncMediaManifest(mediaPath, current.event);
+      notifyResourcesUpdated([eventResourceUri(current.event.id)]);
+      
+      return JSON.stringify({
+        success: true,
+        eventId: current.event.id,
+        mediaPath,
+        attached: media.find(file => file.file === fileName),
+        mediaCheck: getMediaCheck(current.event.platform, media)
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in attach_media:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Remove media
+addAccountTool({
+  name: 'timeline_remove_media',
+  description: 'Delete a file from an event\'s media folder and drop it from the media manifest',
+  parameters: z.object({
+    eventId: z.string().uuid(),
+    fileName: z.string().min(1).describe('Name of the file within the media folder, as listed by timeline_list_event_media')
+  }),
+  execute: async (params) => {
+    try {
+      const current = await getEventWithTrack(params.eventId);
+      if (!current) {
+        return JSON.stringify({
+          success: false,
+          error: 'Event not found'
+        }, null, 2);
+      }
+      
+      if (params.fileName !== path.basename(params.fileName) || params.fileName === 'info.json') {
+        throw new Error('fileName must be the name of a media file in the event folder');
+      }
+      
+      const mediaPath = await ensureEventMediaFolder(current.event, current.track);
+      
+      try {
+        await fs.unlink(path.join(getWorkspacePath(), mediaPath, params.fileName));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return JSON.stringify({
+            success: false,
+            error: `No file named "${params.fileName}" in the event media folder`
+          }, null, 2);
+        }
+        throw error;
+      }
+      
+      const media = await syncMediaManifest(mediaPath, current.event);
+      notifyResourcesUpdated([eventResourceUri(current.event.id)]);
+      
+      return JSON.stringify({
+        success: true,
+        eventId: current.event.id,
+        removed: params.fileName,
+        media,
+        mediaCheck: getMediaCheck(current.event.platform, media)
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in remove_media:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Add automation
+addAccountTool({
+  name: 'timeline_add_automation',
+  description: 'Create an automation on an automation track. The trigger is either an interval ({ "type": "interval", "every": "30m" }) or a cron expression ({ "type": "cron", "expression": "0 9 * * 1-5" }). Create the track first with timeline_add_track using type "automation".',
+  parameters: z.object({
+    trackId: z.string().uuid().describe('ID of an automation track'),
+    name: z.string().min(1, 'Automation name cannot be empty').max(200, 'Automation name too long'),
+    description: z.string().max(2000, 'Description too long').optional(),
+    trigger: automationTriggerSchema,
+    actions: z.array(automationActionSchema).min(1, 'At least one action must be provided'),
+    endCondition: automationEndConditionSchema.optional().describe('Stop after N executions ({ "type": "executions", "value": 10 }), on a date ({ "type": "date", "value": "2025-12-31" }) or after N days ({ "type": "days", "value": 14 })'),
+    enabled: z.boolean().optional().default(true)
+  }),
+  execute: async (params) => {
+    console.error('[Timeline MCP] Add automation called with params:', JSON.stringify(params, null, 2));
+    
+    try {
+      const db = await getDb();
+      
+      const [track] = await db.select().from(tracks)
+        .where(and(eq(tracks.id, params.trackId), inAccount(tracks)))
+        .limit(1);
+      
+      if (!track) {
+        return JSON.stringify({
+          success: false,
+          error: `Track ${params.trackId} not found`
+        }, null, 2);
+      }
+      
+      if (track.type !== 'automation') {
+        return JSON.stringify({
+          success: false,
+          error: `Track "${track.name}" is not an automation track. Create one with timeline_add_track using type "automation".`
+        }, null, 2);
+      }
+      
+      const automationId = uuidv4();
+      const postyAccountId = currentAccountId();
+      
+      await db.insert(automations).values(prepareAutomationForDb({
+        id: automationId,
+        postyAccountId,
+        trackId: track.id,
+        name: params.name,
+        description: params.description,
+        trigger: params.trigger,
+        actions: params.actions,
+        enabled: params.enabled,
+        endCondition: params.endCondition,
+        stats: emptyAutomationStats(),
+        nextRun: params.enabled ? computeNextRun(params.trigger, new Date()) : null,
+        state: {}
+      }));
+      
+      const [newAutomation] = await db.select().from(automations).where(eq(automations.id, automationId));
+      
+      console.error('[Timeline MCP] Automation created:', newAutomation.id, newAutomation.name);
+      
+      return JSON.stringify({
+        success: true,
+        automation: formatAutomation(newAutomation, track.name)
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in add_automation:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: List automations
+addAccountTool({
+  name: 'timeline_list_automations',
+  description: 'List automations with optional filtering by track and enabled state',
+  parameters: z.object({
+    trackId: z.string().uuid().optional().describe('Filter by automation track ID'),
+    enabled: z.boolean().optional().describe('Filter by enabled state'),
+    limit: z.number().int().positive().max(100).optional().default(50),
+    offset: z.number().int().nonnegative().optional().default(0)
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const whereConditions = [inAccount(automations)];
+      
+      if (params.trackId) {
+        whereConditions.push(eq(automations.trackId, params.trackId));
+      }
+      
+      if (params.enabled !== undefined) {
+        whereConditions.push(eq(automations.enabled, params.enabled ? 1 : 0));
+      }
+      
+      const where = and(...whereConditions);
+      
+      const results = await db.select({
+        automation: automations,
+        track: tracks
+      })
+      .from(automations)
+      .innerJoin(tracks, eq(automations.trackId, tracks.id))
+      .where(where)
+      .orderBy(asc(tracks.order), asc(automations.createdAt))
+      .limit(params.limit)
+      .offset(params.offset);
+      
+      const [{ total }] = await db.select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(automations)
+        .innerJoin(tracks, eq(automations.trackId, tracks.id))
+        .where(where);
+      
+      return JSON.stringify({
+        automations: results.map(({ automation, track }) => formatAutomation(automation, track.name)),
+        pagination: {
+          limit: params.limit,
+          offset: params.offset,
+          total
+        }
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in list_automations:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Update automation
+addAccountTool({
+  name: 'timeline_update_automation',
+  description: 'Update an existing automation. Use timeline_enable_automation / timeline_disable_automation to toggle it.',
+  parameters: z.object({
+    automationId: z.string().uuid(),
+    updates: z.object({
+      name: z.string().min(1).max(200).optional(),
+      description: z.string().max(2000).optional(),
+      trigger: automationTriggerSchema.optional(),
+      actions: z.array(automationActionSchema).min(1).optional(),
+      endCondition: automationEndConditionSchema.nullable().optional().describe('New end condition, or null to run indefinitely')
+    }).refine(data => Object.keys(data).length > 0, {
+      message: 'At least one update field must be provided'
+    })
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const [existing] = await db.select().from(automations).where(and(eq(automations.id, params.automationId), inAccount(automations)));
+      
+      if (!existing) {
+        return JSON.stringify({
+          success: false,
+          error: 'Automation not found'
+        }, null, 2);
+      }
+      
+      const updates: Partial<typeof params.updates> & { nextRun?: Date; updatedAt: Date } = { updatedAt: new Date() };
+      
+      if (params.updates.name) updates.name = params.updates.name;
+      if (params.updates.description !== undefined) updates.description = params.updates.description;
+      if (params.updates.actions) updates.actions = params.updates.actions;
+      if (params.updates.endCondition !== undefined) updates.endCondition = params.updates.endCondition;
+      if (params.updates.trigger) {
+        updates.trigger = params.updates.trigger;
+        
+        // Reschedule from the last run so a shorter interval takes effect immediately
+        if (existing.enabled === 1) {
+          const lastRun = fromSQLiteDate(existing.lastRun);
+          updates.nextRun = computeNextRun(params.updates.trigger, lastRun ?? new Date());
+        }
+      }
+      
+      await db.update(automations)
+        .set(prepareAutomationForDb(updates))
+        .where(eq(automations.id, params.automationId));
+      
+      const [updated] = await db.select().from(automations).where(eq(automations.id, params.automationId));
+      
+      return JSON.stringify({
+        success: true,
+        automation: formatAutomation(updated)
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in update_automation:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+async function setAutomationEnabled(automationId: string, enabled: boolean): Promise<string> {
+  try {
+    const db = await getDb();
+    
+    const [existing] = await db.select().from(automations).where(and(eq(automations.id, automationId), inAccount(automations)));
+    
+    if (!existing) {
+      return JSON.stringify({
+        success: false,
+        error: 'Automation not found'
+      }, null, 2);
+    }
+    
+    // Enabling schedules the next run from now; disabling clears it
+    const parsedAutomation = parseAutomationFromDb(existing);
+    const nextRun = enabled ? computeNextRun(parsedAutomation.trigger, new Date()) : null;
+    
+    await db.update(automations)
+      .set({ ...prepareAutomationForDb({ enabled, updatedAt: new Date() }), nextRun: toSQLiteDate(nextRun) })
+      .where(eq(automations.id, automationId));
+    
+    const [updated] = await db.select().from(automations).where(eq(automations.id, automationId));
+    
+    return JSON.stringify({
+      success: true,
+      automation: formatAutomation(updated),
+      message: `Automation "${updated.name}" ${enabled ? 'enabled' : 'disabled'}`
+    }, null, 2);
+  } catch (error) {
+    console.error(`[Timeline MCP] Error in ${enabled ? 'enable' : 'disable'}_automation:`, error);
+    
+    return JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      stack: error instanceof Error ? error.stack : undefined
+    }, null, 2);
+  }
+}
+
+// Tool: Enable automation
+addAccountTool({
+  name: 'timeline_enable_automation',
+  description: 'Enable an automation so it runs on its trigger',
+  parameters: z.object({
+    automationId: z.string().uuid()
+  }),
+  execute: async (params) => setAutomationEnabled(params.automationId, true)
+});
+
+// Tool: Disable automation
+addAccountTool({
+  name: 'timeline_disable_automation',
+  description: 'Disable an automation without removing it',
+  parameters: z.object({
+    automationId: z.string().uuid()
+  }),
+  execute: async (params) => setAutomationEnabled(params.automationId, false)
+});
+
+// Tool: Remove automation
+addAccountTool({
+  name: 'timeline_remove_automation',
+  description: 'Remove an automation',
+  parameters: z.object({
+    automationId: z.string().uuid()
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const [automation] = await db.select()
+        .from(automations)
+        .where(and(eq(automations.id, params.automationId), inAccount(automations)))
+        .limit(1);
+      
+      if (!automation) {
+        return JSON.stringify({
+          success: false,
+          error: `Automation ${params.automationId} not found`
+        }, null, 2);
+      }
+      
+      await db.delete(automations).where(eq(automations.id, params.automationId));
+      
+      return JSON.stringify({
+        success: true,
+        message: `Automation "${automation.name}" removed successfully`
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in remove_automation:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Get due automations
+addAccountTool({
+  name: 'timeline_get_due_automations',
+  description: 'List enabled automations whose next run time has arrived. Automations whose end condition has been reached are disabled instead of returned, and ones that cannot be evaluated are listed under errors. After running an automation, report the outcome with timeline_record_automation_run.',
+  parameters: z.object({
+    asOf: isoDateTimeSchema.optional().describe('Evaluate due automations at this time instead of now'),
+    limit: z.number().int().positive().max(100).optional().default(20)
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      const now = params.asOf ? new Date(params.asOf) : new Date();
+      
+      // One broken automation (e.g. a stored trigger that no longer parses) is reported, not fatal to the rest
+      const failed: { id: string; name: string; error: string }[] = [];
+      const reportFailure = (automation: Automation, error: unknown) => {
+        console.error('[Timeline MCP] Error evaluating automation:', automation.id, error);
+        failed.push({
+          id: automation.id,
+          name: automation.name,
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        });
+      };
+      
+      // Schedule enabled automations that have never had a next run computed
+      const unscheduled = await db.select().from(automations)
+        .where(and(inAccount(automations), eq(automations.enabled, 1), isNull(automations.nextRun)));
+      
+      for (const automation of unscheduled) {
+        try {
+          const parsedAutomation = parseAutomationFromDb(automation);
+          const from = parsedAutomation.lastRun ?? parsedAutomation.createdAt ?? now;
+          await db.update(automations)
+            .set({ nextRun: toSQLiteDate(computeNextRun(parsedAutomation.trigger, from)) })
+            .where(eq(automations.id, automation.id));
+        } catch (error) {
+          reportFailure(automation, error);
+        }
+      }
+      
+      const results = await db.select({
+        automation: automations,
+        track: tracks
+      })
+      .from(automations)
+      .innerJoin(tracks, eq(automations.trackId, tracks.id))
+      .where(and(
+        inAccount(automations),
+        eq(automations.enabled, 1),
+        isNotNull(automations.nextRun),
+        lte(automations.nextRun, now.toISOString())
+      ))
+      .orderBy(asc(automations.nextRun))
+      .limit(params.limit);
+      
+      const due = [];
+      const ended = [];
+      
+      for (const { automation, track } of results) {
+        try {
+          const parsedAutomation = parseAutomationFromDb(automation);
+          const reason = getEndConditionReason(
+            parsedAutomation.endCondition,
+            parsedAutomation.stats,
+            parsedAutomation.createdAt ?? now,
+            now
+          );
+          
+          if (reason) {
+            await db.update(automations)
+              .set({ enabled: 0, nextRun: null, updatedAt: new Date().toISOString() })
+              .where(eq(automations.id, automation.id));
+            ended.push({ id: automation.id, name: automation.name, reason });
+            continue;
+          }
+          
+          due.push(formatAutomation(automation, track.name));
+        } catch (error) {
+          reportFailure(automation, error);
+        }
+      }
+      
+      return JSON.stringify({
+        asOf: now.toISOString(),
+        automations: due,
+        disabled: ended,
+        errors: failed
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in get_due_automations:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Record automation run
+addAccountTool({
+  name: 'timeline_record_automation_run',
+  description: 'Record the outcome of an automation run. Updates execution stats, schedules the next run and disables the automation once its end condition is reached.',
+  parameters: z.object({
+    automationId: z.string().uuid(),
+    status: z.enum(['success', 'failure']),
+    output: z.string().max(10000).optional().describe('Summary of what the run produced'),
+    error: z.string().max(5000).optional().describe('Error message for failed runs'),
+    ranAt: isoDateTimeSchema.optional().describe('When the run happened. Defaults to now.'),
+    state: z.record(z.any()).optional().describe('State to merge into the automation state for the next run')
+  }),
+  execute: async (params) => {
+    try {
+      const db = await getDb();
+      
+      const [existing] = await db.select().from(automations).where(and(eq(automations.id, params.automationId), inAccount(automations)));
+      
+      if (!existing) {
+        return JSON.stringify({
+          success: false,
+          error: 'Automation not found'
+        }, null, 2);
+      }
+      
+      const parsedAutomation = parseAutomationFromDb(existing);
+      const ranAt = params.ranAt ? new Date(params.ranAt) : new Date();
+      
+      const stats = {
+        totalExecutions: parsedAutomation.stats.totalExecutions + 1,
+        successCount: parsedAutomation.stats.successCount + (params.status === 'success' ? 1 : 0),
+        failureCount: parsedAutomation.stats.failureCount + (params.status === 'failure' ? 1 : 0)
+      };
+      
+      const state = {
+        ...parsedAutomation.state,
+        ...params.state,
+        lastResult: {
+          status: params.status,
+          output: params.output,
+          error: params.error,
+          ranAt: ranAt.toISOString()
+        }
+      };
+      
+      const endReason = getEndConditionReason(
+        parsedAutomation.endCondition,
+        stats,
+        parsedAutomation.createdAt ?? ranAt,
+        new Date(Math.max(ranAt.getTime(), Date.now()))
+      );
+      
+      const enabled = parsedAutomation.enabled && !endReason;
+      const nextRun = enabled ? computeNextRun(parsedAutomation.trigger, ranAt) : null;
+      
+      await db.update(automations)
+        .set({
+          ...prepareAutomationForDb({
+            lastRun: ranAt,
+            stats,
+            state,
+            enabled,
+            updatedAt: new Date()
+          }),
+          nextRun: toSQLiteDate(nextRun)
+        })
+        .where(eq(automations.id, params.automationId));
+      
+      const [updated] = await db.select().from(automations).where(eq(automations.id, params.automationId));
+      
+      return JSON.stringify({
+        success: true,
+        automation: formatAutomation(updated),
+        ended: endReason !== null,
+        endReason: endReason ?? undefined
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in record_automation_run:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: Database status
+mcp.addTool({
+  name: 'timeline_db_status',
+  description: 'Report the workspace database schema version, the migrations applied and any still pending (they run automatically on the next tool call). If the database was migrated by a newer timeline-mcp, other tools refuse to run until the server is updated.',
+  parameters: z.object({}),
+  execute: async () => {
+    try {
+      const store = await openStorage();
+      const status = await store.getStatus();
+      
+      let message = `Schema is up to date (version ${status.currentVersion})`;
+      if (status.newerThanServer) {
+        message = `Database schema version ${status.currentVersion} is newer than this server supports (${status.latestVersion}); update timeline-mcp`;
+      } else if (status.pending.length > 0) {
+        message = `${status.pending.length} migration(s) pending; they are applied on the next tool call that uses the database`;
+      }
+      
+      return JSON.stringify({
+        success: true,
+        backend: store.backend,
+        database: store.location,
+        ...status,
+        message
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in db_status:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Tool: List accounts
+mcp.addTool({
+  name: 'timeline_list_accounts',
+  description: 'List the posty accounts (brands) in the workspace with their track and event counts. Pass an account\'s id as accountId to other tools to work in it; without one they use the default account.',
+  parameters: z.object({}),
+  execute: async () => {
+    try {
+      const db = await getDb();
+      const defaultAccountId = await getDefaultPostyAccountId();
+      
+      const accounts = await db.select().from(postyAccounts).orderBy(asc(postyAccounts.id));
+      const trackCounts = await db.select({ accountId: tracks.postyAccountId, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(tracks)
+        .groupBy(tracks.postyAccountId);
+      const eventCounts = await db.select({ accountId: events.postyAccountId, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(events)
+        .groupBy(events.postyAccountId);
+      
+      const tracksByAccount = new Map(trackCounts.map(row => [row.accountId, row.count]));
+      const eventsByAccount = new Map(eventCounts.map(row => [row.accountId, row.count]));
+      
+      return JSON.stringify({
+        accounts: accounts.map(account => ({
+          id: account.id,
+          isDefault: account.id === defaultAccountId,
+          trackCount: tracksByAccount.get(account.id) ?? 0,
+          eventCount: eventsByAccount.get(account.id) ?? 0
+        })),
+        defaultAccountId,
+        total: accounts.length
+      }, null, 2);
+    } catch (error) {
+      console.error('[Timeline MCP] Error in list_accounts:', error);
+      
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        stack: error instanceof Error ? error.stack : undefined
+      }, null, 2);
+    }
+  }
+});
+
+// Resources
+// Read-only views of tracks and events; clients can subscribe to them instead of polling the list tools
+
+mcp.addResource({
+  uri: TRACKS_RESOURCE_URI,
+  name: 'Tracks',
+  description: 'All tracks of the default account in display order',
+  mimeType: 'application/json',
+  load: () => inDefaultAccount(async () => {
+    const db = await getDb();
+    const results = await db.select().from(tracks).where(inAccount(tracks)).orderBy(asc(tracks.order));
+    
+    return {
+      text: JSON.stringify({ tracks: results.map(formatTrack) }, null, 2)
+    };
+  })
+});
+
+mcp.addResourceTemplate({
+  uriTemplate: 'timeline://tracks/{trackId}/events',
+  name: 'Track events',
+  description: 'A track and all its events, ordered by scheduled time',
+  mimeType: 'application/json',
+  arguments: [
+    { name: 'trackId', description: 'Track ID', required: true }
+  ],
+  load: ({ trackId }) => inDefaultAccount(async () => {
+    const db = await getDb();
+    
+    const [track] = await db.select().from(tracks).where(and(eq(tracks.id, trackId), inAccount(tracks)));
+    if (!track) {
+      throw new Error(`Track ${trackId} not found`);
+    }
+    
+    const trackEvents = await db.select().from(events)
+      .where(eq(events.trackId, trackId))
+      .orderBy(asc(events.scheduledTime));
+    
+    return {
+      text: JSON.stringify({
+        track: formatTrack(track),
+        events: trackEvents.map(event => formatEvent(event, track))
+      }, null, 2)
+    };
+  })
+});
+
+mcp.addResourceTemplate({
+  uriTemplate: 'timeline://events/{eventId}',
+  name: 'Event',
+  description: 'An event with its media folder: the folder\'s info.json, the media files and whether they satisfy the platform\'s media requirements',
+  mimeType: 'application/json',
+  arguments: [
+    { name: 'eventId', description: 'Event ID', required: true }
+  ],
+  load: ({ eventId }) => inDefaultAccount(async () => {
+    const current = await getEventWithTrack(eventId);
+    if (!current) {
+      throw new Error(`Event ${eventId} not found`);
+    }
+    
+    let info: Record<string, unknown> | null = null;
+    let media: MediaFileInfo[] = [];
+    if (current.event.mediaPath) {
+      try {
+        media = await syncMediaManifest(current.event.mediaPath, current.event);
+        info = JSON.parse(await fs.readFile(path.join(getWorkspacePath(), current.event.mediaPath, 'info.json'), 'utf8'));
+      } catch (error) {
+        console.error('[Timeline MCP] Error reading media folder:', current.event.mediaPath, error);
+      }
+    }
+    
+    return {
+      text: JSON.stringify({
+        event: formatEvent(current.event, current.track),
+        info, // Includes the media manifest
+        mediaCheck: getMediaCheck(current.event.platform, media)
+      }, null, 2)
+    };
+  })
+});
+
+// Built-in scheduler
+// Runs only when POSTY_SCHEDULER is set; see scheduler.ts for configuration
+const SCHEDULER_WORKER_ID = `scheduler-${process.pid}`;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Apply the catch-up policy to ready events that were already more than the grace period overdue when the scheduler started
+ * With 'run' nothing happens here and they are claimed as usual, firing late
+ */
+async function applyCatchUpPolicy(config: SchedulerConfig, startedAt: Date) {
+  if (config.catchUp === 'run') return;
+  
+  const db = await getDb();
+  const cutoff = new Date(startedAt.getTime() - config.graceMs).toISOString();
+  
+  const missed = await db.select().from(events).where(and(
+    inAccount(events),
+    eq(events.eventType, 'scheduled'),
+    or(getPhaseConditions('generation').ready, getPhaseConditions('posting').ready),
+    lt(events.scheduledTime, cutoff)
+  ));
+  
+  for (const event of missed) {
+    const result = config.catchUp === 'skip'
+      ? await transitionEvent(event.id, 'cancelled', {
+        error: `Skipped by scheduler: was due at ${event.scheduledTime}`
+      })
+      : await transitionEvent(event.id, 'failed', {
+        error: `Missed: was due at ${event.scheduledTime} but the scheduler was not running`
+      });
+    
+    if (result.success) {
+      console.error(`[Timeline MCP] Scheduler ${config.catchUp === 'skip' ? 'skipped' : 'marked missed'} event ${event.id}`);
+    }
+  }
+}
+
+/**
+ * Record a hook's outcome on the event
+ * If the hook already moved the event on itself (e.g. via timeline_mark_generated), leave it alone
+ */
+async function recordHookOutcome(eventId: string, phase: LeasePhase, result: HookResult) {
+  const db = await getDb();
+  
+  const [event] = await db.select().from(events).where(leasedBy(eventId, SCHEDULER_WORKER_ID));
+  if (!event) {
+    console.error(`[Timeline MCP] Scheduler hook for event ${eventId} updated the event itself`);
+    return;
+  }
+  
+  const outcome = !result.success
+    ? await transitionEvent(eventId, 'failed', { error: result.error || 'Scheduler hook failed' })
+    : phase === 'generation'
+      ? await transitionEvent(eventId, 'generated', { error: null })
+      : await transitionEvent(eventId, 'posted', { postedUrl: result.postedUrl, postTime: new Date(), error: null });
+  
+  if (!outcome.success) {
+    console.error(`[Timeline MCP] Scheduler could not record outcome for event ${eventId}:`, outcome.error);
+  } else if (result.success) {
+    console.error(`[Timeline MCP] Scheduler ${phase} hook succeeded for event ${eventId}`);
+  } else {
+    console.error(`[Timeline MCP] Scheduler ${phase} hook failed for event ${eventId}:`, result.error);
+  }
+}
+
+/**
+ * Claim and fire due events one at a time until none are left in the phase
+ */
+async function runSchedulerPhase(config: SchedulerConfig, phase: LeasePhase) {
+  // The lease outlives the hook timeout, so a running hook never loses its event
+  const leaseSeconds = Math.ceil(config.timeoutMs / 1000) + 60;
+  
+  while (true) {
+    const { events: claimed } = await claimDueEvents(SCHEDULER_WORKER_ID, phase, 1, leaseSeconds);
+    if (claimed.length === 0) return;
+    
+    const [event] = claimed;
+    const result = await runHook(config, { phase, event });
+    await recordHookOutcome(event.id, phase, result);
+  }
+}
+
+/**
+ * Earliest generation time, post time or lease expiry of the current account's events, in epoch milliseconds
+ * Only events claimDueEvents would claim count, so one it skips cannot keep waking the scheduler
+ */
+async function getNextSchedulerWake(): Promise<number | null> {
+  const db = await getDb();
+  const times: number[] = [];
+  
+  for (const phase of leasePhaseSchema.options) {
+    const { dueColumn, claimable, ready, working } = getPhaseConditions(phase);
+    
+    const [due] = await db.select({ at: dueColumn })
+      .from(events)
+      .where(and(claimable, ready, isNotNull(dueColumn)))
+      .orderBy(asc(dueColumn))
+      .limit(1);
+    
+    const [lease] = await db.select({ at: events.leaseExpiresAt })
+      .from(events)
+      .where(and(claimable, working, isNotNull(events.leaseExpiresAt)))
+      .orderBy(asc(events.leaseExpiresAt))
+      .limit(1);
+    
+    for (const at of [due?.at, lease?.at]) {
+      if (at) times.push(new Date(at).getTime());
+    }
+  }
+  
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+async function schedulerTick(config: SchedulerConfig) {
+  let delay = config.maxSleepMs;
+  
+  try {
+    // Each pass works within one account, like a tool call
+    const db = await getDb();
+    const accounts = await db.select().from(postyAccounts);
+    const wakes: number[] = [];
+    
+    for (const account of accounts) {
+      await callContext.run({ accountId: account.id, tool: 'scheduler', actor: SCHEDULER_WORKER_ID }, async () => {
+        await runSchedulerPhase(config, 'generation');
+        await runSchedulerPhase(config, 'posting');
+        
+        const next = await getNextSchedulerWake();
+        if (next !== null) wakes.push(next);
+      });
+    }
+    
+    // Sleep until the next event is due, but re-check regularly to pick up events added meanwhile
+    if (wakes.length > 0) {
+      delay = Math.min(delay, Math.max(Math.min(...wakes) - Date.now(), 1000));
+    }
+  } catch (error) {
+    console.error('[Timeline MCP] Scheduler error:', error);
+  }
+  
+  schedulerTimer = setTimeout(() => schedulerTick(config), delay);
+}
+
+/**
+ * Deal with events missed while the scheduler was down, once at startup
+ * Events that fall behind later, e.g. behind a slow hook, still fire late
+ */
+async function catchUpMissedEvents(config: SchedulerConfig, startedAt: Date) {
+  try {
+    const db = await getDb();
+    const accounts = await db.select().from(postyAccounts);
+    
+    for (const account of accounts) {
+      await callContext.run({ accountId: account.id, tool: 'scheduler', actor: SCHEDULER_WORKER_ID }, () =>
+        applyCatchUpPolicy(config, startedAt)
+      );
+    }
+  } catch (error) {
+    console.error('[Timeline MCP] Scheduler catch-up error:', error);
+  }
+}
+
+function startScheduler() {
+  const config = getSchedulerConfig();
+  if (!config) return;
+  
+  console.error(`[Timeline MCP] Scheduler started as ${SCHEDULER_WORKER_ID} (${config.command ? 'command' : 'webhook'} hook, catch-up: ${config.catchUp})`);
+  catchUpMissedEvents(config, new Date()).then(() => schedulerTick(config));
+}
+
+// Cleanup function
+process.on('SIGINT', () => {
+  if (schedulerTimer) {
+    clearTimeout(schedulerTimer);
+  }
+  if (storage) {
+    storage.close();
+  }
+  process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+  if (schedulerTimer) {
+    clearTimeout(schedulerTimer);
+  }
+  if (storage) {
+    storage.close();
   }
   process.exit(0);
 });
 
 // Start the server
-mcp.start({ transportType: 'stdio' });
\ No newline at end of file
+mcp.start({ transportType: 'stdio' });
+startScheduler();
\ No newline at end of file
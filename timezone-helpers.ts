@@ -0,0 +1,174 @@
+/**
+ * Timezone helpers for timeline-mcp
+ * Uses Intl to convert between UTC instants and wall-clock times in IANA zones
+ */
+
+/**
+ * Workspace default timezone, from POSTY_TIMEZONE (defaults to UTC)
+ */
+export function getDefaultTimeZone(): string {
+  const timeZone = process.env.POSTY_TIMEZONE;
+  if (timeZone && isValidTimeZone(timeZone)) {
+    return timeZone;
+  }
+  return 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Get the wall-clock time of an instant in a timezone
+ */
+export function toWallClock(date: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = toWallClock(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ * Times skipped by a DST change resolve forward; repeated times resolve to the first occurrence
+ */
+export function fromWallClock(wall: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const day = 24 * 60 * 60 * 1000;
+  
+  // The offsets a day either side only differ around a DST change
+  const offsetBefore = getTimeZoneOffset(new Date(asUtc - day), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(asUtc + day), timeZone);
+  
+  // Instants that show this wall-clock time: a time repeated by the change has two, and the earlier one wins
+  const matches = [asUtc - offsetBefore, asUtc - offsetAfter]
+    .filter(instant => getTimeZoneOffset(new Date(instant), timeZone) === asUtc - instant);
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  
+  // Skipped by the change: the offset from before it moves the time forward by the length of the gap
+  return new Date(asUtc - offsetBefore);
+}
+
+/**
+ * Parse a datetime string, interpreting it in `timeZone` when it carries no offset
+ * Accepts YYYY-MM-DD, YYYY-MM-DDTHH:mm and YYYY-MM-DDTHH:mm:ss (with optional fractional seconds)
+ */
+export function parseDateTimeInZone(value: string, timeZone: string): Date {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())) {
+    return new Date(value);
+  }
+  
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/);
+  if (!match) {
+    return new Date(value);
+  }
+  
+  const [, year, month, day, hour, minute, second] = match;
+  return fromWallClock({
+    year: +year,
+    month: +month,
+    day: +day,
+    hour: hour ? +hour : 0,
+    minute: minute ? +minute : 0,
+    second: second ? +second : 0
+  }, timeZone);
+}
+
+function pad(value: number, length = 2): string {
+  return String(Math.abs(value)).padStart(length, '0');
+}
+
+/**
+ * Format an instant as an ISO 8601 string with the timezone's offset, e.g. 2025-10-14T10:00:00-07:00
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const wall = toWallClock(date, timeZone);
+  const offsetMinutes = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  
+  return `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`
+    + `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
+}
+
+/**
+ * UTC instants bounding a calendar day in a timezone: [start, end)
+ * The day is taken from the YYYY-MM-DD prefix of `value`
+ */
+export function getDayBoundsInZone(value: string, timeZone: string): { start: Date; end: Date } {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  
+  const year = +match[1];
+  const month = +match[2];
+  const day = +match[3];
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  
+  return {
+    start: fromWallClock({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone),
+    end: fromWallClock({
+      year: next.getUTCFullYear(),
+      month: next.getUTCMonth() + 1,
+      day: next.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      second: 0
+    }, timeZone)
+  };
+}